@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import {
   Table,
   TableBody,
@@ -31,10 +32,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { ArrowLeft, Search, Calendar, Phone, User, Clock, X, CheckCircle, XCircle, AlertCircle } from 'lucide-react'
+import { ArrowLeft, Search, Calendar, Phone, User, Clock, X, CheckCircle, XCircle, AlertCircle, UserX, Repeat, CalendarX } from 'lucide-react'
 import { format, parseISO } from 'date-fns'
-import { formatETDateShort, formatETTime, formatETDateLong, etDateKey } from '@/lib/utils/timezone'
+import { formatBusinessDateShort, formatBusinessTime, formatBusinessDateLong, businessDateKey } from '@/lib/utils/timezone'
 import { useToast } from '@/hooks/use-toast'
+import { useBarbers } from '@/hooks/use-barbers'
 
 interface Appointment {
   id: string
@@ -45,7 +47,22 @@ interface Appointment {
   endTime: string
   status: string
   googleEventId: string | null
+  clientConfirmedAt: string | null
+  lateCancellation: boolean
   createdAt: string
+  service?: { id: string; name: string; durationMinutes: number; priceCents: number } | null
+  barber?: { id: string; name: string } | null
+  series?: { id: string; intervalWeeks: number; status: string } | null
+  groupId: string | null
+}
+
+type SeriesConflict = { date: string; time: string; reason: string }
+
+const CONFLICT_REASONS: Record<string, string> = {
+  closed: 'no hours',
+  outside_window: 'outside hours',
+  conflict: 'already booked',
+  service_unavailable: 'service unavailable',
 }
 
 export default function AppointmentsPage() {
@@ -56,9 +73,17 @@ export default function AppointmentsPage() {
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
+  const [barberFilter, setBarberFilter] = useState('all')
+  const { barbers } = useBarbers()
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null)
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
+  const [clientRequestedCancel, setClientRequestedCancel] = useState(false)
   const [syncing, setSyncing] = useState(false)
+  const [repeatDialogOpen, setRepeatDialogOpen] = useState(false)
+  const [repeatInterval, setRepeatInterval] = useState('3')
+  const [repeatCount, setRepeatCount] = useState('')
+  const [repeatUntil, setRepeatUntil] = useState('')
+  const [repeating, setRepeating] = useState(false)
 
   // Track mounted state to prevent state updates after unmount
   const isMountedRef = useRef(true)
@@ -84,7 +109,7 @@ export default function AppointmentsPage() {
 
   useEffect(() => {
     filterAppointments()
-  }, [appointments, searchTerm, statusFilter])
+  }, [appointments, searchTerm, statusFilter, barberFilter])
 
   const fetchAppointments = async () => {
     // Create new AbortController for this fetch
@@ -137,14 +162,14 @@ export default function AppointmentsPage() {
   }
 
   const autoCompletePastAppointments = async (appointmentsList: Appointment[]) => {
-    // Get current date in ET timezone as a string key (YYYY-MM-DD)
-    const todayET = etDateKey(new Date())
+    // Get current date in the business time zone as a string key (YYYY-MM-DD)
+    const todayET = businessDateKey(new Date())
 
     const pastConfirmedAppointments = appointmentsList.filter(apt => {
-      // Get appointment end date in ET timezone as a string key
-      const appointmentEndDateET = etDateKey(apt.endTime)
+      // Get appointment end date in the business time zone as a string key
+      const appointmentEndDateET = businessDateKey(apt.endTime)
 
-      // Compare date strings: appointment is past if its end date is before today in ET
+      // Compare date strings: appointment is past if its end date is before today in the business time zone
       return apt.status === 'confirmed' && appointmentEndDateET < todayET
     })
 
@@ -204,6 +229,13 @@ export default function AppointmentsPage() {
       filtered = filtered.filter(apt => apt.status === statusFilter)
     }
 
+    // Filter by barber ("unassigned" covers appointments booked before barbers existed)
+    if (barberFilter === 'unassigned') {
+      filtered = filtered.filter(apt => !apt.barber)
+    } else if (barberFilter !== 'all') {
+      filtered = filtered.filter(apt => apt.barber?.id === barberFilter)
+    }
+
     setFilteredAppointments(filtered)
   }
 
@@ -211,23 +243,28 @@ export default function AppointmentsPage() {
     if (!selectedAppointment) return
 
     try {
-      const response = await fetch(`/api/appointments/${selectedAppointment.id}`, {
+      // Cancelling for a client who called in keeps the late-cancellation and deposit rules
+      const query = clientRequestedCancel ? '?requestedBy=client' : ''
+      const response = await fetch(`/api/appointments/${selectedAppointment.id}${query}`, {
         method: 'DELETE'
       })
 
       if (!isMountedRef.current) return
 
       if (response.ok) {
+        const result = await response.json()
         toast({
           title: 'Success',
-          description: 'Appointment cancelled successfully'
+          description: result.deposit === 'refunded'
+            ? 'Appointment cancelled and deposit refunded'
+            : 'Appointment cancelled successfully'
         })
 
         // Update local state
         setAppointments(prev =>
           prev.map(apt =>
             apt.id === selectedAppointment.id
-              ? { ...apt, status: 'cancelled' }
+              ? { ...apt, status: 'cancelled', lateCancellation: result.appointment?.lateCancellation ?? false }
               : apt
           )
         )
@@ -253,12 +290,12 @@ export default function AppointmentsPage() {
     }
   }
 
-  const handleMarkCompleted = async (appointment: Appointment) => {
+  const handleSetStatus = async (appointment: Appointment, status: 'completed' | 'no_show') => {
     try {
       const response = await fetch(`/api/appointments/${appointment.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: 'completed' })
+        body: JSON.stringify({ status })
       })
 
       if (!isMountedRef.current) return
@@ -266,21 +303,22 @@ export default function AppointmentsPage() {
       if (response.ok) {
         toast({
           title: 'Success',
-          description: 'Appointment marked as completed'
+          description: status === 'no_show' ? 'Appointment marked as no-show' : 'Appointment marked as completed'
         })
 
         // Update local state
         setAppointments(prev =>
           prev.map(apt =>
             apt.id === appointment.id
-              ? { ...apt, status: 'completed' }
+              ? { ...apt, status }
               : apt
           )
         )
       } else {
+        const data = await response.json().catch(() => ({}))
         toast({
           title: 'Error',
-          description: 'Failed to update appointment',
+          description: data.error || 'Failed to update appointment',
           variant: 'destructive'
         })
       }
@@ -296,6 +334,95 @@ export default function AppointmentsPage() {
     }
   }
 
+  const handleCreateSeries = async () => {
+    if (!selectedAppointment) return
+
+    setRepeating(true)
+    try {
+      const response = await fetch(`/api/appointments/${selectedAppointment.id}/series`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          intervalWeeks: Number(repeatInterval),
+          ...(repeatCount ? { occurrenceCount: Number(repeatCount) } : {}),
+          ...(repeatUntil ? { untilDate: repeatUntil } : {}),
+        })
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!isMountedRef.current) return
+
+      if (response.ok) {
+        const conflicts: SeriesConflict[] = data.conflicts ?? []
+        toast({
+          title: 'Recurring series created',
+          description: conflicts.length > 0
+            ? `Booked ${data.booked} more visit(s). Could not book: ${conflicts
+                .map(c => `${format(parseISO(c.date), 'MMM d')} (${CONFLICT_REASONS[c.reason] ?? c.reason})`)
+                .join(', ')}`
+            : `Booked ${data.booked} more visit(s). Later visits are booked as they come into the booking window.`,
+          variant: conflicts.length > 0 ? 'destructive' : 'default'
+        })
+        setRepeatDialogOpen(false)
+        setSelectedAppointment(null)
+        fetchAppointments()
+      } else {
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to create recurring series',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      if (!isMountedRef.current) return
+
+      console.error('Error creating recurring series:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to create recurring series',
+        variant: 'destructive'
+      })
+    } finally {
+      if (isMountedRef.current) setRepeating(false)
+    }
+  }
+
+  const handleEndSeries = async (appointment: Appointment) => {
+    if (!confirm(`Stop repeating ${appointment.clientName}'s appointment after ${formatBusinessDateShort(appointment.startTime)}? Later visits are cancelled without texting the client.`)) return
+
+    try {
+      const response = await fetch(`/api/appointments/${appointment.id}/series`, {
+        method: 'DELETE'
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!isMountedRef.current) return
+
+      if (response.ok) {
+        toast({
+          title: 'Success',
+          description: `Series ended and ${data.cancelled} later visit(s) cancelled`
+        })
+        fetchAppointments()
+      } else {
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to end recurring series',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      if (!isMountedRef.current) return
+
+      console.error('Error ending recurring series:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to end recurring series',
+        variant: 'destructive'
+      })
+    }
+  }
+
   const handleSyncToCalendar = async () => {
     setSyncing(true)
     try {
@@ -356,6 +483,10 @@ export default function AppointmentsPage() {
         return <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Cancelled</span>
       case 'completed':
         return <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">Completed</span>
+      case 'pending_payment':
+        return <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Awaiting Deposit</span>
+      case 'no_show':
+        return <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">No-show</span>
       default:
         return <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">{status}</span>
     }
@@ -434,11 +565,27 @@ export default function AppointmentsPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="pending_payment">Awaiting Deposit</SelectItem>
                   <SelectItem value="confirmed">Confirmed</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="no_show">No-show</SelectItem>
                 </SelectContent>
               </Select>
+              {barbers.length > 0 && (
+                <Select value={barberFilter} onValueChange={setBarberFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Filter by barber" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Barbers</SelectItem>
+                    {barbers.map((barber) => (
+                      <SelectItem key={barber.id} value={barber.id}>{barber.name}</SelectItem>
+                    ))}
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -464,6 +611,8 @@ export default function AppointmentsPage() {
                       <TableHead>Date & Time</TableHead>
                       <TableHead>Client</TableHead>
                       <TableHead>Phone</TableHead>
+                      <TableHead>Service</TableHead>
+                      <TableHead>Barber</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Calendar</TableHead>
                       <TableHead>Actions</TableHead>
@@ -474,9 +623,9 @@ export default function AppointmentsPage() {
                       <TableRow key={appointment.id}>
                         <TableCell>
                           <div>
-                            <div className="font-medium">{formatETDateShort(appointment.startTime)}</div>
+                            <div className="font-medium">{formatBusinessDateShort(appointment.startTime)}</div>
                             <div className="text-sm text-gray-500">
-                              {formatETTime(appointment.startTime)} - {formatETTime(appointment.endTime)}
+                              {formatBusinessTime(appointment.startTime)} - {formatBusinessTime(appointment.endTime)}
                             </div>
                           </div>
                         </TableCell>
@@ -485,6 +634,9 @@ export default function AppointmentsPage() {
                             <User className="w-4 h-4 text-gray-400" />
                             {appointment.clientName}
                           </div>
+                          {appointment.groupId && (
+                            <p className="text-xs text-gray-500 mt-1">Group booking</p>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
@@ -492,7 +644,28 @@ export default function AppointmentsPage() {
                             {appointment.phoneNumber}
                           </div>
                         </TableCell>
-                        <TableCell>{getStatusBadge(appointment.status)}</TableCell>
+                        <TableCell>
+                          <span className="text-sm">{appointment.service?.name ?? 'Haircut'}</span>
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-sm">{appointment.barber?.name ?? '-'}</span>
+                        </TableCell>
+                        <TableCell>
+                          {getStatusBadge(appointment.status)}
+                          {appointment.status === 'confirmed' && appointment.clientConfirmedAt && (
+                            <p className="text-xs text-gray-500 mt-1">Client replied C</p>
+                          )}
+                          {appointment.lateCancellation && (
+                            <p className="text-xs text-amber-700 mt-1">Late cancellation</p>
+                          )}
+                          {appointment.series && (
+                            <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                              <Repeat className="w-3 h-3" />
+                              Every {appointment.series.intervalWeeks} wk{appointment.series.intervalWeeks === 1 ? '' : 's'}
+                              {appointment.series.status !== 'active' && ' (ended)'}
+                            </p>
+                          )}
+                        </TableCell>
                         <TableCell>
                           {appointment.status === 'confirmed' ? (
                             appointment.googleEventId ? (
@@ -512,20 +685,71 @@ export default function AppointmentsPage() {
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
+                            {appointment.status === 'no_show' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                title="Mark completed"
+                                onClick={() => handleSetStatus(appointment, 'completed')}
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {/* Past appointments may already be auto-completed, so staff can still flag a no-show */}
+                            {(appointment.status === 'completed' ||
+                              (appointment.status === 'confirmed' && parseISO(appointment.startTime) <= new Date())) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                title="Mark no-show"
+                                onClick={() => handleSetStatus(appointment, 'no_show')}
+                              >
+                                <UserX className="w-4 h-4" />
+                              </Button>
+                            )}
                             {appointment.status === 'confirmed' && (
                               <>
                                 <Button
                                   size="sm"
                                   variant="outline"
-                                  onClick={() => handleMarkCompleted(appointment)}
+                                  title="Mark completed"
+                                  onClick={() => handleSetStatus(appointment, 'completed')}
                                 >
                                   <CheckCircle className="w-4 h-4" />
                                 </Button>
+                                {!appointment.series && parseISO(appointment.startTime) > new Date() && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    title="Repeat"
+                                    onClick={() => {
+                                      setSelectedAppointment(appointment)
+                                      setRepeatInterval('3')
+                                      setRepeatCount('')
+                                      setRepeatUntil('')
+                                      setRepeatDialogOpen(true)
+                                    }}
+                                  >
+                                    <Repeat className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                {appointment.series?.status === 'active' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    title="End series after this visit"
+                                    onClick={() => handleEndSeries(appointment)}
+                                  >
+                                    <CalendarX className="w-4 h-4" />
+                                  </Button>
+                                )}
                                 <Button
                                   size="sm"
                                   variant="destructive"
+                                  title={appointment.series ? 'Skip this visit' : 'Cancel'}
                                   onClick={() => {
                                     setSelectedAppointment(appointment)
+                                    setClientRequestedCancel(false)
                                     setCancelDialogOpen(true)
                                   }}
                                 >
@@ -556,8 +780,18 @@ export default function AppointmentsPage() {
           {selectedAppointment && (
             <div className="space-y-2 py-4">
               <p><strong>Client:</strong> {selectedAppointment.clientName}</p>
-              <p><strong>Date:</strong> {formatETDateLong(selectedAppointment.startTime)}</p>
-              <p><strong>Time:</strong> {formatETTime(selectedAppointment.startTime)}</p>
+              <p><strong>Date:</strong> {formatBusinessDateLong(selectedAppointment.startTime)}</p>
+              <p><strong>Time:</strong> {formatBusinessTime(selectedAppointment.startTime)}</p>
+              <div className="flex items-center gap-2 pt-2">
+                <Switch
+                  id="client-requested-cancel"
+                  checked={clientRequestedCancel}
+                  onCheckedChange={setClientRequestedCancel}
+                />
+                <Label htmlFor="client-requested-cancel">
+                  The client asked to cancel (late cancellations count against them)
+                </Label>
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -570,6 +804,73 @@ export default function AppointmentsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={repeatDialogOpen} onOpenChange={setRepeatDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Repeat Appointment</DialogTitle>
+            <DialogDescription>
+              Book this client at the same time with the same barber on a regular schedule. Visits are booked
+              up to the booking window ahead, and any that don&apos;t fit are listed so you can place them by hand.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedAppointment && (
+            <div className="space-y-4 py-4">
+              <p>
+                <strong>{selectedAppointment.clientName}</strong>, {formatBusinessDateLong(selectedAppointment.startTime)} at{' '}
+                {formatBusinessTime(selectedAppointment.startTime)}
+              </p>
+              <div className="space-y-2">
+                <Label>Repeat every</Label>
+                <Select value={repeatInterval} onValueChange={setRepeatInterval}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5, 6, 8].map(weeks => (
+                      <SelectItem key={weeks} value={String(weeks)}>
+                        {weeks === 1 ? 'Week' : `${weeks} weeks`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="repeat-count">Number of visits</Label>
+                  <Input
+                    id="repeat-count"
+                    type="number"
+                    min={2}
+                    max={52}
+                    placeholder="No limit"
+                    value={repeatCount}
+                    onChange={(e) => setRepeatCount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="repeat-until">Until</Label>
+                  <Input
+                    id="repeat-until"
+                    type="date"
+                    value={repeatUntil}
+                    onChange={(e) => setRepeatUntil(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Leave both empty to repeat until the series is ended.</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRepeatDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateSeries} disabled={repeating}>
+              {repeating ? 'Booking...' : 'Create Series'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -15,11 +15,19 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { SimpleCalendar } from '@/components/ui/simple-calendar'
 import { ArrowLeft, Plus, Calendar, Trash2, Clock, Bell } from 'lucide-react'
 import { format, parseISO, startOfToday } from 'date-fns'
-import { formatETDateLong } from '@/lib/utils/timezone'
+import { formatBusinessDateLong } from '@/lib/utils/timezone'
 import { useToast } from '@/hooks/use-toast'
+import { useBarbers } from '@/hooks/use-barbers'
 
 interface AvailableSlot {
   id: string
@@ -28,6 +36,7 @@ interface AvailableSlot {
   endTime: string
   reason: string | null
   createdAt: string
+  barber?: { id: string; name: string } | null
 }
 
 interface EligibleClient {
@@ -46,6 +55,10 @@ export default function AvailableSlotsPage() {
   const [startTime, setStartTime] = useState('09:00')
   const [endTime, setEndTime] = useState('18:00')
   const [reason, setReason] = useState('')
+  const { barbers } = useBarbers()
+  const activeBarbers = barbers.filter(barber => barber.isActive)
+  const [barberFilter, setBarberFilter] = useState('all')
+  const [slotBarberId, setSlotBarberId] = useState('')
   const [bulkLoading, setBulkLoading] = useState(false)
   const [alertDialogOpen, setAlertDialogOpen] = useState(false)
   const [alertLoading, setAlertLoading] = useState(false)
@@ -119,7 +132,8 @@ export default function AvailableSlotsPage() {
           date: format(selectedDate, 'yyyy-MM-dd'),
           startTime,
           endTime,
-          reason: reason || null
+          reason: reason || null,
+          barberId: slotBarberId || activeBarbers[0]?.id || null
         })
       })
 
@@ -184,6 +198,7 @@ export default function AvailableSlotsPage() {
     setStartTime('09:00')
     setEndTime('18:00')
     setReason('')
+    setSlotBarberId('')
   }
 
   const handleBulkCreate = async () => {
@@ -312,8 +327,12 @@ export default function AvailableSlotsPage() {
     }
   }
 
+  const visibleSlots = barberFilter === 'all'
+    ? availableSlots
+    : availableSlots.filter(slot => slot.barber?.id === barberFilter)
+
   const getAvailableDatesForCalendar = () => {
-    return availableSlots.map(slot => {
+    return visibleSlots.map(slot => {
       const d = new Date(slot.date)
       return new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
     })
@@ -420,7 +439,20 @@ export default function AvailableSlotsPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {availableSlots.length === 0 ? (
+              {barbers.length > 0 && (
+                <Select value={barberFilter} onValueChange={setBarberFilter}>
+                  <SelectTrigger className="w-48 mb-4">
+                    <SelectValue placeholder="Filter by barber" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Barbers</SelectItem>
+                    {barbers.map((barber) => (
+                      <SelectItem key={barber.id} value={barber.id}>{barber.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {visibleSlots.length === 0 ? (
                 <div className="text-center py-8">
                   <Calendar className="w-12 h-12 text-gray-300 mx-auto mb-4" />
                   <p className="text-gray-500">No available slots configured</p>
@@ -428,12 +460,12 @@ export default function AvailableSlotsPage() {
                 </div>
               ) : (
                 <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {availableSlots.map((slot) => (
+                  {visibleSlots.map((slot) => (
                     <div key={slot.id} className="flex items-center justify-between p-3 border rounded-lg bg-green-50 border-green-200">
                       <div className="flex-1">
                         <div className="font-medium">
                           {(() => {
-                            return formatETDateLong(slot.date)
+                            return formatBusinessDateLong(slot.date)
                           })()}
                         </div>
                         <div className="text-sm text-gray-600">
@@ -442,6 +474,11 @@ export default function AvailableSlotsPage() {
                             {slot.startTime} - {slot.endTime}
                           </span>
                         </div>
+                        {slot.barber && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {slot.barber.name}
+                          </div>
+                        )}
                         {slot.reason && (
                           <div className="text-xs text-gray-500 mt-1">
                             {slot.reason}
@@ -473,6 +510,22 @@ export default function AvailableSlotsPage() {
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            {activeBarbers.length > 1 && (
+              <div>
+                <Label>Barber</Label>
+                <Select value={slotBarberId || activeBarbers[0].id} onValueChange={setSlotBarberId}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue placeholder="Select barber" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeBarbers.map((barber) => (
+                      <SelectItem key={barber.id} value={barber.id}>{barber.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div>
               <Label>Select Date</Label>
               <SimpleCalendar
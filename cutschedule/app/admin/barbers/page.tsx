@@ -0,0 +1,277 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ArrowLeft, Plus, Users, Pencil } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { useBarbers, type AdminBarber } from '@/hooks/use-barbers'
+
+interface BarberForm {
+  name: string
+  phoneNumber: string
+  email: string
+  googleCalendarId: string
+  sortOrder: string
+}
+
+const emptyForm: BarberForm = { name: '', phoneNumber: '', email: '', googleCalendarId: '', sortOrder: '0' }
+
+export default function BarbersPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { barbers, loading, refresh } = useBarbers()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<AdminBarber | null>(null)
+  const [form, setForm] = useState<BarberForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm({ ...emptyForm, sortOrder: String(barbers.length) })
+    setDialogOpen(true)
+  }
+
+  const openEdit = (barber: AdminBarber) => {
+    setEditing(barber)
+    setForm({
+      name: barber.name,
+      phoneNumber: barber.phoneNumber || '',
+      email: barber.email || '',
+      googleCalendarId: barber.googleCalendarId || '',
+      sortOrder: String(barber.sortOrder),
+    })
+    setDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const payload = {
+        name: form.name,
+        phoneNumber: form.phoneNumber || null,
+        email: form.email || null,
+        googleCalendarId: form.googleCalendarId || null,
+        sortOrder: parseInt(form.sortOrder) || 0,
+      }
+      const response = await fetch(editing ? `/api/barbers/${editing.id}` : '/api/barbers', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+
+      if (response.ok) {
+        toast({
+          title: 'Success',
+          description: editing ? 'Barber updated successfully' : 'Barber added successfully'
+        })
+        setDialogOpen(false)
+        await refresh()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to save barber',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      console.error('Error saving barber:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to save barber',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleActiveChange = async (barber: AdminBarber, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/barbers/${barber.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive })
+      })
+
+      if (response.ok) {
+        await refresh()
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to update barber',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      console.error('Error updating barber:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update barber',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => router.push('/admin')}
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Barbers</h1>
+              <p className="text-gray-600">Manage staff and their calendars</p>
+            </div>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Barber
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Staff
+            </CardTitle>
+            <CardDescription>
+              Inactive barbers are hidden from booking but keep their past appointments
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {barbers.length === 0 ? (
+              <div className="text-center py-8">
+                <Users className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-500">No barbers yet</p>
+                <p className="text-sm text-gray-400 mt-2">Add a barber to start taking bookings</p>
+              </div>
+            ) : (
+              barbers.map((barber) => (
+                <div key={barber.id} className="flex items-center gap-4 p-4 border rounded-lg">
+                  <div className="flex-1">
+                    <p className="font-medium">{barber.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {barber.googleCalendarId ? `Calendar: ${barber.googleCalendarId}` : 'Uses the shop calendar'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={barber.isActive}
+                      onCheckedChange={(checked) => handleActiveChange(barber, checked)}
+                    />
+                    <Label className="text-sm text-gray-600">
+                      {barber.isActive ? 'Active' : 'Inactive'}
+                    </Label>
+                  </div>
+
+                  <Button size="sm" variant="outline" onClick={() => openEdit(barber)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Barber' : 'Add Barber'}</DialogTitle>
+            <DialogDescription>
+              Bookings for this barber are added to their Google Calendar when one is set
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="barber-name">Name</Label>
+              <Input
+                id="barber-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <Label htmlFor="barber-phone">Phone (optional)</Label>
+                <Input
+                  id="barber-phone"
+                  type="tel"
+                  value={form.phoneNumber}
+                  onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })}
+                />
+              </div>
+              <div className="flex-1">
+                <Label htmlFor="barber-email">Email (optional)</Label>
+                <Input
+                  id="barber-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="barber-calendar">Google Calendar ID (optional)</Label>
+              <Input
+                id="barber-calendar"
+                placeholder="e.g., abc123@group.calendar.google.com"
+                value={form.googleCalendarId}
+                onChange={(e) => setForm({ ...form, googleCalendarId: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="barber-order">Display Order</Label>
+              <Input
+                id="barber-order"
+                type="number"
+                min={0}
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                className="w-32"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || form.name.trim().length < 2}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
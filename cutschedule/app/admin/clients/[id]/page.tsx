@@ -0,0 +1,275 @@
+'use client'
+
+import { useParams, useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, Calendar, MessageCircle, Save } from 'lucide-react'
+import { formatBusinessDateShort, formatBusinessDateTimeShort } from '@/lib/utils/timezone'
+import { useToast } from '@/hooks/use-toast'
+
+interface ClientAppointment {
+  id: string
+  clientName: string
+  startTime: string
+  status: string
+  service: { name: string } | null
+  barber: { name: string } | null
+}
+
+interface ClientMessage {
+  id: string
+  direction: 'inbound' | 'outbound'
+  body: string | null
+  at: string
+  type: string
+  status?: string
+}
+
+interface ClientProfile {
+  id: string
+  phoneNumber: string
+  name: string
+  nameHistory: string[]
+  notes: string | null
+  tags: string[]
+  visitCount: number
+  lastVisitAt: string | null
+  noShowCount: number
+  lateCancelCount: number
+  createdAt: string
+  appointments: ClientAppointment[]
+  messages: ClientMessage[]
+}
+
+type TimelineItem =
+  | { kind: 'appointment'; at: string; appointment: ClientAppointment }
+  | { kind: 'message'; at: string; message: ClientMessage }
+
+export default function ClientProfilePage() {
+  const router = useRouter()
+  const { id } = useParams<{ id: string }>()
+  const { toast } = useToast()
+  const [client, setClient] = useState<ClientProfile | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notes, setNotes] = useState('')
+  const [tags, setTags] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const fetchClient = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${id}`)
+      if (response.ok) {
+        const data: ClientProfile = await response.json()
+        setClient(data)
+        setNotes(data.notes ?? '')
+        setTags(data.tags.join(', '))
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch client',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching client:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [id, toast])
+
+  useEffect(() => {
+    fetchClient()
+  }, [fetchClient])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/clients/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes,
+          tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        }),
+      })
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Client updated' })
+        await fetchClient()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to update client',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error updating client:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update client',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (!client) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">Client not found</p>
+        <Button variant="outline" onClick={() => router.push('/admin/clients')}>Back to Clients</Button>
+      </div>
+    )
+  }
+
+  // Newest first; appointments sit at the time they are (or were) for
+  const timeline: TimelineItem[] = [
+    ...client.appointments.map((appointment) => ({ kind: 'appointment' as const, at: appointment.startTime, appointment })),
+    ...client.messages.map((message) => ({ kind: 'message' as const, at: message.at, message })),
+  ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <div className="flex items-center space-x-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push('/admin/clients')}
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Clients
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{client.name}</h1>
+                <p className="text-sm text-gray-600">{client.phoneNumber}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Profile</CardTitle>
+                <CardDescription>Client since {formatBusinessDateShort(client.createdAt)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p><span className="text-gray-500">Visits:</span> {client.visitCount}</p>
+                <p><span className="text-gray-500">Last visit:</span> {client.lastVisitAt ? formatBusinessDateShort(client.lastVisitAt) : 'Never'}</p>
+                <p><span className="text-gray-500">No-shows:</span> {client.noShowCount}</p>
+                <p><span className="text-gray-500">Late cancellations:</span> {client.lateCancelCount}</p>
+                {client.nameHistory.length > 1 && (
+                  <p><span className="text-gray-500">Also booked as:</span> {client.nameHistory.filter((name) => name !== client.name).join(', ')}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Notes</CardTitle>
+                <CardDescription>Preferred cut, clipper guard, anything to remember</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={5}
+                  maxLength={2000}
+                  placeholder="e.g. Skin fade, #2 on top"
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                />
+                <div className="space-y-2">
+                  <Label htmlFor="client-tags">Tags</Label>
+                  <Input
+                    id="client-tags"
+                    placeholder="regular, kids, beard"
+                    value={tags}
+                    onChange={(e) => setTags(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">Separate tags with commas</p>
+                </div>
+                <Button onClick={handleSave} disabled={saving}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+              <CardDescription>Appointments and text messages</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {timeline.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Nothing yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {timeline.map((item) =>
+                    item.kind === 'appointment' ? (
+                      <div key={`appointment-${item.appointment.id}`} className="flex items-start gap-3 p-3 border rounded-lg">
+                        <Calendar className="w-5 h-5 text-blue-600 mt-0.5" />
+                        <div className="flex-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium">
+                              {item.appointment.service?.name ?? 'Appointment'}
+                              {item.appointment.barber ? ` with ${item.appointment.barber.name}` : ''}
+                            </p>
+                            <Badge variant={item.appointment.status === 'confirmed' ? 'default' : 'outline'}>
+                              {item.appointment.status}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            {formatBusinessDateTimeShort(item.appointment.startTime)}
+                            {item.appointment.clientName !== client.name && ` · booked as ${item.appointment.clientName}`}
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div key={`${item.message.direction}-${item.message.id}`} className="flex items-start gap-3 p-3">
+                        <MessageCircle className={`w-5 h-5 mt-0.5 ${item.message.direction === 'inbound' ? 'text-gray-500' : 'text-green-600'}`} />
+                        <div className="flex-1">
+                          <p className="text-sm whitespace-pre-wrap">
+                            {item.message.body || <em>{item.message.type} (text not stored)</em>}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {item.message.direction === 'inbound' ? 'Received' : 'Sent'} {formatBusinessDateTimeShort(item.message.at)}
+                            {item.message.status && item.message.status !== 'sent' && ` · ${item.message.status}`}
+                          </p>
+                        </div>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, RefreshCw, Search } from 'lucide-react'
+import { formatBusinessDateShort } from '@/lib/utils/timezone'
+import { useToast } from '@/hooks/use-toast'
+
+interface Client {
+  id: string
+  phoneNumber: string
+  name: string
+  tags: string[]
+  visitCount: number
+  lastVisitAt: string | null
+  noShowCount: number
+}
+
+export default function ClientsPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [clients, setClients] = useState<Client[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+
+  const fetchClients = useCallback(async (query: string) => {
+    try {
+      const params = new URLSearchParams()
+      if (query.trim()) params.set('search', query.trim())
+      const response = await fetch(`/api/clients?${params.toString()}`)
+      if (response.ok) {
+        setClients(await response.json())
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch clients',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching clients:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch clients',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchClients('')
+  }, [fetchClients])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => router.push('/admin')}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Clients</h1>
+                  <p className="text-sm text-gray-600">Everyone who has booked, by phone number</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fetchClients(search)}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>All Clients</CardTitle>
+            <CardDescription>
+              {clients.length} {clients.length === 1 ? 'client' : 'clients'}
+            </CardDescription>
+            <form
+              className="flex gap-2 pt-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                fetchClients(search)
+              }}
+            >
+              <Input
+                placeholder="Search by name, phone or tag"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              <Button type="submit" variant="outline">
+                <Search className="w-4 h-4" />
+              </Button>
+            </form>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone Number</TableHead>
+                    <TableHead>Visits</TableHead>
+                    <TableHead>Last Visit</TableHead>
+                    <TableHead>No-shows</TableHead>
+                    <TableHead>Tags</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {clients.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                        No clients found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    clients.map((client) => (
+                      <TableRow
+                        key={client.id}
+                        className="cursor-pointer"
+                        onClick={() => router.push(`/admin/clients/${client.id}`)}
+                      >
+                        <TableCell className="font-medium">{client.name}</TableCell>
+                        <TableCell>{client.phoneNumber}</TableCell>
+                        <TableCell>{client.visitCount}</TableCell>
+                        <TableCell>{client.lastVisitAt ? formatBusinessDateShort(client.lastVisitAt) : 'Never'}</TableCell>
+                        <TableCell>{client.noShowCount}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {client.tags.map((tag) => (
+                              <Badge key={tag} variant="outline">{tag}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -28,7 +28,7 @@ function LoginContent() {
     // Check if user is already logged in, but only once
     const checkSession = async () => {
       const session = await getSession()
-      // OAuth authenticated users have access - no admin check needed
+      // Only allowlisted accounts get a session, so anyone signed in belongs here
       if (session?.user) {
         // Use replace instead of push to avoid history issues
         router.replace('/admin')
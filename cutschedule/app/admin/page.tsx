@@ -6,10 +6,10 @@ import { LinkButton } from '@/components/ui/link-button'
 import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Calendar, Clock, Users, Phone, LogOut, Settings } from 'lucide-react'
+import { Calendar, Clock, Users, Phone, LogOut, Settings, MessageCircle, ListOrdered, UserRound, CalendarOff } from 'lucide-react'
 import { format, parseISO } from 'date-fns'
-import { formatETTime, formatETDateShort, isETToday, isETTomorrow, etDaysFromToday } from '@/lib/utils/timezone'
-import { APP_CONFIG } from '@/lib/constants'
+import { formatBusinessTime, formatBusinessDateShort, isBusinessToday, isBusinessTomorrow, businessDaysFromToday } from '@/lib/utils/timezone'
+import { getDurationMinutes } from '@/lib/utils/dates'
 
 interface Appointment {
   id: string
@@ -19,6 +19,7 @@ interface Appointment {
   startTime: string
   endTime: string
   status: string
+  service?: { id: string; name: string; durationMinutes: number; priceCents: number } | null
 }
 
 export default function AdminDashboard() {
@@ -47,15 +48,15 @@ export default function AdminDashboard() {
 
         // Calculate stats
         const todayAppts = data.filter((apt: Appointment) =>
-          apt.status === 'confirmed' && isETToday(apt.startTime)
+          apt.status === 'confirmed' && isBusinessToday(apt.startTime)
         ).length
 
         const tomorrowAppts = data.filter((apt: Appointment) =>
-          apt.status === 'confirmed' && isETTomorrow(apt.startTime)
+          apt.status === 'confirmed' && isBusinessTomorrow(apt.startTime)
         ).length
 
         const thisWeekAppts = data.filter((apt: Appointment) => {
-          const daysDiff = etDaysFromToday(apt.startTime)
+          const daysDiff = businessDaysFromToday(apt.startTime)
           return apt.status === 'confirmed' && daysDiff >= 0 && daysDiff <= 7
         }).length
 
@@ -78,9 +79,9 @@ export default function AdminDashboard() {
   }
 
   const getAppointmentStatus = (apt: Appointment) => {
-    if (isETToday(apt.startTime)) return 'Today'
-    if (isETTomorrow(apt.startTime)) return 'Tomorrow'
-    return formatETDateShort(apt.startTime)
+    if (isBusinessToday(apt.startTime)) return 'Today'
+    if (isBusinessTomorrow(apt.startTime)) return 'Tomorrow'
+    return formatBusinessDateShort(apt.startTime)
   }
 
   if (loading) {
@@ -93,12 +94,12 @@ export default function AdminDashboard() {
 
 
   const todayAppointments = appointments
-    .filter(apt => apt.status === 'confirmed' && isETToday(apt.startTime))
+    .filter(apt => apt.status === 'confirmed' && isBusinessToday(apt.startTime))
     .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
 
   const upcomingAppointments = appointments
     .filter(apt => {
-      const daysDiff = etDaysFromToday(apt.startTime)
+      const daysDiff = businessDaysFromToday(apt.startTime)
       return apt.status === 'confirmed' && daysDiff > 0 && daysDiff <= 7
     })
     .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
@@ -210,8 +211,10 @@ export default function AdminDashboard() {
                         </p>
                       </div>
                       <div className="text-right">
-                        <p className="font-medium">{formatETTime(appointment.startTime)}</p>
-                        <p className="text-xs text-gray-500">{APP_CONFIG.APPOINTMENT_DURATION} min</p>
+                        <p className="font-medium">{formatBusinessTime(appointment.startTime)}</p>
+                        <p className="text-xs text-gray-500">
+                          {appointment.service?.name ?? 'Haircut'} · {getDurationMinutes(appointment.startTime, appointment.endTime)} min
+                        </p>
                       </div>
                     </div>
                   ))}
@@ -243,7 +246,7 @@ export default function AdminDashboard() {
                         <p className="text-sm text-gray-600">{getAppointmentStatus(appointment)}</p>
                       </div>
                       <div className="text-right">
-                        <p className="font-medium">{formatETTime(appointment.startTime)}</p>
+                        <p className="font-medium">{formatBusinessTime(appointment.startTime)}</p>
                         <p className="text-xs text-gray-500">{appointment.phoneNumber}</p>
                       </div>
                     </div>
@@ -274,19 +277,54 @@ export default function AdminDashboard() {
                     <p className="text-sm">View All Appointments</p>
                   </div>
                 </LinkButton>
-                {/** Working Hours removed in favor of Available Slots as single source of truth **/}
+                <LinkButton href="/admin/working-hours" variant="outline" className="h-16">
+                  <div className="text-center">
+                    <Clock className="w-6 h-6 mx-auto mb-1" />
+                    <p className="text-sm">Working Hours</p>
+                  </div>
+                </LinkButton>
                 <LinkButton href="/admin/available-slots" variant="outline" className="h-16">
                   <div className="text-center">
                     <Calendar className="w-6 h-6 mx-auto mb-1" />
                     <p className="text-sm">Available Time Slots</p>
                   </div>
                 </LinkButton>
+                <LinkButton href="/admin/time-off" variant="outline" className="h-16">
+                  <div className="text-center">
+                    <CalendarOff className="w-6 h-6 mx-auto mb-1" />
+                    <p className="text-sm">Time Off</p>
+                  </div>
+                </LinkButton>
+                <LinkButton href="/admin/barbers" variant="outline" className="h-16">
+                  <div className="text-center">
+                    <Users className="w-6 h-6 mx-auto mb-1" />
+                    <p className="text-sm">Barbers</p>
+                  </div>
+                </LinkButton>
                 <LinkButton href="/admin/sms-logs" variant="outline" className="h-16">
                   <div className="text-center">
                     <Phone className="w-6 h-6 mx-auto mb-1" />
                     <p className="text-sm">SMS Logs</p>
                   </div>
                 </LinkButton>
+                <LinkButton href="/admin/sms-inbox" variant="outline" className="h-16">
+                  <div className="text-center">
+                    <MessageCircle className="w-6 h-6 mx-auto mb-1" />
+                    <p className="text-sm">SMS Inbox</p>
+                  </div>
+                </LinkButton>
+                <LinkButton href="/admin/waitlist" variant="outline" className="h-16">
+                  <div className="text-center">
+                    <ListOrdered className="w-6 h-6 mx-auto mb-1" />
+                    <p className="text-sm">Waitlist</p>
+                  </div>
+                </LinkButton>
+                <LinkButton href="/admin/clients" variant="outline" className="h-16">
+                  <div className="text-center">
+                    <UserRound className="w-6 h-6 mx-auto mb-1" />
+                    <p className="text-sm">Clients</p>
+                  </div>
+                </LinkButton>
               </div>
             </CardContent>
           </Card>
@@ -1,12 +1,241 @@
 "use client"
 
 import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft, Settings as SettingsIcon } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, CalendarDays, Copy, Save, ShieldCheck, Store, Trash2, UserPlus } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { ADMIN_ROLES, type AdminRole, type BusinessSettings } from '@/lib/constants'
+
+interface AllowedEmail {
+  id: string
+  email: string
+  role: AdminRole
+  addedBy: string | null
+}
+
+interface CalendarFeedLink {
+  barberId: string | null
+  name: string
+  url: string
+}
+
+const roleLabels: Record<AdminRole, string> = {
+  admin: 'Admin - full access, including settings',
+  staff: 'Staff - manage appointments and slots',
+  viewer: 'Viewer - read only',
+}
 
 export default function AdminSettingsPage() {
   const router = useRouter()
+  const { toast } = useToast()
+  const [allowedEmails, setAllowedEmails] = useState<AllowedEmail[]>([])
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [newEmail, setNewEmail] = useState('')
+  const [newRole, setNewRole] = useState<AdminRole>(ADMIN_ROLES.STAFF)
+  const [saving, setSaving] = useState(false)
+  const [business, setBusiness] = useState<BusinessSettings | null>(null)
+  const [savingBusiness, setSavingBusiness] = useState(false)
+  const [feedLinks, setFeedLinks] = useState<CalendarFeedLink[]>([])
+
+  const fetchAllowedEmails = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/allowed-emails')
+      if (response.status === 403) {
+        setForbidden(true)
+        return
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch allowlist')
+      }
+      setAllowedEmails(await response.json())
+    } catch (error) {
+      console.error('Error fetching allowlist:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch allowlist',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  const fetchBusinessSettings = useCallback(async () => {
+    try {
+      const response = await fetch('/api/settings')
+      if (!response.ok) {
+        throw new Error('Failed to fetch business settings')
+      }
+      setBusiness(await response.json())
+    } catch (error) {
+      console.error('Error fetching business settings:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch business settings',
+        variant: 'destructive'
+      })
+    }
+  }, [toast])
+
+  // Admins only; for everyone else the card stays hidden
+  const fetchFeedLinks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/calendar-feed')
+      if (response.ok) {
+        setFeedLinks(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching calendar feed links:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchAllowedEmails()
+    fetchBusinessSettings()
+    fetchFeedLinks()
+  }, [fetchAllowedEmails, fetchBusinessSettings, fetchFeedLinks])
+
+  const copyFeedLink = async (link: CalendarFeedLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url)
+      toast({
+        title: 'Copied',
+        description: `Feed link for ${link.name} copied`
+      })
+    } catch (error) {
+      console.error('Error copying feed link:', error)
+      toast({
+        title: 'Error',
+        description: 'Could not copy the link',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const updateBusiness = <K extends keyof BusinessSettings>(field: K, value: BusinessSettings[K]) => {
+    setBusiness(prev => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const saveBusinessSettings = async () => {
+    if (!business) return
+
+    setSavingBusiness(true)
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(business)
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (response.ok) {
+        setBusiness(data)
+        toast({
+          title: 'Success',
+          description: 'Business settings saved'
+        })
+      } else {
+        toast({
+          title: 'Error',
+          description: data.details?.[0]?.message || data.error || 'Failed to save business settings',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      console.error('Error saving business settings:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to save business settings',
+        variant: 'destructive'
+      })
+    } finally {
+      setSavingBusiness(false)
+    }
+  }
+
+  const saveEntry = async (email: string, role: AdminRole) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/allowed-emails', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role })
+      })
+
+      if (response.ok) {
+        toast({
+          title: 'Success',
+          description: `${email} can sign in as ${role}`
+        })
+        setNewEmail('')
+        await fetchAllowedEmails()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to update allowlist',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      console.error('Error updating allowlist:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update allowlist',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeEntry = async (entry: AllowedEmail) => {
+    if (!confirm(`Remove access for ${entry.email}? They will be signed out.`)) return
+
+    try {
+      const response = await fetch(`/api/admin/allowed-emails/${entry.id}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        await fetchAllowedEmails()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to remove access',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      console.error('Error removing allowlist entry:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to remove access',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gray-50 p-4">
@@ -25,25 +254,225 @@ export default function AdminSettingsPage() {
           </div>
         </div>
 
+        {business && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Store className="w-5 h-5" />
+                Business
+              </CardTitle>
+              <CardDescription>
+                Shown on the booking pages and in text messages. Changes can take up to a minute to show everywhere.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="business-name">Business Name</Label>
+                  <Input
+                    id="business-name"
+                    value={business.businessName}
+                    onChange={(e) => updateBusiness('businessName', e.target.value)}
+                    disabled={forbidden}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="business-phone">Phone</Label>
+                  <Input
+                    id="business-phone"
+                    type="tel"
+                    value={business.phone}
+                    onChange={(e) => updateBusiness('phone', e.target.value)}
+                    disabled={forbidden}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="business-address">Address</Label>
+                  <Input
+                    id="business-address"
+                    value={business.address}
+                    onChange={(e) => updateBusiness('address', e.target.value)}
+                    disabled={forbidden}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="business-url">Booking URL</Label>
+                  <Input
+                    id="business-url"
+                    type="url"
+                    placeholder="https://example.com"
+                    value={business.bookingUrl}
+                    onChange={(e) => updateBusiness('bookingUrl', e.target.value)}
+                    disabled={forbidden}
+                  />
+                </div>
+              </div>
+
+              <div className="grid sm:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="business-duration">Appointment Length (minutes)</Label>
+                  <Input
+                    id="business-duration"
+                    type="number"
+                    min={5}
+                    value={business.appointmentDuration}
+                    onChange={(e) => updateBusiness('appointmentDuration', e.target.valueAsNumber)}
+                    disabled={forbidden}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Used until services are set up</p>
+                </div>
+                <div>
+                  <Label htmlFor="business-interval">Slot Interval (minutes)</Label>
+                  <Input
+                    id="business-interval"
+                    type="number"
+                    min={5}
+                    value={business.slotInterval}
+                    onChange={(e) => updateBusiness('slotInterval', e.target.valueAsNumber)}
+                    disabled={forbidden}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Time between offered start times</p>
+                </div>
+                <div>
+                  <Label htmlFor="business-advance">Book Up To (days ahead)</Label>
+                  <Input
+                    id="business-advance"
+                    type="number"
+                    min={1}
+                    value={business.maxAdvanceDays}
+                    onChange={(e) => updateBusiness('maxAdvanceDays', e.target.valueAsNumber)}
+                    disabled={forbidden}
+                  />
+                </div>
+              </div>
+
+              {forbidden ? (
+                <p className="text-sm text-gray-600">
+                  Only admins can change business settings.
+                </p>
+              ) : (
+                <Button onClick={saveBusinessSettings} disabled={savingBusiness}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {savingBusiness ? 'Saving…' : 'Save Business Settings'}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {feedLinks.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="w-5 h-5" />
+                Calendar Feed
+              </CardTitle>
+              <CardDescription>
+                Subscribe to these links from Google Calendar, Apple Calendar or Outlook to see appointments there.
+                Anyone with a link can read it, so only share it with that barber.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {feedLinks.map((link) => (
+                <div key={link.barberId ?? 'all'}>
+                  <Label htmlFor={`feed-${link.barberId ?? 'all'}`}>{link.name}</Label>
+                  <div className="flex gap-2">
+                    <Input id={`feed-${link.barberId ?? 'all'}`} value={link.url} readOnly />
+                    <Button variant="outline" size="icon" onClick={() => copyFeedLink(link)}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <SettingsIcon className="w-5 h-5" />
-              General Settings
+              <ShieldCheck className="w-5 h-5" />
+              Admin Access
             </CardTitle>
             <CardDescription>
-              This is a placeholder. Add settings as needed.
+              Only Google accounts on this list can sign in to the admin area
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <p className="text-sm text-gray-600">
-              No configurable settings yet. If you have specific settings in mind
-              (notifications, business info, integrations), let me know and I can add them here.
-            </p>
+          <CardContent className="space-y-4">
+            {forbidden ? (
+              <p className="text-sm text-gray-600">
+                Only admins can manage who has access.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                  <div className="flex-1">
+                    <Label htmlFor="allowed-email">Email</Label>
+                    <Input
+                      id="allowed-email"
+                      type="email"
+                      placeholder="name@gmail.com"
+                      value={newEmail}
+                      onChange={(e) => setNewEmail(e.target.value)}
+                    />
+                  </div>
+                  <Select value={newRole} onValueChange={(value) => setNewRole(value as AdminRole)}>
+                    <SelectTrigger className="sm:w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(ADMIN_ROLES).map((role) => (
+                        <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => saveEntry(newEmail.trim(), newRole)}
+                    disabled={saving || !newEmail.trim()}
+                  >
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Add
+                  </Button>
+                </div>
+
+                {allowedEmails.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4 text-center">
+                    No one has been added yet. The ADMIN_EMAIL account can always sign in.
+                  </p>
+                ) : (
+                  allowedEmails.map((entry) => (
+                    <div key={entry.id} className="flex items-center gap-4 p-4 border rounded-lg">
+                      <div className="flex-1">
+                        <p className="font-medium">{entry.email}</p>
+                        {entry.addedBy && (
+                          <p className="text-sm text-gray-500">Added by {entry.addedBy}</p>
+                        )}
+                      </div>
+                      <Select
+                        value={entry.role}
+                        onValueChange={(value) => saveEntry(entry.email, value as AdminRole)}
+                        disabled={saving}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.values(ADMIN_ROLES).map((role) => (
+                            <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button size="sm" variant="outline" onClick={() => removeEntry(entry)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
     </div>
   )
 }
-
@@ -0,0 +1,314 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, MessageCircle, RefreshCw, Send } from 'lucide-react'
+import { formatBusinessDateTimeShort } from '@/lib/utils/timezone'
+import { useToast } from '@/hooks/use-toast'
+
+interface ThreadMessage {
+  id: string
+  direction: 'inbound' | 'outbound'
+  body: string | null
+  at: string
+  type: string
+  status?: string
+}
+
+interface ConversationSummary {
+  phoneNumber: string
+  clientName: string | null
+  lastMessage: ThreadMessage
+  lastInboundAt: string | null
+}
+
+interface Conversation {
+  phoneNumber: string
+  clientName: string | null
+  messages: ThreadMessage[]
+  appointments: {
+    id: string
+    startTime: string
+    status: string
+    service?: { name: string } | null
+    barber?: { name: string } | null
+  }[]
+}
+
+const messageTypeLabels: Record<string, string> = {
+  confirmation: 'Confirmation',
+  reminder_1day: '1 Day Reminder',
+  reminder_1hour: '1 Hour Reminder',
+  reschedule_2weeks: '2 Week Reschedule',
+  reschedule_3weeks: '3 Week Reschedule',
+  cancellation: 'Cancellation',
+  availability_alert: 'Availability Alert',
+  verification_code: 'Lookup Code',
+  manual_reply: 'Reply',
+  auto_reply: 'Auto Reply',
+  waitlist_offer: 'Waitlist Offer',
+  group_confirmation: 'Group Confirmation',
+}
+
+export default function SMSInboxPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null)
+  const [conversation, setConversation] = useState<Conversation | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [reply, setReply] = useState('')
+  const [sending, setSending] = useState(false)
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sms/conversations')
+      if (response.ok) {
+        setConversations(await response.json())
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch conversations',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching conversations:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch conversations',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  const fetchConversation = useCallback(async (phoneNumber: string) => {
+    try {
+      const response = await fetch(`/api/sms/conversations/${encodeURIComponent(phoneNumber)}`)
+      if (response.ok) {
+        setConversation(await response.json())
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to load conversation',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching conversation:', error)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchConversations()
+  }, [fetchConversations])
+
+  useEffect(() => {
+    if (selectedPhone) fetchConversation(selectedPhone)
+  }, [selectedPhone, fetchConversation])
+
+  const handleSend = async () => {
+    if (!selectedPhone || !reply.trim()) return
+
+    setSending(true)
+    try {
+      const response = await fetch(`/api/sms/conversations/${encodeURIComponent(selectedPhone)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: reply })
+      })
+
+      if (response.ok) {
+        setReply('')
+        await Promise.all([fetchConversation(selectedPhone), fetchConversations()])
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to send SMS',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error sending SMS reply:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to send SMS',
+        variant: 'destructive',
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const refresh = () => {
+    fetchConversations()
+    if (selectedPhone) fetchConversation(selectedPhone)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => router.push('/admin')}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">SMS Inbox</h1>
+                  <p className="text-sm text-gray-600">Conversations with clients</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={refresh}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Conversation list */}
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Conversations</CardTitle>
+              <CardDescription>
+                {conversations.length} {conversations.length === 1 ? 'number' : 'numbers'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {conversations.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No messages yet</p>
+              ) : (
+                conversations.map((item) => (
+                  <button
+                    key={item.phoneNumber}
+                    type="button"
+                    onClick={() => setSelectedPhone(item.phoneNumber)}
+                    className={`w-full text-left p-3 border rounded-lg hover:bg-gray-50 ${
+                      selectedPhone === item.phoneNumber ? 'border-blue-500 bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">{item.clientName || item.phoneNumber}</p>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {formatBusinessDateTimeShort(item.lastMessage.at)}
+                      </span>
+                    </div>
+                    {item.clientName && (
+                      <p className="text-xs text-gray-500">{item.phoneNumber}</p>
+                    )}
+                    <p className="text-sm text-gray-600 truncate mt-1">
+                      {item.lastMessage.direction === 'inbound' ? '' : 'You: '}
+                      {item.lastMessage.body || messageTypeLabels[item.lastMessage.type] || item.lastMessage.type}
+                    </p>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Thread */}
+          <Card className="lg:col-span-2">
+            {!conversation || conversation.phoneNumber !== selectedPhone ? (
+              <CardContent className="py-16 text-center text-gray-500">
+                <MessageCircle className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                Select a conversation
+              </CardContent>
+            ) : (
+              <>
+                <CardHeader>
+                  <CardTitle>{conversation.clientName || conversation.phoneNumber}</CardTitle>
+                  <CardDescription>{conversation.phoneNumber}</CardDescription>
+                  {conversation.appointments.length > 0 && (
+                    <div className="flex flex-wrap gap-2 pt-2">
+                      {conversation.appointments.slice(0, 3).map((appointment) => (
+                        <Badge
+                          key={appointment.id}
+                          variant={appointment.status === 'confirmed' ? 'default' : 'outline'}
+                        >
+                          {formatBusinessDateTimeShort(appointment.startTime)}
+                          {appointment.barber ? ` with ${appointment.barber.name}` : ''} ({appointment.status})
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3 max-h-[60vh] overflow-y-auto mb-4">
+                    {conversation.messages.map((message) => (
+                      <div
+                        key={`${message.direction}-${message.id}`}
+                        className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
+                      >
+                        <div
+                          className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                            message.direction === 'outbound'
+                              ? message.status === 'sent' ? 'bg-blue-600 text-white' : 'bg-red-100 text-red-800'
+                              : 'bg-gray-100 text-gray-900'
+                          }`}
+                        >
+                          <p className="whitespace-pre-wrap">
+                            {message.body || <em>{messageTypeLabels[message.type] || message.type} (text not stored)</em>}
+                          </p>
+                          <p className={`text-xs mt-1 ${message.direction === 'outbound' && message.status === 'sent' ? 'text-blue-100' : 'text-gray-500'}`}>
+                            {formatBusinessDateTimeShort(message.at)}
+                            {message.direction === 'outbound' && ` · ${messageTypeLabels[message.type] || message.type}`}
+                            {message.status && message.status !== 'sent' && ` · ${message.status}`}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <textarea
+                      value={reply}
+                      onChange={(e) => setReply(e.target.value)}
+                      placeholder="Type a reply..."
+                      rows={2}
+                      maxLength={640}
+                      className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    />
+                    <Button onClick={handleSend} disabled={sending || !reply.trim()}>
+                      <Send className="w-4 h-4 mr-2" />
+                      {sending ? 'Sending...' : 'Send'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
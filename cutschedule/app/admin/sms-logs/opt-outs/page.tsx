@@ -0,0 +1,206 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, Phone, RefreshCw } from 'lucide-react'
+import { formatBusinessDateTimeShort } from '@/lib/utils/timezone'
+import { useToast } from '@/hooks/use-toast'
+
+interface SmsConsent {
+  id: string
+  phoneNumber: string
+  optedOutAt: string | null
+}
+
+interface ConsentEvent {
+  id: string
+  phoneNumber: string
+  message: string
+  type: 'opt-out' | 'opt-in'
+  receivedAt: string
+}
+
+export default function OptOutsPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [optedOut, setOptedOut] = useState<SmsConsent[]>([])
+  const [history, setHistory] = useState<ConsentEvent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchOptOuts()
+  }, [])
+
+  const fetchOptOuts = async () => {
+    try {
+      const response = await fetch('/api/sms/opt-outs')
+      if (response.ok) {
+        const data = await response.json()
+        setOptedOut(data.optedOut)
+        setHistory(data.history)
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch opt-outs',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching opt-outs:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch opt-outs',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => router.push('/admin/sms-logs')}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to SMS Logs
+                </Button>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">SMS Opt-outs</h1>
+                  <p className="text-sm text-gray-600">Clients who replied STOP don&apos;t receive reschedule nudges or availability alerts</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={fetchOptOuts}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Currently Opted Out</CardTitle>
+            <CardDescription>
+              {optedOut.length} {optedOut.length === 1 ? 'number' : 'numbers'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Phone Number</TableHead>
+                    <TableHead>Opted Out At</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {optedOut.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={2} className="text-center text-gray-500 py-8">
+                        No one has opted out
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    optedOut.map((consent) => (
+                      <TableRow key={consent.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Phone className="w-4 h-4 text-gray-400" />
+                            {consent.phoneNumber}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {consent.optedOutAt ? formatBusinessDateTimeShort(consent.optedOutAt) : 'N/A'}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+            <CardDescription>STOP and START replies received from clients</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received At</TableHead>
+                    <TableHead>Phone Number</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Message</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-gray-500 py-8">
+                        No opt-out activity yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    history.map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell>{formatBusinessDateTimeShort(event.receivedAt)}</TableCell>
+                        <TableCell>{event.phoneNumber}</TableCell>
+                        <TableCell>
+                          <Badge variant={event.type === 'opt-out' ? 'destructive' : 'default'}>
+                            {event.type === 'opt-out' ? 'Opted out' : 'Opted in'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <code className="text-xs bg-gray-100 px-2 py-1 rounded">{event.message}</code>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
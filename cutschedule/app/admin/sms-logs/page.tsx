@@ -23,9 +23,9 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, Search, Phone, MessageCircle, Calendar, CheckCircle, XCircle, RefreshCw } from 'lucide-react'
+import { ArrowLeft, Search, Phone, MessageCircle, Calendar, CheckCircle, XCircle, RefreshCw, BellOff } from 'lucide-react'
 import { format, parseISO } from 'date-fns'
-import { formatETDateTimeShort } from '@/lib/utils/timezone'
+import { formatBusinessDateTimeShort } from '@/lib/utils/timezone'
 import { useToast } from '@/hooks/use-toast'
 
 interface SMSLog {
@@ -116,6 +116,9 @@ export default function SMSLogsPage() {
       'reminder_1hour': { label: '1 Hour Reminder', variant: 'outline' },
       'reschedule_2weeks': { label: '2 Week Reschedule', variant: 'destructive' },
       'reschedule_3weeks': { label: '3 Week Reschedule', variant: 'destructive' },
+      'availability_alert': { label: 'Availability Alert', variant: 'secondary' },
+      'waitlist_offer': { label: 'Waitlist Offer', variant: 'outline' },
+      'group_confirmation': { label: 'Group Confirmation', variant: 'default' },
     }
     const config = typeMap[type] || { label: type, variant: 'default' }
     return <Badge variant={config.variant}>{config.label}</Badge>
@@ -126,6 +129,8 @@ export default function SMSLogsPage() {
       return <CheckCircle className="w-4 h-4 text-green-500" />
     } else if (status === 'failed') {
       return <XCircle className="w-4 h-4 text-red-500" />
+    } else if (status === 'suppressed') {
+      return <BellOff className="w-4 h-4 text-gray-400" />
     }
     return null
   }
@@ -159,14 +164,24 @@ export default function SMSLogsPage() {
                   <p className="text-sm text-gray-600">View all SMS messages sent to clients</p>
                 </div>
               </div>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={fetchSMSLogs}
-              >
-                <RefreshCw className="w-4 h-4 mr-2" />
-                Refresh
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push('/admin/sms-logs/opt-outs')}
+                >
+                  <BellOff className="w-4 h-4 mr-2" />
+                  Opt-outs
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={fetchSMSLogs}
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Refresh
+                </Button>
+              </div>
             </div>
           </div>
         </div>
@@ -212,6 +227,7 @@ export default function SMSLogsPage() {
                     <SelectItem value="all">All Statuses</SelectItem>
                     <SelectItem value="sent">Sent</SelectItem>
                     <SelectItem value="failed">Failed</SelectItem>
+                    <SelectItem value="suppressed">Suppressed (opted out)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -231,6 +247,9 @@ export default function SMSLogsPage() {
                     <SelectItem value="reminder_1hour">1 Hour Reminder</SelectItem>
                     <SelectItem value="reschedule_2weeks">2 Week Reschedule</SelectItem>
                     <SelectItem value="reschedule_3weeks">3 Week Reschedule</SelectItem>
+                    <SelectItem value="availability_alert">Availability Alert</SelectItem>
+                    <SelectItem value="waitlist_offer">Waitlist Offer</SelectItem>
+                    <SelectItem value="group_confirmation">Group Confirmation</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -291,7 +310,7 @@ export default function SMSLogsPage() {
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <Calendar className="w-4 h-4 text-gray-400" />
-                            {formatETDateTimeShort(log.sentAt)}
+                            {formatBusinessDateTimeShort(log.sentAt)}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -0,0 +1,396 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, ArrowLeft, Plus, Trash2 } from 'lucide-react'
+import { formatBusinessDateShort, formatBusinessDateTimeShort } from '@/lib/utils/timezone'
+import { useToast } from '@/hooks/use-toast'
+import { useBarbers } from '@/hooks/use-barbers'
+
+interface TimeOff {
+  id: string
+  startDate: string
+  endDate: string
+  startTime: string | null
+  endTime: string | null
+  recurring: boolean
+  reason: string | null
+  barber: { name: string } | null
+}
+
+interface TimeOffConflict {
+  id: string
+  clientName: string
+  phoneNumber: string
+  startTime: string
+  barber: { name: string } | null
+}
+
+const WHOLE_SHOP = 'shop'
+
+export default function TimeOffPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { barbers } = useBarbers()
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [conflicts, setConflicts] = useState<TimeOffConflict[]>([])
+  const [barberId, setBarberId] = useState(WHOLE_SHOP)
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [partialDay, setPartialDay] = useState(false)
+  const [startTime, setStartTime] = useState('12:00')
+  const [endTime, setEndTime] = useState('14:00')
+  const [recurring, setRecurring] = useState(false)
+  const [reason, setReason] = useState('')
+
+  const fetchTimeOff = useCallback(async () => {
+    try {
+      const response = await fetch('/api/time-off')
+      if (response.ok) {
+        setTimeOff(await response.json())
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch time off',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching time off:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch time off',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchTimeOff()
+  }, [fetchTimeOff])
+
+  const addTimeOff = async () => {
+    if (!startDate) {
+      toast({
+        title: 'Error',
+        description: 'Please pick the first day off',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/time-off', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          barberId: barberId === WHOLE_SHOP ? null : barberId,
+          startDate,
+          endDate: endDate || undefined,
+          startTime: partialDay ? startTime : undefined,
+          endTime: partialDay ? endTime : undefined,
+          recurring,
+          reason: reason || undefined,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (response.ok) {
+        setConflicts(data.conflicts)
+        toast({
+          title: 'Time off added',
+          description: data.conflicts.length > 0
+            ? `${data.conflicts.length} booked appointment${data.conflicts.length === 1 ? ' falls' : 's fall'} inside it`
+            : 'No booked appointments are affected',
+        })
+        setStartDate('')
+        setEndDate('')
+        setReason('')
+        await fetchTimeOff()
+      } else {
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to add time off',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error adding time off:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to add time off',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeTimeOff = async (period: TimeOff) => {
+    if (!confirm(`Remove this time off starting ${formatBusinessDateShort(period.startDate)}?`)) return
+
+    try {
+      const response = await fetch(`/api/time-off/${period.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        await fetchTimeOff()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to remove time off',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error removing time off:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to remove time off',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const dateRange = (period: TimeOff) => {
+    const start = formatBusinessDateShort(period.startDate)
+    const end = formatBusinessDateShort(period.endDate)
+    return start === end ? start : `${start} - ${end}`
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <div className="flex items-center space-x-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push('/admin')}
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Time Off</h1>
+                <p className="text-sm text-gray-600">Holidays, days off and closed hours, on top of the available slots</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Time Off</CardTitle>
+            <CardDescription>Clients can&apos;t book inside it; appointments already booked are listed below</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <Label>Who</Label>
+                <Select value={barberId} onValueChange={setBarberId}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WHOLE_SHOP}>Whole shop</SelectItem>
+                    {barbers.map((barber) => (
+                      <SelectItem key={barber.id} value={barber.id}>{barber.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="time-off-start">First Day</Label>
+                <Input
+                  id="time-off-start"
+                  type="date"
+                  className="mt-2"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="time-off-end">Last Day (optional)</Label>
+                <Input
+                  id="time-off-end"
+                  type="date"
+                  className="mt-2"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch id="time-off-partial" checked={partialDay} onCheckedChange={setPartialDay} />
+                <Label htmlFor="time-off-partial">Only part of the day</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="time-off-recurring" checked={recurring} onCheckedChange={setRecurring} />
+                <Label htmlFor="time-off-recurring">Repeats every year</Label>
+              </div>
+            </div>
+
+            {partialDay && (
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <Label htmlFor="time-off-from">From</Label>
+                  <Input
+                    id="time-off-from"
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label htmlFor="time-off-to">To</Label>
+                  <Input
+                    id="time-off-to"
+                    type="time"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="time-off-reason">Reason (optional)</Label>
+              <Input
+                id="time-off-reason"
+                placeholder="e.g., Thanksgiving, Vacation, Dentist"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={addTimeOff} disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? 'Adding…' : 'Add Time Off'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Appointments booked before the time off was added */}
+        {conflicts.length > 0 && (
+          <Card className="border-amber-300">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-amber-500" />
+                Booked Appointments Inside the New Time Off
+              </CardTitle>
+              <CardDescription>These were not changed. Reschedule or cancel them from Appointments.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y rounded-md border">
+                {conflicts.map((appointment) => (
+                  <div key={appointment.id} className="px-3 py-2 flex justify-between items-center text-sm">
+                    <div>
+                      <p className="font-medium">{appointment.clientName}</p>
+                      <p className="text-xs text-gray-500">{appointment.phoneNumber}</p>
+                    </div>
+                    <div className="text-right">
+                      <p>{formatBusinessDateTimeShort(appointment.startTime)}</p>
+                      {appointment.barber && <p className="text-xs text-gray-500">with {appointment.barber.name}</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming Time Off</CardTitle>
+            <CardDescription>
+              {timeOff.length} {timeOff.length === 1 ? 'period' : 'periods'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {timeOff.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                        No time off planned
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    timeOff.map((period) => (
+                      <TableRow key={period.id}>
+                        <TableCell>
+                          {dateRange(period)}
+                          {period.recurring && <Badge variant="secondary" className="ml-2">Every year</Badge>}
+                        </TableCell>
+                        <TableCell>{period.startTime && period.endTime ? `${period.startTime} - ${period.endTime}` : 'All day'}</TableCell>
+                        <TableCell>{period.barber?.name ?? 'Whole shop'}</TableCell>
+                        <TableCell>{period.reason ?? ''}</TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="outline" onClick={() => removeTimeOff(period)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, RefreshCw, Trash2 } from 'lucide-react'
+import { formatBusinessDateShort, formatBusinessDateTimeShort, formatBusinessTime } from '@/lib/utils/timezone'
+import { useToast } from '@/hooks/use-toast'
+
+interface WaitlistOffer {
+  id: string
+  startTime: string
+  status: 'pending' | 'accepted' | 'declined' | 'expired'
+  expiresAt: string
+  barber: { name: string } | null
+}
+
+interface WaitlistEntry {
+  id: string
+  clientName: string
+  phoneNumber: string
+  date: string
+  earliestTime: string | null
+  latestTime: string | null
+  status: 'waiting' | 'booked'
+  createdAt: string
+  service: { name: string } | null
+  barber: { name: string } | null
+  offers: WaitlistOffer[]
+}
+
+const offerBadgeVariant: Record<WaitlistOffer['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'default',
+  accepted: 'secondary',
+  declined: 'outline',
+  expired: 'outline',
+}
+
+export default function WaitlistPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<WaitlistEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchWaitlist = useCallback(async () => {
+    try {
+      const response = await fetch('/api/waitlist')
+      if (response.ok) {
+        setEntries(await response.json())
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to fetch waitlist',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching waitlist:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch waitlist',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchWaitlist()
+  }, [fetchWaitlist])
+
+  const removeEntry = async (entry: WaitlistEntry) => {
+    if (!confirm(`Remove ${entry.clientName} from the waitlist for ${formatBusinessDateShort(entry.date)}?`)) return
+
+    try {
+      const response = await fetch(`/api/waitlist/${entry.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        await fetchWaitlist()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to remove waitlist entry',
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Error removing waitlist entry:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to remove waitlist entry',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const timeRange = (entry: WaitlistEntry) => {
+    if (!entry.earliestTime && !entry.latestTime) return 'Any time'
+    return `${entry.earliestTime ?? 'Open'} - ${entry.latestTime ?? 'Close'}`
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => router.push('/admin')}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Waitlist</h1>
+                  <p className="text-sm text-gray-600">Clients waiting for an opening, first in line first</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={fetchWaitlist}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming Days</CardTitle>
+            <CardDescription>
+              {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Preferred Time</TableHead>
+                    <TableHead>Service / Barber</TableHead>
+                    <TableHead>Offers</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                        No one is on the waitlist
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{formatBusinessDateShort(entry.date)}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{entry.clientName}</p>
+                          <p className="text-xs text-gray-500">{entry.phoneNumber}</p>
+                          <p className="text-xs text-gray-500">Joined {formatBusinessDateTimeShort(entry.createdAt)}</p>
+                        </TableCell>
+                        <TableCell>{timeRange(entry)}</TableCell>
+                        <TableCell>
+                          <p>{entry.service?.name ?? 'Default service'}</p>
+                          <p className="text-xs text-gray-500">{entry.barber?.name ?? 'Any barber'}</p>
+                        </TableCell>
+                        <TableCell>
+                          {entry.status === 'booked' && <Badge className="mb-1">Booked</Badge>}
+                          <div className="space-y-1">
+                            {entry.offers.map((offer) => (
+                              <div key={offer.id} className="flex items-center gap-2 text-xs">
+                                <Badge variant={offerBadgeVariant[offer.status]}>{offer.status}</Badge>
+                                {formatBusinessTime(offer.startTime)}
+                                {offer.barber ? ` with ${offer.barber.name}` : ''}
+                                {offer.status === 'pending' && ` (held until ${formatBusinessTime(offer.expiresAt)})`}
+                              </div>
+                            ))}
+                            {entry.offers.length === 0 && entry.status === 'waiting' && (
+                              <span className="text-xs text-gray-500">None yet</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {entry.status === 'waiting' && (
+                            <Button size="sm" variant="outline" onClick={() => removeEntry(entry)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
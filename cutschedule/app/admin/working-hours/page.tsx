@@ -8,15 +8,32 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
-import { ArrowLeft, Save, Clock } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, Save, Clock, CalendarPlus, Plus, X } from 'lucide-react'
+import { formatBusinessDateShort } from '@/lib/utils/timezone'
 import { useToast } from '@/hooks/use-toast'
+import { useBarbers } from '@/hooks/use-barbers'
 
-interface WorkingHours {
-  id: string | null
-  dayOfWeek: number
+interface TimeRange {
   startTime: string
   endTime: string
+}
+
+interface WorkingBreak extends TimeRange {
+  name: string
+}
+
+interface WorkingDay {
+  dayOfWeek: number
   isActive: boolean
+  intervals: TimeRange[]
+  breaks: WorkingBreak[]
 }
 
 const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
@@ -25,19 +42,32 @@ export default function WorkingHoursPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const { toast } = useToast()
-  const [workingHours, setWorkingHours] = useState<WorkingHours[]>([])
+  const [workingHours, setWorkingHours] = useState<WorkingDay[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
+  const { barbers, loading: barbersLoading, refresh: refreshBarbers } = useBarbers()
+  const [barberId, setBarberId] = useState<string>('')
+  const [generating, setGenerating] = useState(false)
+  const selectedBarber = barbers.find(barber => barber.id === barberId)
+
+  // Hours are edited per barber; default to the first one once the roster loads
+  useEffect(() => {
+    if (!barberId && barbers.length > 0) {
+      setBarberId(barbers[0].id)
+    }
+  }, [barbers, barberId])
 
   useEffect(() => {
     // Don't wait for session, just fetch working hours immediately
     // Middleware has already verified we're admin
-    fetchWorkingHours()
-  }, [])
+    if (barbersLoading || (!barberId && barbers.length > 0)) return
+    fetchWorkingHours(barberId)
+  }, [barberId, barbers.length, barbersLoading])
 
-  const fetchWorkingHours = async () => {
+  const fetchWorkingHours = async (forBarberId: string) => {
     try {
-      const response = await fetch('/api/working-hours')
+      const query = forBarberId ? `?${new URLSearchParams({ barberId: forBarberId }).toString()}` : ''
+      const response = await fetch(`/api/working-hours${query}`)
       if (response.ok) {
         const data = await response.json()
         setWorkingHours(data)
@@ -60,24 +90,52 @@ export default function WorkingHoursPage() {
     }
   }
 
-  const handleTimeChange = (dayIndex: number, field: 'startTime' | 'endTime', value: string) => {
+  const updateDay = (dayIndex: number, update: (day: WorkingDay) => WorkingDay) => {
     setWorkingHours(prev =>
       prev.map(day =>
         day.dayOfWeek === dayIndex
-          ? { ...day, [field]: value }
+          ? update(day)
           : day
       )
     )
   }
 
+  const handleIntervalChange = (dayIndex: number, intervalIndex: number, field: 'startTime' | 'endTime', value: string) => {
+    updateDay(dayIndex, day => ({
+      ...day,
+      intervals: day.intervals.map((interval, i) => (i === intervalIndex ? { ...interval, [field]: value } : interval)),
+    }))
+  }
+
+  // A second shift starts where the last one ended
+  const addInterval = (dayIndex: number) => {
+    updateDay(dayIndex, day => {
+      const last = day.intervals[day.intervals.length - 1]
+      return { ...day, intervals: [...day.intervals, { startTime: last?.endTime ?? '09:00', endTime: '21:00' }] }
+    })
+  }
+
+  const removeInterval = (dayIndex: number, intervalIndex: number) => {
+    updateDay(dayIndex, day => ({ ...day, intervals: day.intervals.filter((_, i) => i !== intervalIndex) }))
+  }
+
+  const handleBreakChange = (dayIndex: number, breakIndex: number, field: keyof WorkingBreak, value: string) => {
+    updateDay(dayIndex, day => ({
+      ...day,
+      breaks: day.breaks.map((brk, i) => (i === breakIndex ? { ...brk, [field]: value } : brk)),
+    }))
+  }
+
+  const addBreak = (dayIndex: number) => {
+    updateDay(dayIndex, day => ({ ...day, breaks: [...day.breaks, { name: 'Lunch', startTime: '12:00', endTime: '13:00' }] }))
+  }
+
+  const removeBreak = (dayIndex: number, breakIndex: number) => {
+    updateDay(dayIndex, day => ({ ...day, breaks: day.breaks.filter((_, i) => i !== breakIndex) }))
+  }
+
   const handleActiveChange = (dayIndex: number, isActive: boolean) => {
-    setWorkingHours(prev =>
-      prev.map(day =>
-        day.dayOfWeek === dayIndex
-          ? { ...day, isActive }
-          : day
-      )
-    )
+    updateDay(dayIndex, day => ({ ...day, isActive }))
   }
 
   const handleSave = async () => {
@@ -86,7 +144,7 @@ export default function WorkingHoursPage() {
       const response = await fetch('/api/working-hours', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ days: workingHours })
+        body: JSON.stringify({ barberId: barberId || null, days: workingHours })
       })
 
       if (response.ok) {
@@ -95,9 +153,10 @@ export default function WorkingHoursPage() {
           description: 'Working hours updated successfully'
         })
       } else {
+        const data = await response.json().catch(() => ({}))
         toast({
           title: 'Error',
-          description: 'Failed to update working hours',
+          description: data.details?.[0]?.message || data.error || 'Failed to update working hours',
           variant: 'destructive'
         })
       }
@@ -113,6 +172,70 @@ export default function WorkingHoursPage() {
     }
   }
 
+  const handleGenerateSlotsChange = async (generateSlots: boolean) => {
+    if (!selectedBarber) return
+    try {
+      const response = await fetch(`/api/barbers/${selectedBarber.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ generateSlots })
+      })
+      if (response.ok) {
+        await refreshBarbers()
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to update barber',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      console.error('Error updating barber:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update barber',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleGenerateNow = async () => {
+    if (!selectedBarber) return
+    setGenerating(true)
+    try {
+      const response = await fetch('/api/available-slots/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barberId: selectedBarber.id })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.ok) {
+        toast({
+          title: 'Slots generated',
+          description: data.created > 0
+            ? `${data.created} available slot${data.created === 1 ? '' : 's'} created`
+            : 'Every day ahead is already filled'
+        })
+        await refreshBarbers()
+      } else {
+        toast({
+          title: 'Error',
+          description: data.error || 'Failed to generate available slots',
+          variant: 'destructive'
+        })
+      }
+    } catch (error) {
+      console.error('Error generating available slots:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to generate available slots',
+        variant: 'destructive'
+      })
+    } finally {
+      setGenerating(false)
+    }
+  }
+
   const applyToWeekdays = () => {
     const monday = workingHours.find(d => d.dayOfWeek === 1)
     if (!monday) return
@@ -122,8 +245,8 @@ export default function WorkingHoursPage() {
         if (day.dayOfWeek >= 1 && day.dayOfWeek <= 5) {
           return {
             ...day,
-            startTime: monday.startTime,
-            endTime: monday.endTime,
+            intervals: monday.intervals.map(interval => ({ ...interval })),
+            breaks: monday.breaks.map(brk => ({ ...brk })),
             isActive: monday.isActive
           }
         }
@@ -162,9 +285,23 @@ export default function WorkingHoursPage() {
               <p className="text-gray-600">Configure business hours for each day</p>
             </div>
           </div>
-          <Button onClick={applyToWeekdays} variant="outline" size="sm">
-            Apply Monday to Weekdays
-          </Button>
+          <div className="flex items-center gap-2">
+            {barbers.length > 0 && (
+              <Select value={barberId} onValueChange={setBarberId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select barber" />
+                </SelectTrigger>
+                <SelectContent>
+                  {barbers.map((barber) => (
+                    <SelectItem key={barber.id} value={barber.id}>{barber.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button onClick={applyToWeekdays} variant="outline" size="sm">
+              Apply Monday to Weekdays
+            </Button>
+          </div>
         </div>
 
         <Card>
@@ -174,51 +311,112 @@ export default function WorkingHoursPage() {
               Business Hours
             </CardTitle>
             <CardDescription>
-              Set the working hours for each day of the week
+              Set the working hours for each day of the week. Add a second shift for split days, and breaks such as lunch.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             {workingHours.map((day) => (
-              <div key={day.dayOfWeek} className="flex items-center gap-4 p-4 border rounded-lg">
-                <div className="w-32">
-                  <Label className="font-medium">{daysOfWeek[day.dayOfWeek]}</Label>
-                </div>
+              <div key={day.dayOfWeek} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center gap-4">
+                  <div className="w-32">
+                    <Label className="font-medium">{daysOfWeek[day.dayOfWeek]}</Label>
+                  </div>
 
-                <div className="flex items-center gap-2">
-                  <Switch
-                    checked={day.isActive}
-                    onCheckedChange={(checked) => handleActiveChange(day.dayOfWeek, checked)}
-                  />
-                  <Label className="text-sm text-gray-600">
-                    {day.isActive ? 'Open' : 'Closed'}
-                  </Label>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={day.isActive}
+                      onCheckedChange={(checked) => handleActiveChange(day.dayOfWeek, checked)}
+                    />
+                    <Label className="text-sm text-gray-600">
+                      {day.isActive ? 'Open' : 'Closed'}
+                    </Label>
+                  </div>
                 </div>
 
-                <div className="flex items-center gap-2 flex-1">
-                  <div className="flex items-center gap-2">
-                    <Label htmlFor={`start-${day.dayOfWeek}`} className="text-sm">From</Label>
+                {day.intervals.map((interval, intervalIndex) => (
+                  <div key={`shift-${intervalIndex}`} className="flex items-center gap-2 md:pl-36">
+                    <Label htmlFor={`start-${day.dayOfWeek}-${intervalIndex}`} className="text-sm">From</Label>
+                    <Input
+                      id={`start-${day.dayOfWeek}-${intervalIndex}`}
+                      type="time"
+                      value={interval.startTime}
+                      onChange={(e) => handleIntervalChange(day.dayOfWeek, intervalIndex, 'startTime', e.target.value)}
+                      disabled={!day.isActive}
+                      className="w-32"
+                    />
+                    <Label htmlFor={`end-${day.dayOfWeek}-${intervalIndex}`} className="text-sm">To</Label>
                     <Input
-                      id={`start-${day.dayOfWeek}`}
+                      id={`end-${day.dayOfWeek}-${intervalIndex}`}
                       type="time"
-                      value={day.startTime}
-                      onChange={(e) => handleTimeChange(day.dayOfWeek, 'startTime', e.target.value)}
+                      value={interval.endTime}
+                      onChange={(e) => handleIntervalChange(day.dayOfWeek, intervalIndex, 'endTime', e.target.value)}
                       disabled={!day.isActive}
                       className="w-32"
                     />
+                    {day.intervals.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Remove shift"
+                        onClick={() => removeInterval(day.dayOfWeek, intervalIndex)}
+                        disabled={!day.isActive}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
+                ))}
 
-                  <div className="flex items-center gap-2">
-                    <Label htmlFor={`end-${day.dayOfWeek}`} className="text-sm">To</Label>
+                {day.breaks.map((brk, breakIndex) => (
+                  <div key={`break-${breakIndex}`} className="flex items-center gap-2 md:pl-36">
+                    <Input
+                      aria-label="Break name"
+                      value={brk.name}
+                      onChange={(e) => handleBreakChange(day.dayOfWeek, breakIndex, 'name', e.target.value)}
+                      disabled={!day.isActive}
+                      className="w-32"
+                    />
                     <Input
-                      id={`end-${day.dayOfWeek}`}
+                      aria-label="Break start"
                       type="time"
-                      value={day.endTime}
-                      onChange={(e) => handleTimeChange(day.dayOfWeek, 'endTime', e.target.value)}
+                      value={brk.startTime}
+                      onChange={(e) => handleBreakChange(day.dayOfWeek, breakIndex, 'startTime', e.target.value)}
                       disabled={!day.isActive}
                       className="w-32"
                     />
+                    <span className="text-sm text-gray-600">to</span>
+                    <Input
+                      aria-label="Break end"
+                      type="time"
+                      value={brk.endTime}
+                      onChange={(e) => handleBreakChange(day.dayOfWeek, breakIndex, 'endTime', e.target.value)}
+                      disabled={!day.isActive}
+                      className="w-32"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove break"
+                      onClick={() => removeBreak(day.dayOfWeek, breakIndex)}
+                      disabled={!day.isActive}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
                   </div>
-                </div>
+                ))}
+
+                {day.isActive && (
+                  <div className="flex gap-2 md:pl-36">
+                    <Button variant="outline" size="sm" onClick={() => addInterval(day.dayOfWeek)}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Shift
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => addBreak(day.dayOfWeek)}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Break
+                    </Button>
+                  </div>
+                )}
               </div>
             ))}
 
@@ -233,6 +431,45 @@ export default function WorkingHoursPage() {
             </div>
           </CardContent>
         </Card>
+
+        {selectedBarber && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarPlus className="w-5 h-5" />
+                Available Slots From These Hours
+              </CardTitle>
+              <CardDescription>
+                Each day is filled once, a few weeks ahead, by the daily job. Days that already have slots, and any
+                changes you make to filled days on the Available Slots page, are left as they are.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="generate-slots"
+                  checked={selectedBarber.generateSlots}
+                  onCheckedChange={handleGenerateSlotsChange}
+                />
+                <Label htmlFor="generate-slots">
+                  Fill {selectedBarber.name}&apos;s available slots from working hours
+                </Label>
+              </div>
+              <div className="flex items-center gap-4">
+                {selectedBarber.slotsGeneratedThrough && (
+                  <p className="text-sm text-gray-600">Filled through {formatBusinessDateShort(selectedBarber.slotsGeneratedThrough)}</p>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={handleGenerateNow}
+                  disabled={!selectedBarber.generateSlots || generating}
+                >
+                  {generating ? 'Generating...' : 'Generate Now'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   )
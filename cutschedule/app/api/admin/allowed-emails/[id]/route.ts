@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const allowedEmail = await prisma.allowedEmail.findUnique({ where: { id } })
+
+    if (!allowedEmail) {
+      return NextResponse.json(
+        { error: 'Allowlist entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (allowedEmail.email === auth.session.user.email?.toLowerCase()) {
+      return NextResponse.json(
+        { error: "You can't remove your own admin access" },
+        { status: 400 }
+      )
+    }
+
+    await prisma.allowedEmail.delete({ where: { id } })
+
+    // Revoke access immediately: drop the role and sign the account out everywhere
+    const userFilter = { email: { equals: allowedEmail.email, mode: 'insensitive' as const } }
+    await prisma.user.updateMany({ where: userFilter, data: { role: null } })
+    await prisma.session.deleteMany({ where: { user: userFilter } })
+
+    console.log(`[Auth Audit] ${auth.session.user.email} removed ${allowedEmail.email} from the allowlist`)
+
+    return NextResponse.json({ message: 'Access removed' })
+  } catch (error) {
+    console.error('Error removing allowlist entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove allowlist entry' },
+      { status: 500 }
+    )
+  }
+}
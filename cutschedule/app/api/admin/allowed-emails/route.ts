@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { allowedEmailSchema } from '@/lib/utils/validation'
+
+export async function GET() {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
+
+    const allowedEmails = await prisma.allowedEmail.findMany({
+      orderBy: { email: 'asc' },
+    })
+
+    return NextResponse.json(allowedEmails)
+  } catch (error) {
+    console.error('Error fetching allowlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch allowlist' },
+      { status: 500 }
+    )
+  }
+}
+
+// Adds an email, or changes the role of one already on the list
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
+
+    const body = await request.json()
+    const { email, role } = allowedEmailSchema.parse(body)
+
+    if (email === auth.session.user.email?.toLowerCase() && role !== ADMIN_ROLES.ADMIN) {
+      return NextResponse.json(
+        { error: "You can't remove your own admin access" },
+        { status: 400 }
+      )
+    }
+
+    const allowedEmail = await prisma.allowedEmail.upsert({
+      where: { email },
+      update: { role },
+      create: { email, role, addedBy: auth.session.user.email },
+    })
+
+    // Apply the new role to an existing account right away rather than on next sign in
+    await prisma.user.updateMany({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      data: { role },
+    })
+
+    console.log(`[Auth Audit] ${auth.session.user.email} granted ${role} to ${email}`)
+
+    return NextResponse.json(allowedEmail, { status: 201 })
+  } catch (error) {
+    console.error('Error updating allowlist:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update allowlist' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { getActiveBarbers } from '@/lib/barbers'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { createCalendarFeedToken } from '@/lib/manage-token'
+
+// Subscription links for the whole shop and for each barber (admin only: anyone with a link can read it)
+export async function GET() {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
+
+    const [barbers, settings] = await Promise.all([getActiveBarbers(), getBusinessSettings()])
+    const feedUrl = (barberId: string | null) =>
+      `${settings.bookingUrl}/api/calendar/feed?token=${encodeURIComponent(createCalendarFeedToken(barberId))}`
+
+    return NextResponse.json([
+      { barberId: null, name: 'All barbers', url: feedUrl(null) },
+      ...barbers.map(barber => ({ barberId: barber.id, name: barber.name, url: feedUrl(barber.id) })),
+    ])
+  } catch (error) {
+    console.error('Error creating calendar feed links:', error)
+    return NextResponse.json(
+      { error: 'Failed to create calendar feed links' },
+      { status: 500 }
+    )
+  }
+}
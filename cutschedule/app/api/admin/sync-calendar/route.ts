@@ -1,42 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
 import { prisma } from '@/lib/db'
 import { createCalendarEvent, updateCalendarEvent, deleteCalendarEvent } from '@/lib/calendar'
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication - rely on OAuth development mode allowed test users
-    const session = await getServerSession(authOptions)
-
-    // Check if session exists
-    if (!session) {
-      console.warn('[Auth Audit] Calendar sync attempted without session')
-      return NextResponse.json(
-        { error: 'Unauthorized - No session' },
-        { status: 401 }
-      )
-    }
-
-    // Check if user exists in session
-    if (!session.user) {
-      console.warn('[Auth Audit] Calendar sync attempted with session but no user')
-      return NextResponse.json(
-        { error: 'Unauthorized - No user in session' },
-        { status: 401 }
-      )
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) {
+      console.warn('[Auth Audit] Calendar sync rejected')
+      return auth.response
     }
 
-    // Check if user has email (required for OAuth users)
-    if (!session.user.email) {
-      console.warn('[Auth Audit] Calendar sync attempted by user without email')
-      return NextResponse.json(
-        { error: 'Unauthorized - No email in session' },
-        { status: 401 }
-      )
-    }
-
-    console.log(`[Auth Audit] Calendar sync authorized for user: ${session.user.email}`)
+    console.log(`[Auth Audit] Calendar sync authorized for user: ${auth.session.user.email}`)
 
     // Validate calendar owner configuration early and exit if missing
     const ownerEmail = process.env.GOOGLE_CALENDAR_OWNER_EMAIL || process.env.ADMIN_EMAIL
@@ -75,12 +51,12 @@ export async function POST(request: NextRequest) {
         status: 'cancelled',
         googleEventId: { not: null },
       },
-      select: { id: true, googleEventId: true },
+      select: { id: true, googleEventId: true, barber: { select: { googleCalendarId: true } } },
     })
     console.log('[Calendar Sync] Cancelled with events count:', cancelledWithEvents.length)
     for (const apt of cancelledWithEvents) {
       try {
-        const del = await deleteCalendarEvent(apt.googleEventId!, ownerEmail)
+        const del = await deleteCalendarEvent(apt.googleEventId!, ownerEmail, apt.barber?.googleCalendarId)
         if (del.success) {
           await prisma.appointment.update({ where: { id: apt.id }, data: { googleEventId: null } })
           results.deleted++
@@ -110,15 +86,24 @@ export async function POST(request: NextRequest) {
         startTime: { gte: startWindow },
         endTime: { gte: now },
       },
+      include: {
+        service: { select: { name: true } },
+        barber: { select: { googleCalendarId: true } },
+      },
       orderBy: { startTime: 'asc' },
     })
     console.log('[Calendar Sync] Confirmed future count:', confirmedFuture.length)
     for (const appointment of confirmedFuture) {
+      // Events live on the barber's own calendar when one is configured
+      const calendarDetails = {
+        serviceName: appointment.service?.name,
+        calendarId: appointment.barber?.googleCalendarId,
+      }
       try {
         if (!appointment.googleEventId) {
           // Create new event
           console.log('[Calendar Sync] Creating event for appointment:', appointment.id)
-          const created = await createCalendarEvent(appointment, ownerEmail)
+          const created = await createCalendarEvent({ ...appointment, ...calendarDetails }, ownerEmail)
           if (created.success && created.eventId) {
             await prisma.appointment.update({ where: { id: appointment.id }, data: { googleEventId: created.eventId } })
             results.created++
@@ -138,6 +123,7 @@ export async function POST(request: NextRequest) {
               phoneNumber: appointment.phoneNumber,
               startTime: new Date(appointment.startTime),
               endTime: new Date(appointment.endTime),
+              ...calendarDetails,
             },
             ownerEmail
           )
@@ -147,7 +133,7 @@ export async function POST(request: NextRequest) {
             results.details.push({ appointmentId: appointment.id, action: 'update', success: true, eventId: appointment.googleEventId })
           } else {
             // Fallback: delete and create if update failed
-            const del = await deleteCalendarEvent(appointment.googleEventId, ownerEmail)
+            const del = await deleteCalendarEvent(appointment.googleEventId, ownerEmail, calendarDetails.calendarId)
             if (!del.success) {
               const msg = (del.error || '').toLowerCase()
               if (msg.includes('not found') || msg.includes('404')) {
@@ -158,6 +144,7 @@ export async function POST(request: NextRequest) {
                   phoneNumber: appointment.phoneNumber,
                   startTime: new Date(appointment.startTime),
                   endTime: new Date(appointment.endTime),
+                  ...calendarDetails,
                 }, ownerEmail)
                 if (created.success && created.eventId) {
                   await prisma.appointment.update({ where: { id: appointment.id }, data: { googleEventId: created.eventId } })
@@ -178,6 +165,7 @@ export async function POST(request: NextRequest) {
                 phoneNumber: appointment.phoneNumber,
                 startTime: new Date(appointment.startTime),
                 endTime: new Date(appointment.endTime),
+                ...calendarDetails,
               }, ownerEmail)
               if (created.success && created.eventId) {
                 await prisma.appointment.update({ where: { id: appointment.id }, data: { googleEventId: created.eventId } })
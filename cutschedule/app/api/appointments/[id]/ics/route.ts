@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES, APPOINTMENT_STATUS } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { verifyManageToken, createManageToken } from '@/lib/manage-token'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { buildCalendar, clientAppointmentEvent } from '@/lib/ics'
+
+// The appointment as an .ics file the client can add to their own calendar
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const token = request.nextUrl.searchParams.get('token')
+    if (!verifyManageToken(token, id)) {
+      const auth = await requireRole(ADMIN_ROLES.VIEWER)
+      if (!auth.ok) return auth.response
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id },
+      include: {
+        service: { select: { name: true } },
+        barber: { select: { name: true } },
+      },
+    })
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'Appointment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (appointment.status === APPOINTMENT_STATUS.PENDING_PAYMENT) {
+      return NextResponse.json(
+        { error: 'This appointment is not confirmed yet' },
+        { status: 400 }
+      )
+    }
+
+    const settings = await getBusinessSettings()
+    const manageUrl = `${settings.bookingUrl}/manage-appointment?token=${encodeURIComponent(createManageToken(appointment))}`
+    const calendar = buildCalendar(settings.businessName, [clientAppointmentEvent(appointment, settings, manageUrl)])
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="appointment.ics"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error building appointment calendar file:', error)
+    return NextResponse.json(
+      { error: 'Failed to build calendar file' },
+      { status: 500 }
+    )
+  }
+}
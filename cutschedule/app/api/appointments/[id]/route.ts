@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { hasRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES, APPOINTMENT_STATUS, type AdminRole } from '@/lib/constants'
 import { prisma } from '@/lib/db'
 import { appointmentUpdateSchema } from '@/lib/utils/validation'
 import { combineDateTime, parseDateInLocalTimezone } from '@/lib/utils/dates'
 import { addMinutes, format } from 'date-fns'
 import { toZonedTime, fromZonedTime } from 'date-fns-tz'
 import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
-import { APP_CONFIG } from '@/lib/constants'
-import { sendCancellationSMS, sendConfirmationSMS } from '@/lib/sms'
+import { serviceForAppointment } from '@/lib/services'
+import { loadBarberDays, pickBarberDay } from '@/lib/availability'
+import { withBookingLock } from '@/lib/booking-lock'
+import { sendConfirmationSMS } from '@/lib/sms'
 import { deleteCalendarEvent, createCalendarEvent } from '@/lib/calendar'
-import { getBusinessDayRange } from '@/lib/utils/dates'
+import { cancelAppointment, isPastSelfServiceDeadline, lateChangeMessage, selfServiceDeadline } from '@/lib/appointments'
+import { refreshClientStats } from '@/lib/clients'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { verifyManageToken, createManageToken } from '@/lib/manage-token'
+import { icsStatus } from '@/lib/ics'
 
 export async function GET(
   request: NextRequest,
@@ -16,8 +26,19 @@ export async function GET(
 ) {
   try {
     const { id } = await params
+    if (!(await canManageAppointment(request, id, ADMIN_ROLES.VIEWER))) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 401 }
+      )
+    }
     const appointment = await prisma.appointment.findUnique({
       where: { id },
+      include: {
+        service: { select: { id: true, name: true, durationMinutes: true, priceCents: true } },
+        barber: { select: { id: true, name: true } },
+        series: { select: { id: true, intervalWeeks: true, status: true } },
+      },
     })
 
     if (!appointment) {
@@ -27,7 +48,17 @@ export async function GET(
       )
     }
 
-    return NextResponse.json(appointment)
+    // The rest of a group booking, so the contact sees everyone they booked
+    const group = appointment.groupId
+      ? await prisma.appointment.findMany({
+          where: { groupId: appointment.groupId, id: { not: id } },
+          select: { id: true, clientName: true, startTime: true, endTime: true, status: true },
+          orderBy: { startTime: 'asc' },
+        })
+      : []
+
+    // Lets the manage pages switch to "call the shop" once online changes close
+    return NextResponse.json({ ...appointment, group, changeDeadline: selfServiceDeadline(appointment.startTime) })
   } catch (error) {
     console.error('Error fetching appointment:', error)
     return NextResponse.json(
@@ -43,11 +74,18 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params
+    if (!(await canManageAppointment(request, id, ADMIN_ROLES.STAFF))) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 401 }
+      )
+    }
     const body = await request.json()
     const validatedData = appointmentUpdateSchema.parse(body)
 
     const appointment = await prisma.appointment.findUnique({
       where: { id },
+      include: { service: true, barber: true },
     })
 
     if (!appointment) {
@@ -57,102 +95,150 @@ export async function PATCH(
       )
     }
 
+    // Clients change their own booking only until the cutoff; after that staff do it for them
+    const changesSchedule = validatedData.status === 'cancelled' || (validatedData.date && validatedData.time)
+    if (changesSchedule && !isStaffRequest(request, id) && isPastSelfServiceDeadline(appointment.startTime)) {
+      return NextResponse.json(
+        { error: lateChangeMessage((await getBusinessSettings()).phone) },
+        { status: 403 }
+      )
+    }
+
+    // Cancelling via status gets the same SMS, deposit and calendar handling as DELETE
+    if (validatedData.status === 'cancelled' && !(validatedData.date && validatedData.time)) {
+      const result = await cancelAppointment(id, { byShop: cancelledByShop(request, id) })
+      return NextResponse.json({ ...result?.appointment, deposit: result?.deposit ?? null })
+    }
+
+    // No-shows count against the client's booking policy, so only staff can record one
+    if (validatedData.status === APPOINTMENT_STATUS.NO_SHOW) {
+      if (!(await hasSignedInRole(ADMIN_ROLES.STAFF))) {
+        return NextResponse.json(
+          { error: 'Forbidden' },
+          { status: 403 }
+        )
+      }
+      if (appointment.startTime > new Date()) {
+        return NextResponse.json(
+          { error: 'Cannot mark a future appointment as a no-show' },
+          { status: 400 }
+        )
+      }
+    }
+
     // If only updating status
-    if (validatedData.status && !validatedData.date && !validatedData.time) {
+    if (validatedData.status && !(validatedData.date && validatedData.time)) {
+      // Clients can cancel from their link, but confirming (e.g. skipping a deposit) is for staff
+      if (!isStaffRequest(request, id)) {
+        return NextResponse.json(
+          { error: 'Forbidden' },
+          { status: 403 }
+        )
+      }
+
+      // Only a live deposit hold still has its slot; anything else may have been given to someone
+      // else, so it is rebooked through the availability checks instead of revived here
+      const stillHeld = appointment.status === APPOINTMENT_STATUS.PENDING_PAYMENT
+        && !!appointment.paymentExpiresAt && appointment.paymentExpiresAt > new Date()
+      if (validatedData.status === APPOINTMENT_STATUS.CONFIRMED && appointment.status !== APPOINTMENT_STATUS.CONFIRMED && !stillHeld) {
+        return NextResponse.json(
+          { error: 'This appointment can no longer be confirmed. Book a new time instead.' },
+          { status: 400 }
+        )
+      }
+
       const updatedAppointment = await prisma.appointment.update({
         where: { id },
-        data: { status: validatedData.status },
+        data: {
+          status: validatedData.status,
+          // A no-show is published as cancelled, and subscribed calendars only take it with a new sequence
+          ...(icsStatus(validatedData.status) !== icsStatus(appointment.status) ? { calendarSequence: { increment: 1 } } : {}),
+        },
       })
+      await refreshClientStats([updatedAppointment.clientId])
 
       return NextResponse.json(updatedAppointment)
     }
 
     // If rescheduling (updating date/time)
     if (validatedData.date && validatedData.time) {
+      // Rescheduling would otherwise confirm a booking whose deposit was never paid
+      if (appointment.status === 'pending_payment' && !isStaffRequest(request, id)) {
+        return NextResponse.json(
+          { error: 'Please finish paying the deposit before rescheduling' },
+          { status: 400 }
+        )
+      }
+
       const newDate = parseDateInLocalTimezone(validatedData.date)
       const newStartTime = combineDateTime(validatedData.date, validatedData.time)
-      const newEndTime = addMinutes(newStartTime, APP_CONFIG.APPOINTMENT_DURATION)
+      // Rescheduling keeps the booked service, so its duration and buffer still apply
+      const service = serviceForAppointment(appointment)
+      const newEndTime = addMinutes(newStartTime, service.durationMinutes)
 
       // Check if new time is in the future (aligned to business timezone "now")
       const now = new Date()
       const nowZoned = toZonedTime(now, BUSINESS_TIME_ZONE)
       const nowKey = format(nowZoned, "yyyy-MM-dd'T'HH:mm:ss.SSS")
-      const nowETInstant = fromZonedTime(nowKey, BUSINESS_TIME_ZONE)
-      if (newStartTime <= nowETInstant) {
+      const nowBusinessInstant = fromZonedTime(nowKey, BUSINESS_TIME_ZONE)
+      if (newStartTime <= nowBusinessInstant) {
         return NextResponse.json(
           { error: 'Cannot reschedule to a past time' },
           { status: 400 }
         )
       }
 
-      // Check working hours for new date
-      // Determine weekday in business timezone to avoid UTC day shifts
-      const dayOfWeek = toZonedTime(newDate, BUSINESS_TIME_ZONE).getDay()
-      const workingHours = await prisma.workingHours.findUnique({
-        where: { dayOfWeek },
-      })
+      // Check the new time against the same barber's windows (time off already cut out) and
+      // bookings, and move the appointment under the day's booking lock
+      const newTime = validatedData.time
+      const moved = await withBookingLock(validatedData.date, async (tx) => {
+        const barberDays = await loadBarberDays(newDate, {
+          barberId: appointment.barberId,
+          excludeAppointmentId: id,
+          db: tx,
+        })
+        if (barberDays.length === 0) {
+          return { error: 'Selected day is not available for appointments' }
+        }
 
-      if (!workingHours || !workingHours.isActive) {
-        return NextResponse.json(
-          { error: 'Selected day is not available for appointments' },
-          { status: 400 }
-        )
-      }
+        const pick = pickBarberDay(barberDays, newTime, newStartTime, newEndTime, service.bufferMinutes)
+        if ('error' in pick) {
+          return {
+            error: pick.error === 'outside_window'
+              ? 'Selected time is not within available hours'
+              : 'Selected time slot is not available'
+          }
+        }
 
-      // Check for conflicts (excluding current appointment, only check confirmed)
-      const { start: dayStart, endExclusive: dayEnd } = getBusinessDayRange(newDate)
-      const conflictingAppointments = await prisma.appointment.findMany({
-        where: {
-          id: { not: id }, // Exclude current appointment
-          date: {
-            gte: dayStart,
-            lt: dayEnd,
+        // Update appointment
+        const updated = await tx.appointment.update({
+          where: { id },
+          data: {
+            date: newDate,
+            startTime: newStartTime,
+            endTime: newEndTime,
+            status: validatedData.status || appointment.status,
+            calendarSequence: { increment: 1 },
           },
-          status: 'confirmed',
-          OR: [
-            {
-              startTime: {
-                lt: addMinutes(newEndTime, APP_CONFIG.BUFFER_TIME),
-                gte: newStartTime,
-              },
-            },
-            {
-              endTime: {
-                gt: newStartTime,
-                lte: addMinutes(newEndTime, APP_CONFIG.BUFFER_TIME),
-              },
-            },
-            {
-              startTime: { lte: newStartTime },
-              endTime: { gte: addMinutes(newEndTime, APP_CONFIG.BUFFER_TIME) },
-            },
-          ],
-        },
+          include: { barber: { select: { name: true } } },
+        })
+        return { updated }
       })
 
-      if (conflictingAppointments.length > 0) {
+      if ('error' in moved) {
         return NextResponse.json(
-          { error: 'Selected time slot is not available' },
+          { error: moved.error },
           { status: 400 }
         )
       }
-
-      // Update appointment
-      const updatedAppointment = await prisma.appointment.update({
-        where: { id },
-        data: {
-          date: newDate,
-          startTime: newStartTime,
-          endTime: newEndTime,
-          status: validatedData.status || appointment.status,
-        },
-      })
+      const updatedAppointment = moved.updated
 
       // Replace Google Calendar event: delete old event (if any) then create a new one
       try {
         const ownerEmail = process.env.GOOGLE_CALENDAR_OWNER_EMAIL || process.env.ADMIN_EMAIL
+        const calendarId = appointment.barber?.googleCalendarId
         if (appointment.googleEventId) {
-          const delResult = await deleteCalendarEvent(appointment.googleEventId, ownerEmail)
+          const delResult = await deleteCalendarEvent(appointment.googleEventId, ownerEmail, calendarId)
           if (delResult.success) {
             console.log('Deleted old calendar event:', appointment.googleEventId)
           } else {
@@ -166,6 +252,8 @@ export async function PATCH(
           phoneNumber: updatedAppointment.phoneNumber,
           startTime: newStartTime,
           endTime: newEndTime,
+          serviceName: service.name,
+          calendarId,
         }, ownerEmail)
 
         if (createResult.success && createResult.eventId) {
@@ -204,7 +292,8 @@ export async function PATCH(
         // Don't fail the reschedule if SMS fails
       }
 
-      return NextResponse.json(updatedAppointment)
+      // The old link expires with the old time, so hand back a fresh one
+      return NextResponse.json({ ...updatedAppointment, manageToken: createManageToken(updatedAppointment) })
     }
 
     // If only updating other fields
@@ -215,6 +304,7 @@ export async function PATCH(
       where: { id },
       data: updateData,
     })
+    await refreshClientStats([updatedAppointment.clientId])
 
     return NextResponse.json(updatedAppointment)
 
@@ -241,65 +331,48 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
-    const appointment = await prisma.appointment.findUnique({
-      where: { id },
-    })
-
-    if (!appointment) {
+    if (!(await canManageAppointment(request, id, ADMIN_ROLES.STAFF))) {
       return NextResponse.json(
-        { error: 'Appointment not found' },
-        { status: 404 }
+        { error: 'This link is invalid or has expired' },
+        { status: 401 }
       )
     }
 
-    // Idempotent cancel: only transition confirmed -> cancelled once
-    const updateResult = await prisma.appointment.updateMany({
-      where: { id, status: 'confirmed' },
-      data: { status: 'cancelled' },
-    })
-    const cancelledAppointment = await prisma.appointment.findUnique({ where: { id } })
-
-    // Send cancellation SMS
-    try {
-      if (updateResult.count > 0) {
-        const smsResult = await sendCancellationSMS(appointment)
-        if (smsResult.success) {
-          console.log('Cancellation SMS sent successfully:', smsResult.messageId)
-        } else {
-          console.error('Failed to send cancellation SMS:', smsResult.error)
-        }
-      } else {
-        console.log('Cancellation SMS suppressed: appointment was already cancelled')
+    if (!isStaffRequest(request, id)) {
+      const appointment = await prisma.appointment.findUnique({ where: { id }, select: { startTime: true } })
+      if (appointment && isPastSelfServiceDeadline(appointment.startTime)) {
+        return NextResponse.json(
+          { error: lateChangeMessage((await getBusinessSettings()).phone) },
+          { status: 403 }
+        )
       }
-    } catch (error) {
-      console.error('Error sending cancellation SMS:', error)
-      // Don't fail the cancellation if SMS fails
     }
 
-    // Delete Google Calendar event
-    if (appointment.googleEventId) {
-      try {
-        const ownerEmail = process.env.GOOGLE_CALENDAR_OWNER_EMAIL || process.env.ADMIN_EMAIL
-        const calendarResult = await deleteCalendarEvent(appointment.googleEventId, ownerEmail)
-        if (calendarResult.success) {
-          console.log('Calendar event deleted successfully:', appointment.googleEventId)
-          // Clear the googleEventId on the appointment record
-          await prisma.appointment.update({
-            where: { id },
-            data: { googleEventId: null },
-          })
-        } else {
-          console.error('Failed to delete calendar event:', calendarResult.error)
-        }
-      } catch (error) {
-        console.error('Error deleting calendar event:', error)
-        // Don't fail the cancellation if calendar deletion fails
+    const byShop = cancelledByShop(request, id)
+    const result = await cancelAppointment(id, { byShop })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Appointment not found' },
+        { status: 404 }
+      )
+    }
+
+    // ?group=all cancels everyone else in a group booking too; the contact already gets one text
+    if (request.nextUrl.searchParams.get('group') === 'all' && result.appointment?.groupId) {
+      const others = await prisma.appointment.findMany({
+        where: { groupId: result.appointment.groupId, id: { not: id } },
+        select: { id: true },
+      })
+      for (const other of others) {
+        await cancelAppointment(other.id, { byShop, notifyClient: false })
       }
     }
 
     return NextResponse.json({
       message: 'Appointment cancelled successfully',
-      appointment: cancelledAppointment
+      appointment: result.appointment,
+      deposit: result.deposit,
     })
 
   } catch (error) {
@@ -310,3 +383,30 @@ export async function DELETE(
     )
   }
 }
+
+// Admin users with a sufficient role may manage any appointment; clients need the token from their link
+async function canManageAppointment(
+  request: NextRequest,
+  appointmentId: string,
+  requiredRole: AdminRole
+): Promise<boolean> {
+  const token = request.nextUrl.searchParams.get('token')
+  if (verifyManageToken(token, appointmentId)) return true
+
+  return hasSignedInRole(requiredRole)
+}
+
+// Past canManageAppointment, a request without the client's token came from a staff session
+function isStaffRequest(request: NextRequest, appointmentId: string): boolean {
+  return !verifyManageToken(request.nextUrl.searchParams.get('token'), appointmentId)
+}
+
+// Staff cancel for the shop by default; ?requestedBy=client records that the client asked (e.g. by phone)
+function cancelledByShop(request: NextRequest, appointmentId: string): boolean {
+  return isStaffRequest(request, appointmentId) && request.nextUrl.searchParams.get('requestedBy') !== 'client'
+}
+
+async function hasSignedInRole(requiredRole: AdminRole): Promise<boolean> {
+  const session = await getServerSession(authOptions)
+  return !!session?.user?.email && hasRole(session.user.role, requiredRole)
+}
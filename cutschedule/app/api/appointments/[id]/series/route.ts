@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES, APPOINTMENT_STATUS } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { recurringSeriesSchema } from '@/lib/utils/validation'
+import { businessDateKey } from '@/lib/utils/timezone'
+import { verifyManageToken } from '@/lib/manage-token'
+import { createSeriesFromAppointment, endSeries } from '@/lib/recurring'
+
+// Make an upcoming appointment the first of a standing series (staff only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+    const rule = recurringSeriesSchema.parse(body)
+
+    const appointment = await prisma.appointment.findUnique({ where: { id } })
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'Appointment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (appointment.status !== APPOINTMENT_STATUS.CONFIRMED || appointment.startTime <= new Date()) {
+      return NextResponse.json(
+        { error: 'Only upcoming confirmed appointments can be repeated' },
+        { status: 400 }
+      )
+    }
+
+    if (appointment.seriesId) {
+      return NextResponse.json(
+        { error: 'This appointment is already part of a recurring series' },
+        { status: 400 }
+      )
+    }
+
+    if (rule.untilDate && rule.untilDate <= businessDateKey(appointment.date)) {
+      return NextResponse.json(
+        { error: 'The end date must be after this appointment' },
+        { status: 400 }
+      )
+    }
+
+    const result = await createSeriesFromAppointment(appointment, rule)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error creating recurring series:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: (error as any).errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create recurring series' },
+      { status: 500 }
+    )
+  }
+}
+
+// End the series after this appointment, from the client's manage link or by staff
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const byClient = verifyManageToken(request.nextUrl.searchParams.get('token'), id)
+    if (!byClient) {
+      const auth = await requireRole(ADMIN_ROLES.STAFF)
+      if (!auth.ok) return auth.response
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id },
+      select: { startTime: true, seriesId: true },
+    })
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'Appointment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!appointment.seriesId) {
+      return NextResponse.json(
+        { error: 'This appointment is not part of a recurring series' },
+        { status: 400 }
+      )
+    }
+
+    const cancelled = await endSeries(appointment.seriesId, appointment, { byShop: !byClient })
+
+    return NextResponse.json({ success: true, cancelled })
+  } catch (error) {
+    console.error('Error ending recurring series:', error)
+    return NextResponse.json(
+      { error: 'Failed to end recurring series' },
+      { status: 500 }
+    )
+  }
+}
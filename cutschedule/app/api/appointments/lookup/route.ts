@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { addMinutes } from 'date-fns'
+import { appointmentLookupSchema } from '@/lib/utils/validation'
+import { generateLookupCode, hashLookupCode } from '@/lib/manage-token'
+import { sendVerificationCodeSMS } from '@/lib/sms'
+import { clientIp, takeRateLimit } from '@/lib/rate-limit'
+
+const CODE_TTL_MINUTES = 10
+const MAX_CODES_PER_WINDOW = 3
+const MAX_LOOKUPS_PER_IP = 10
+const RATE_WINDOW_MINUTES = 15
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { phoneNumber } = appointmentLookupSchema.parse(body)
+
+    // Every request counts, booked number or not, so the limit can't reveal which numbers have bookings
+    const allowed = await takeRateLimit([
+      { key: `lookup:phone:${phoneNumber}`, limit: MAX_CODES_PER_WINDOW },
+      { key: `lookup:ip:${clientIp(request)}`, limit: MAX_LOOKUPS_PER_IP },
+    ], RATE_WINDOW_MINUTES)
+
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Too many code requests. Please wait a few minutes and try again.' },
+        { status: 429 }
+      )
+    }
+
+    // Same response whether or not a booking exists, so numbers can't be probed
+    const genericResponse = {
+      success: true,
+      message: 'If an upcoming appointment matches this number, a code has been sent by SMS.',
+    }
+
+    const now = new Date()
+    const upcoming = await prisma.appointment.findFirst({
+      where: {
+        phoneNumber,
+        status: 'confirmed',
+        startTime: { gt: now },
+      },
+      select: { id: true },
+    })
+
+    if (!upcoming) {
+      return NextResponse.json(genericResponse)
+    }
+
+    const code = generateLookupCode()
+    await prisma.phoneVerification.create({
+      data: {
+        phoneNumber,
+        codeHash: hashLookupCode(phoneNumber, code),
+        expiresAt: addMinutes(now, CODE_TTL_MINUTES),
+      },
+    })
+
+    const smsResult = await sendVerificationCodeSMS(phoneNumber, code)
+    if (!smsResult.success) {
+      console.error('Failed to send lookup code:', smsResult.error)
+      return NextResponse.json(
+        { error: 'Failed to send verification code' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(genericResponse)
+  } catch (error) {
+    console.error('Error starting appointment lookup:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Please enter a valid phone number' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start appointment lookup' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/db'
+import { lookupCodeSchema } from '@/lib/utils/validation'
+import { createManageToken, hashLookupCode } from '@/lib/manage-token'
+
+const MAX_ATTEMPTS = 5
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { phoneNumber, code } = lookupCodeSchema.parse(body)
+
+    const now = new Date()
+    const verification = await prisma.phoneVerification.findFirst({
+      where: {
+        phoneNumber,
+        consumedAt: null,
+        expiresAt: { gt: now },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!verification || verification.attempts >= MAX_ATTEMPTS) {
+      return NextResponse.json(
+        { error: 'This code is invalid or has expired. Request a new one.' },
+        { status: 400 }
+      )
+    }
+
+    const expected = Buffer.from(verification.codeHash)
+    const actual = Buffer.from(hashLookupCode(phoneNumber, code))
+    const matches = expected.length === actual.length && timingSafeEqual(expected, actual)
+
+    if (!matches) {
+      await prisma.phoneVerification.update({
+        where: { id: verification.id },
+        data: { attempts: { increment: 1 } },
+      })
+      return NextResponse.json(
+        { error: 'Incorrect code' },
+        { status: 400 }
+      )
+    }
+
+    // Codes are single use
+    await prisma.phoneVerification.update({
+      where: { id: verification.id },
+      data: { consumedAt: now },
+    })
+
+    const appointment = await prisma.appointment.findFirst({
+      where: {
+        phoneNumber,
+        status: 'confirmed',
+        startTime: { gt: now },
+      },
+      include: {
+        service: { select: { id: true, name: true, durationMinutes: true, priceCents: true } },
+        barber: { select: { id: true, name: true } },
+      },
+      orderBy: { startTime: 'asc' },
+    })
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'No upcoming appointment found for this phone number' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      appointment,
+      manageToken: createManageToken(appointment),
+    })
+  } catch (error) {
+    console.error('Error verifying lookup code:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to verify code' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,21 +1,35 @@
+import { randomUUID } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
 import { prisma } from '@/lib/db'
 import { appointmentBookingSchema, normalizePhoneNumber } from '@/lib/utils/validation'
 import { combineDateTime, parseDateInLocalTimezone } from '@/lib/utils/dates'
-import { addMinutes, format } from 'date-fns'
+import { format } from 'date-fns'
 import { toZonedTime, fromZonedTime } from 'date-fns-tz'
 import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
-import { APP_CONFIG } from '@/lib/constants'
-import { sendConfirmationSMS } from '@/lib/sms'
-import { createCalendarEvent } from '@/lib/calendar'
+import { resolveService } from '@/lib/services'
+import { resolveBarber } from '@/lib/barbers'
+import { backToBackTimes, loadBarberDays, pickBarberDay } from '@/lib/availability'
+import { announceGroupBooking, announceNewAppointment } from '@/lib/appointments'
+import { upsertClient, checkNoShowPolicy } from '@/lib/clients'
+import { DEPOSIT_HOLD_COOKIE, depositCentsFor, paymentHoldExpiry, releaseOwnUnpaidHold, releaseUnpaidHolds, startDepositCheckout } from '@/lib/payments'
+import { createManageToken } from '@/lib/manage-token'
 import { getBusinessDayRange } from '@/lib/utils/dates'
+import { withBookingLock } from '@/lib/booking-lock'
+import { SLOT_HOLD_COOKIE, findSlotHold } from '@/lib/slot-holds'
 
 export async function GET(request: NextRequest) {
   try {
+    // Listing and phone search are admin-only; clients reach their booking via a manage link
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
     const searchParams = request.nextUrl.searchParams
     const status = searchParams.get('status')
     const date = searchParams.get('date')
     const phoneNumber = searchParams.get('phone')
+    const barberId = searchParams.get('barberId')
 
     const where: any = {}
 
@@ -32,12 +46,21 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    if (barberId) {
+      where.barberId = barberId
+    }
+
     if (phoneNumber) {
       where.phoneNumber = normalizePhoneNumber(phoneNumber)
     }
 
     const appointments = await prisma.appointment.findMany({
       where,
+      include: {
+        service: { select: { id: true, name: true, durationMinutes: true, priceCents: true } },
+        barber: { select: { id: true, name: true } },
+        series: { select: { id: true, intervalWeeks: true, status: true } },
+      },
       orderBy: {
         startTime: 'asc',
       },
@@ -62,41 +85,45 @@ export async function POST(request: NextRequest) {
     const validatedData = appointmentBookingSchema.parse(body)
     console.log('Validated data:', validatedData)
 
-    // Check if phone number already has an active appointment
     // Compute "now" as an instant aligned via business timezone to be explicit
     const now = new Date()
     const nowZoned = toZonedTime(now, BUSINESS_TIME_ZONE)
     const nowKey = format(nowZoned, "yyyy-MM-dd'T'HH:mm:ss.SSS")
-    const nowETInstant = fromZonedTime(nowKey, BUSINESS_TIME_ZONE)
-
-    const existingAppointment = await prisma.appointment.findFirst({
-      where: {
-        phoneNumber: validatedData.phoneNumber,
-        status: 'confirmed',
-        startTime: {
-          gte: nowETInstant,
-        },
-      },
-    })
+    const nowBusinessInstant = fromZonedTime(nowKey, BUSINESS_TIME_ZONE)
+
+    // Staff booking on a client's behalf while signed in skip the no-show policy and the deposit
+    const bookedByStaff = (await requireRole(ADMIN_ROLES.STAFF)).ok
 
-    if (existingAppointment) {
+    // Repeat no-shows have to call in
+    const noShowPolicy = await checkNoShowPolicy(validatedData.phoneNumber)
+    if (!noShowPolicy.allowed && !bookedByStaff) {
       return NextResponse.json(
-        {
-          error: 'You already have an upcoming appointment',
-          existingAppointment: {
-            id: existingAppointment.id,
-            date: existingAppointment.date,
-            startTime: existingAppointment.startTime,
-          }
-        },
+        { error: noShowPolicy.error },
+        { status: 403 }
+      )
+    }
+
+    // Duration and buffer come from the service being booked
+    const service = await resolveService(validatedData.serviceId)
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Selected service is not available' },
         { status: 400 }
       )
     }
 
+    // A client coming back from an abandoned checkout gets their held slot back first. Only the
+    // browser that started the checkout can do this; other holds wait out paymentExpiresAt.
+    await releaseOwnUnpaidHold(request.cookies.get(DEPOSIT_HOLD_COOKIE)?.value)
+
     // Parse date and time in local timezone to avoid UTC conversion issues
     const appointmentDate = parseDateInLocalTimezone(validatedData.date)
     const startTime = combineDateTime(validatedData.date, validatedData.time)
-    const endTime = addMinutes(startTime, APP_CONFIG.APPOINTMENT_DURATION)
+
+    // A group books everyone back-to-back with one barber under the contact's phone number
+    const names = [validatedData.clientName, ...(validatedData.guestNames ?? [])]
+    const slots = backToBackTimes(startTime, service.durationMinutes, service.bufferMinutes, names.length)
+    const endTime = slots[slots.length - 1].endTime
 
     console.log('Appointment timing:', {
       date: appointmentDate,
@@ -104,138 +131,152 @@ export async function POST(request: NextRequest) {
       endTime
     })
 
-    // Verify the date has available slots configured
-    const { start: dayStart, endExclusive: dayEnd } = getBusinessDayRange(appointmentDate)
-    const availableSlots = await prisma.availableSlot.findMany({
-      where: {
-        date: {
-          gte: dayStart,
-          lt: dayEnd,
-        }
-      }
-    })
-
-    if (availableSlots.length === 0) {
+    // Booking for a specific barber, or "any barber" when none is given
+    const requestedBarber = await resolveBarber(validatedData.barberId)
+    if (requestedBarber === null) {
       return NextResponse.json(
-        { error: 'Selected day is not available for appointments' },
+        { error: 'Selected barber is not available' },
         { status: 400 }
       )
     }
 
-    // Verify the selected time falls within an available slot window
-    // and that the appointment duration fits within the window
-    const requestedTime = validatedData.time // Format: "HH:mm"
-    const [requestedHour, requestedMinute] = requestedTime.split(':').map(Number)
-
-    const isWithinAvailableWindow = availableSlots.some(slot => {
-      const [slotStartHour, slotStartMinute] = slot.startTime.split(':').map(Number)
-      const [slotEndHour, slotEndMinute] = slot.endTime.split(':').map(Number)
-
-      // Convert times to minutes since midnight for easier comparison
-      const requestedMinutes = requestedHour * 60 + requestedMinute
-      const slotStartMinutes = slotStartHour * 60 + slotStartMinute
-      const slotEndMinutes = slotEndHour * 60 + slotEndMinute
-      const appointmentEndMinutes = requestedMinutes + APP_CONFIG.APPOINTMENT_DURATION
+    // The time this browser held while the client entered their details is booked with the
+    // barber it was held for, and the hold itself no longer counts against it
+    const holdSessionId = request.cookies.get(SLOT_HOLD_COOKIE)?.value
+    const hold = holdSessionId ? await findSlotHold(holdSessionId) : null
+    const heldBarberId = hold?.startTime.getTime() === startTime.getTime() ? hold.barberId : undefined
+
+    const client = await upsertClient(validatedData.phoneNumber, validatedData.clientName)
+
+    // With a deposit due, the slot is only held until the payment webhook confirms it.
+    // A group pays everyone's deposit in one checkout.
+    const depositCents = bookedByStaff ? 0 : depositCentsFor(service.priceCents) * names.length
+    const paymentExpiresAt = depositCents > 0 ? paymentHoldExpiry() : null
+    const groupId = names.length > 1 ? randomUUID() : null
+
+    // Check and book under the day's and the client's locks, so parallel requests for the same
+    // time, or from the same number for different days, can't both succeed
+    const booking = await withBookingLock(validatedData.date, async (tx) => {
+      // Check if phone number already has an active appointment, or a slot still held for its deposit
+      const existingAppointment = await tx.appointment.findFirst({
+        where: {
+          phoneNumber: validatedData.phoneNumber,
+          OR: [
+            { status: 'confirmed' },
+            { status: 'pending_payment', paymentExpiresAt: { gt: new Date() } },
+          ],
+          startTime: {
+            gte: nowBusinessInstant,
+          },
+        },
+      })
+      if (existingAppointment) {
+        return {
+          error: 'You already have an upcoming appointment',
+          existingAppointment: {
+            id: existingAppointment.id,
+            date: existingAppointment.date,
+            startTime: existingAppointment.startTime,
+          },
+        }
+      }
 
-      // Check if appointment starts within window AND ends before window closes
-      return requestedMinutes >= slotStartMinutes && appointmentEndMinutes <= slotEndMinutes
-    })
+      // Verify the date has available slots configured
+      const barberDays = await loadBarberDays(appointmentDate, {
+        barberId: requestedBarber?.id ?? heldBarberId,
+        excludeHoldSessionId: holdSessionId,
+        db: tx,
+      })
+      if (barberDays.length === 0) {
+        return { error: 'Selected day is not available for appointments' }
+      }
 
-    if (!isWithinAvailableWindow) {
-      return NextResponse.json(
-        { error: 'Selected time is not within available hours' },
-        { status: 400 }
-      )
-    }
+      // Verify the selected time falls within an available window with room for the whole
+      // appointment, and that the barber has no conflicting confirmed appointment
+      const pick = pickBarberDay(barberDays, validatedData.time, startTime, endTime, service.bufferMinutes)
+      if ('error' in pick) {
+        return {
+          error: pick.error === 'outside_window'
+            ? 'Selected time is not within available hours'
+            : 'Selected time slot is no longer available'
+        }
+      }
 
-    // Check for conflicting appointments (only confirmed ones block slots)
-    const conflictingAppointments = await prisma.appointment.findMany({
-      where: {
-        date: {
-          gte: dayStart,
-          lt: dayEnd,
-        },
-        status: 'confirmed',
-        OR: [
-          {
-            startTime: {
-              lt: addMinutes(endTime, APP_CONFIG.BUFFER_TIME),
-              gte: startTime,
-            },
-          },
-          {
-            endTime: {
-              gt: startTime,
-              lte: addMinutes(endTime, APP_CONFIG.BUFFER_TIME),
-            },
+      // Create the appointments together so a group is never left half booked
+      const created = []
+      for (const [index, slot] of slots.entries()) {
+        created.push(await tx.appointment.create({
+          data: {
+            clientName: names[index],
+            phoneNumber: validatedData.phoneNumber,
+            date: appointmentDate,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            status: depositCents > 0 ? 'pending_payment' : 'confirmed',
+            paymentExpiresAt,
+            serviceId: service.id,
+            barberId: pick.day.barberId,
+            clientId: client.id,
+            groupId,
           },
-          {
-            startTime: {
-              lte: startTime,
-            },
-            endTime: {
-              gte: addMinutes(endTime, APP_CONFIG.BUFFER_TIME),
-            },
-          },
-        ],
-      },
-    })
+          include: { barber: { select: { name: true } } },
+        }))
+      }
+      if (holdSessionId) {
+        await tx.slotHold.deleteMany({ where: { sessionId: holdSessionId } })
+      }
+      return { created }
+    }, { phoneNumber: validatedData.phoneNumber })
 
-    if (conflictingAppointments.length > 0) {
+    if ('error' in booking) {
       return NextResponse.json(
-        { error: 'Selected time slot is no longer available' },
+        { error: booking.error, existingAppointment: booking.existingAppointment },
         { status: 400 }
       )
     }
 
-    // Create appointment
-    const appointment = await prisma.appointment.create({
-      data: {
-        clientName: validatedData.clientName,
-        phoneNumber: validatedData.phoneNumber,
-        date: appointmentDate,
-        startTime,
-        endTime,
-        status: 'confirmed',
-      },
-    })
-
-    console.log('Appointment created:', appointment)
-
-    // Send confirmation SMS
-    try {
-      const smsResult = await sendConfirmationSMS(appointment)
-      if (smsResult.success) {
-        console.log('Confirmation SMS sent successfully:', smsResult.messageId)
-      } else {
-        console.error('Failed to send confirmation SMS:', smsResult.error)
+    const created = booking.created
+    const appointment = created[0]
+    const group = groupId ? created : undefined
+
+    const barber = appointment.barberId
+      ? await prisma.barber.findUnique({ where: { id: appointment.barberId } })
+      : null
+
+    console.log('Appointment created:', created)
+
+    // The client is sent to a confirmation page that needs the manage token to load the booking
+    const manageToken = createManageToken(appointment)
+
+    if (depositCents > 0) {
+      try {
+        const checkoutUrl = await startDepositCheckout(appointment, service.name, depositCents, manageToken)
+        const response = NextResponse.json({ ...appointment, manageToken, checkoutUrl, depositCents, group }, { status: 201 })
+        response.cookies.set(DEPOSIT_HOLD_COOKIE, manageToken, {
+          httpOnly: true,
+          sameSite: 'lax',
+          secure: process.env.NODE_ENV === 'production',
+          path: '/',
+          expires: appointment.paymentExpiresAt ?? undefined,
+        })
+        return response
+      } catch (error) {
+        console.error('Error starting deposit checkout:', error)
+        await releaseUnpaidHolds({ appointmentId: appointment.id })
+        return NextResponse.json(
+          { error: 'We could not start the payment. Please try again.' },
+          { status: 502 }
+        )
       }
-    } catch (error) {
-      console.error('Error sending confirmation SMS:', error)
-      // Don't fail the appointment creation if SMS fails
     }
 
-    // Create Google Calendar event
-    try {
-      const ownerEmail = process.env.GOOGLE_CALENDAR_OWNER_EMAIL || process.env.ADMIN_EMAIL
-      const calendarResult = await createCalendarEvent(appointment, ownerEmail)
-      if (calendarResult.success && calendarResult.eventId) {
-        console.log('Calendar event created successfully:', calendarResult.eventId)
-
-        // Update appointment with Google Calendar event ID
-        await prisma.appointment.update({
-          where: { id: appointment.id },
-          data: { googleEventId: calendarResult.eventId },
-        })
-      } else {
-        console.error('Failed to create calendar event:', calendarResult.error)
-      }
-    } catch (error) {
-      console.error('Error creating calendar event:', error)
-      // Don't fail the appointment creation if calendar event fails
+    if (group) {
+      await announceGroupBooking(group, service.name, barber?.googleCalendarId)
+    } else {
+      await announceNewAppointment(appointment, service.name, barber?.googleCalendarId)
     }
 
-    return NextResponse.json(appointment, { status: 201 })
+    return NextResponse.json({ ...appointment, manageToken, group }, { status: 201 })
 
   } catch (error) {
     console.error('Error creating appointment:', error)
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
 import { prisma } from '@/lib/db'
 import { sendAvailabilityAlertSMS } from '@/lib/sms'
+import { getOptedOutNumbers } from '@/lib/sms-consent'
 import { subMonths, format } from 'date-fns'
 import { toZonedTime, fromZonedTime } from 'date-fns-tz'
 import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
@@ -41,56 +42,32 @@ async function getEligibleClients(): Promise<EligibleClient[]> {
   })
   const notifiedTodaySet = new Set(notifiedToday.map((log) => log.phoneNumber))
 
-  // Get all appointments from the past 6 months (including cancelled)
-  // A recurring client is anyone who has booked 2+ times, regardless of status
-  // Order by date ascending so the last occurrence has the most recent name
+  // A recurring client is anyone who has booked 2+ times in the past 6 months, regardless of status
   // Filter out empty phone numbers to avoid SMS failures
-  const appointments = await prisma.appointment.findMany({
+  const clients = await prisma.client.findMany({
     where: {
-      date: {
-        gte: sixMonthsAgo,
-      },
-      phoneNumber: {
-        not: '',
-      },
+      phoneNumber: { not: '' },
+      appointments: { some: { date: { gte: sixMonthsAgo } } },
     },
     select: {
       phoneNumber: true,
-      clientName: true,
-    },
-    orderBy: {
-      date: 'asc',
+      name: true,
+      _count: { select: { appointments: { where: { date: { gte: sixMonthsAgo } } } } },
     },
   })
 
-  // Group by phone number and count appointments
-  const clientMap = new Map<string, { clientName: string; count: number }>()
-
-  for (const appt of appointments) {
-    // Skip empty phone numbers (additional safety check)
-    if (!appt.phoneNumber || appt.phoneNumber.trim() === '') continue
-
-    const existing = clientMap.get(appt.phoneNumber)
-    if (existing) {
-      existing.count++
-      existing.clientName = appt.clientName // Update to the most recent name
-    } else {
-      clientMap.set(appt.phoneNumber, {
-        clientName: appt.clientName,
-        count: 1,
-      })
-    }
-  }
+  const optedOut = await getOptedOutNumbers(clients.map((client) => client.phoneNumber))
 
-  // Filter to clients with 2+ appointments who haven't been notified today
+  // Filter to clients with 2+ appointments who haven't been notified today or opted out
   const eligibleClients: EligibleClient[] = []
 
-  for (const [phoneNumber, data] of clientMap.entries()) {
-    if (data.count >= 2 && !notifiedTodaySet.has(phoneNumber)) {
+  for (const client of clients) {
+    const appointmentCount = client._count.appointments
+    if (appointmentCount >= 2 && !notifiedTodaySet.has(client.phoneNumber) && !optedOut.has(client.phoneNumber)) {
       eligibleClients.push({
-        phoneNumber,
-        clientName: data.clientName,
-        appointmentCount: data.count,
+        phoneNumber: client.phoneNumber,
+        clientName: client.name,
+        appointmentCount,
       })
     }
   }
@@ -101,11 +78,8 @@ async function getEligibleClients(): Promise<EligibleClient[]> {
 // GET - Preview eligible clients count
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
 
     const eligibleClients = await getEligibleClients()
     const includeDetails = request.nextUrl.searchParams.get('includeDetails') === 'true'
@@ -141,11 +115,8 @@ export async function GET(request: NextRequest) {
 // POST - Send availability alerts to eligible clients
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
 
     const dryRun = process.env.AVAILABILITY_ALERT_DRY_RUN === 'true'
     const eligibleClients = await getEligibleClients()
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { formatInTimeZone } from 'date-fns-tz'
+import { nextAvailabilityQuerySchema } from '@/lib/utils/validation'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+import { APP_CONFIG } from '@/lib/constants'
+import { resolveService } from '@/lib/services'
+import { resolveBarber } from '@/lib/barbers'
+import { findNextOpenSlots, groupBlockMinutes } from '@/lib/availability'
+import { excludedAppointmentId } from '@/lib/manage-token'
+import { SLOT_HOLD_COOKIE } from '@/lib/slot-holds'
+
+// The soonest open times from now, for clients who just want the next opening
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const weekdays = searchParams.get('weekdays')
+    const validatedQuery = nextAvailabilityQuerySchema.parse({
+      serviceId: searchParams.get('serviceId') || undefined,
+      barberId: searchParams.get('barberId') || undefined,
+      people: searchParams.get('people') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      // Comma-separated, e.g. weekdays=1,2,3,4,5
+      weekdays: weekdays ? weekdays.split(',') : undefined,
+      earliestTime: searchParams.get('earliestTime') || undefined,
+      latestTime: searchParams.get('latestTime') || undefined,
+    })
+
+    const service = await resolveService(validatedQuery.serviceId)
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Selected service is not available' },
+        { status: 400 }
+      )
+    }
+
+    const barber = await resolveBarber(validatedQuery.barberId)
+    if (barber === null) {
+      return NextResponse.json(
+        { error: 'Selected barber is not available' },
+        { status: 400 }
+      )
+    }
+
+    const openings = await findNextOpenSlots({
+      barberId: barber?.id,
+      durationMinutes: groupBlockMinutes(service.durationMinutes, service.bufferMinutes, validatedQuery.people ?? 1),
+      bufferMinutes: service.bufferMinutes,
+      limit: validatedQuery.limit ?? APP_CONFIG.NEXT_AVAILABLE_SUGGESTIONS,
+      excludeAppointmentId: excludedAppointmentId(searchParams),
+      excludeHoldSessionId: request.cookies.get(SLOT_HOLD_COOKIE)?.value,
+      weekdays: validatedQuery.weekdays,
+      earliestTime: validatedQuery.earliestTime,
+      latestTime: validatedQuery.latestTime,
+    })
+
+    return NextResponse.json({
+      serviceId: service.id,
+      barberId: barber?.id ?? null,
+      slots: openings.map(startTime => ({
+        date: businessDateKey(startTime),
+        time: formatInTimeZone(startTime, BUSINESS_TIME_ZONE, 'HH:mm'),
+        startTime: startTime.toISOString(),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching next available times:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch next available times' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addDays, format, getDaysInMonth, parseISO } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
+import { availabilityRangeQuerySchema } from '@/lib/utils/validation'
+import { parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
+import { resolveService } from '@/lib/services'
+import { resolveBarber } from '@/lib/barbers'
+import { loadBarberDaysInRange, generateSlotsForDays, groupBlockMinutes, type BarberDay } from '@/lib/availability'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { excludedAppointmentId } from '@/lib/manage-token'
+import { SLOT_HOLD_COOKIE } from '@/lib/slot-holds'
+
+// Per-day open times for a month, so the booking calendar can mark full days without a request per day
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const validatedQuery = availabilityRangeQuerySchema.parse({
+      month: searchParams.get('month') || undefined,
+      serviceId: searchParams.get('serviceId') || undefined,
+      barberId: searchParams.get('barberId') || undefined,
+      people: searchParams.get('people') || undefined,
+    })
+
+    const service = await resolveService(validatedQuery.serviceId)
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Selected service is not available' },
+        { status: 400 }
+      )
+    }
+
+    const barber = await resolveBarber(validatedQuery.barberId)
+    if (barber === null) {
+      return NextResponse.json(
+        { error: 'Selected barber is not available' },
+        { status: 400 }
+      )
+    }
+
+    // Only days from today through the advance-booking limit can have open times
+    const settings = await getBusinessSettings()
+    const todayZoned = toZonedTime(new Date(), BUSINESS_TIME_ZONE)
+    const todayKey = format(todayZoned, 'yyyy-MM-dd')
+    const lastKey = format(addDays(todayZoned, settings.maxAdvanceDays), 'yyyy-MM-dd')
+
+    const firstOfMonth = parseISO(`${validatedQuery.month}-01`)
+    const dateKeys = Array.from({ length: getDaysInMonth(firstOfMonth) }, (_, index) =>
+      format(addDays(firstOfMonth, index), 'yyyy-MM-dd')
+    )
+    const bookableKeys = dateKeys.filter(key => key >= todayKey && key <= lastKey)
+
+    let barberDaysByDate = new Map<string, BarberDay[]>()
+    if (bookableKeys.length > 0) {
+      barberDaysByDate = await loadBarberDaysInRange(
+        parseDateInLocalTimezone(bookableKeys[0]),
+        parseDateInLocalTimezone(bookableKeys[bookableKeys.length - 1]),
+        {
+          barberId: barber?.id,
+          excludeAppointmentId: excludedAppointmentId(searchParams),
+          excludeHoldSessionId: request.cookies.get(SLOT_HOLD_COOKIE)?.value,
+        }
+      )
+    }
+
+    const blockMinutes = groupBlockMinutes(service.durationMinutes, service.bufferMinutes, validatedQuery.people ?? 1)
+    const days = dateKeys.map(dateKey => {
+      const barberDays = barberDaysByDate.get(dateKey) ?? []
+      const slots = barberDays.length > 0
+        ? generateSlotsForDays(barberDays, parseDateInLocalTimezone(dateKey), blockMinutes, service.bufferMinutes, settings.slotInterval)
+        : []
+
+      return {
+        date: dateKey,
+        openSlots: slots.length,
+        firstOpen: slots[0] ?? null,
+        lastOpen: slots[slots.length - 1] ?? null,
+        // Someone works that day but every time is taken (closed days are not "fully booked")
+        fullyBooked: barberDays.length > 0 && slots.length === 0,
+      }
+    })
+
+    return NextResponse.json({
+      month: validatedQuery.month,
+      serviceId: service.id,
+      barberId: barber?.id ?? null,
+      days,
+    })
+  } catch (error) {
+    console.error('Error fetching availability range:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch availability' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/db'
-import { format, addMinutes, isWithinInterval } from 'date-fns'
+import { addDays, format } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
 import { availabilityQuerySchema } from '@/lib/utils/validation'
-import { APP_CONFIG } from '@/lib/constants'
-import { parseDateInLocalTimezone, getBusinessDayRange, combineDateTime } from '@/lib/utils/dates'
-import { toZonedTime, formatInTimeZone } from 'date-fns-tz'
+import { parseDateInLocalTimezone } from '@/lib/utils/dates'
 import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
+import { resolveService } from '@/lib/services'
+import { resolveBarber } from '@/lib/barbers'
+import { loadBarberDays, generateSlotsForDays, groupBlockMinutes } from '@/lib/availability'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { excludedAppointmentId } from '@/lib/manage-token'
+import { SLOT_HOLD_COOKIE } from '@/lib/slot-holds'
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const dateStr = searchParams.get('date')
+    const serviceId = searchParams.get('serviceId') || undefined
+    const barberId = searchParams.get('barberId') || undefined
+    const people = searchParams.get('people') || undefined
 
     if (!dateStr) {
       return NextResponse.json(
@@ -20,13 +27,30 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate date format
-    const validatedQuery = availabilityQuerySchema.parse({ date: dateStr })
+    const validatedQuery = availabilityQuerySchema.parse({ date: dateStr, serviceId, barberId, people })
     const date = parseDateInLocalTimezone(validatedQuery.date)
 
-    // Check if the date is in the past
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    if (date < today) {
+    // Fit is computed from the chosen service's duration and buffer
+    const service = await resolveService(validatedQuery.serviceId)
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Selected service is not available' },
+        { status: 400 }
+      )
+    }
+
+    // No barberId means "any barber": a time is offered if at least one barber can take it
+    const barber = await resolveBarber(validatedQuery.barberId)
+    if (barber === null) {
+      return NextResponse.json(
+        { error: 'Selected barber is not available' },
+        { status: 400 }
+      )
+    }
+
+    // Compare business-day keys, so the result doesn't depend on the server's own time zone
+    const todayZoned = toZonedTime(new Date(), BUSINESS_TIME_ZONE)
+    if (validatedQuery.date < format(todayZoned, 'yyyy-MM-dd')) {
       return NextResponse.json({
         available: false,
         slots: [],
@@ -35,29 +59,25 @@ export async function GET(request: NextRequest) {
     }
 
     // Check if date is beyond max advance booking days
-    const maxDate = new Date()
-    maxDate.setDate(maxDate.getDate() + APP_CONFIG.MAX_ADVANCE_BOOKING_DAYS)
-    if (date > maxDate) {
+    const settings = await getBusinessSettings()
+    if (validatedQuery.date > format(addDays(todayZoned, settings.maxAdvanceDays), 'yyyy-MM-dd')) {
       return NextResponse.json({
         available: false,
         slots: [],
-        reason: `Bookings are only available ${APP_CONFIG.MAX_ADVANCE_BOOKING_DAYS} days in advance`
+        reason: `Bookings are only available ${settings.maxAdvanceDays} days in advance`
       })
     }
 
     // Check for available slots on this date
-    const { start: dayStart, endExclusive: dayEnd } = getBusinessDayRange(date)
-    const availableSlots = await prisma.availableSlot.findMany({
-      where: {
-        date: {
-          gte: dayStart,
-          lt: dayEnd,
-        }
-      }
+    const barberDays = await loadBarberDays(date, {
+      barberId: barber?.id,
+      excludeAppointmentId: excludedAppointmentId(searchParams),
+      // The browser's own hold stays visible to it, so going back still shows the held time
+      excludeHoldSessionId: request.cookies.get(SLOT_HOLD_COOKIE)?.value,
     })
 
     // If no available slots defined for this date, nothing is available
-    if (availableSlots.length === 0) {
+    if (barberDays.length === 0) {
       return NextResponse.json({
         available: false,
         slots: [],
@@ -65,33 +85,23 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    // Get only confirmed appointments for this date (completed and cancelled don't block slots)
-    const appointments = await prisma.appointment.findMany({
-      where: {
-        date: {
-          gte: dayStart,
-          lt: dayEnd,
-        },
-        status: 'confirmed',
-      },
-      select: {
-        startTime: true,
-        endTime: true,
-      }
-    })
-
-    // Generate available time slots based on available slots
-    const slots = generateAvailableSlots(
-      appointments,
+    // Generate available time slots based on each barber's windows and appointments;
+    // for a group, a start time needs room for everyone with the same barber
+    const slots = generateSlotsForDays(
+      barberDays,
       date,
-      availableSlots
+      groupBlockMinutes(service.durationMinutes, service.bufferMinutes, validatedQuery.people ?? 1),
+      service.bufferMinutes,
+      settings.slotInterval
     )
 
     return NextResponse.json({
       available: slots.length > 0,
       slots,
-      appointmentDuration: APP_CONFIG.APPOINTMENT_DURATION,
-      bufferTime: APP_CONFIG.BUFFER_TIME
+      serviceId: service.id,
+      barberId: barber?.id ?? null,
+      appointmentDuration: service.durationMinutes,
+      bufferTime: service.bufferMinutes
     })
 
   } catch (error) {
@@ -110,81 +120,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-function generateAvailableSlots(
-  appointments: Array<{ startTime: Date; endTime: Date }>,
-  targetDate: Date,
-  availableSlots: Array<{ startTime: string; endTime: string }>
-): string[] {
-  const slots: string[] = []
-
-  // Determine the target business date key (yyyy-MM-dd in business TZ)
-  const targetZoned = toZonedTime(targetDate, BUSINESS_TIME_ZONE)
-  const dateKey = format(targetZoned, 'yyyy-MM-dd')
-
-  const now = new Date()
-  const nowZonedKey = format(toZonedTime(now, BUSINESS_TIME_ZONE), 'yyyy-MM-dd')
-  const isToday = dateKey === nowZonedKey
-
-  // Loop through each available slot window
-  for (const availableWindow of availableSlots) {
-    // Build window bounds as UTC instants by interpreting times in business timezone for the date
-    const windowStart = combineDateTime(dateKey, availableWindow.startTime)
-    const windowEnd = combineDateTime(dateKey, availableWindow.endTime)
-
-    // If it's today, start from current time (rounded up to next 15-min interval)
-    let currentSlot = new Date(windowStart)
-
-    if (isToday) {
-      // Round up the current time in business TZ to next 15m, then align to UTC
-      const nowZoned = toZonedTime(now, BUSINESS_TIME_ZONE)
-      const minutes = nowZoned.getMinutes()
-      const roundedMinutes = Math.ceil(minutes / 15) * 15
-      nowZoned.setMinutes(roundedMinutes, 0, 0)
-      const roundedKey = format(nowZoned, 'yyyy-MM-dd HH:mm')
-      const [d, t] = roundedKey.split(' ')
-      const roundedUtc = combineDateTime(d, t)
-      if (roundedUtc > windowStart) {
-        currentSlot = roundedUtc
-      }
-    }
-
-    // Generate slots every 15 minutes within this available window
-    while (currentSlot < windowEnd) {
-      const slotEnd = addMinutes(currentSlot, APP_CONFIG.APPOINTMENT_DURATION)
-
-      // Check if slot would extend beyond this available window
-      if (slotEnd > windowEnd) {
-        break
-      }
-
-      // Check if this slot conflicts with any appointment (including buffer)
-      const isBlockedByAppointment = appointments.some(apt => {
-        const aptStart = new Date(apt.startTime)
-        const aptEndWithBuffer = addMinutes(new Date(apt.endTime), APP_CONFIG.BUFFER_TIME)
-
-        // Check for overlap: slot conflicts if it overlaps with appointment + buffer
-        return (
-          isWithinInterval(currentSlot, { start: aptStart, end: aptEndWithBuffer }) ||
-          isWithinInterval(slotEnd, { start: aptStart, end: aptEndWithBuffer }) ||
-          isWithinInterval(aptStart, { start: currentSlot, end: slotEnd }) ||
-          isWithinInterval(aptEndWithBuffer, { start: currentSlot, end: slotEnd })
-        )
-      })
-
-      if (!isBlockedByAppointment) {
-        // Format slots in the business timezone to avoid server TZ/UTC drift
-        const timeStr = formatInTimeZone(currentSlot, BUSINESS_TIME_ZONE, 'HH:mm')
-        // Avoid duplicate slots if windows overlap
-        if (!slots.includes(timeStr)) {
-          slots.push(timeStr)
-        }
-      }
-
-      currentSlot = addMinutes(currentSlot, APP_CONFIG.SLOT_INTERVAL)
-    }
-  }
-
-  // Sort slots chronologically
-  return slots.sort()
-}
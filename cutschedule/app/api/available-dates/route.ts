@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { startOfDay } from 'date-fns'
 import { toZonedTime, fromZonedTime } from 'date-fns-tz'
-import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+import { loadTimeOff, subtractTimeOff, timeOffOn } from '@/lib/time-off'
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,11 +14,17 @@ export async function GET(request: NextRequest) {
     const zonedNow = toZonedTime(now, BUSINESS_TIME_ZONE)
     const today = fromZonedTime(startOfDay(zonedNow), BUSINESS_TIME_ZONE)
 
+    // Optionally narrow to one barber; otherwise skip slots of barbers who are no longer active
+    const barberId = request.nextUrl.searchParams.get('barberId')
+
     const availableSlots = await prisma.availableSlot.findMany({
       where: {
         date: {
           gte: today
-        }
+        },
+        ...(barberId
+          ? { barberId }
+          : { OR: [{ barberId: null }, { barber: { isActive: true } }] }),
       },
       orderBy: {
         date: 'asc'
@@ -26,11 +33,18 @@ export async function GET(request: NextRequest) {
         id: true,
         date: true,
         startTime: true,
-        endTime: true
+        endTime: true,
+        barberId: true
       }
     })
 
-    return NextResponse.json(availableSlots)
+    // Leave out windows that time off closes entirely
+    const timeOff = await loadTimeOff(today)
+    const openSlots = availableSlots.filter((slot) =>
+      subtractTimeOff([slot], timeOffOn(timeOff, businessDateKey(slot.date), slot.barberId)).length > 0
+    )
+
+    return NextResponse.json(openSlots)
   } catch (error) {
     console.error('Error fetching available dates:', error)
     return NextResponse.json(
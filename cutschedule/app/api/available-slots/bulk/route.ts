@@ -1,24 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
 import { prisma } from '@/lib/db'
 import { addDays, endOfWeek, format, startOfWeek } from 'date-fns'
 import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
 import { toZonedTime, fromZonedTime } from 'date-fns-tz'
+import { getShortestServiceDuration } from '@/lib/services'
+import { offerOpenings } from '@/lib/waitlist'
+import { loadTimeOff, subtractTimeOff, timeOffOn } from '@/lib/time-off'
+import { windowCanHold } from '@/lib/availability'
+import { getBusinessSettings } from '@/lib/business-settings'
 
-type Window = { startTime: string; endTime: string; reason: string | null }
+type Window = { barberId: string | null; startTime: string; endTime: string; reason: string | null }
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication - rely on OAuth allowed test users
-    const session = await getServerSession(authOptions)
-
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
 
     // Get today in business timezone
     const now = new Date()
@@ -58,14 +56,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Build a pattern of windows per weekday (0-6) from remaining slots
+    // Windows no service fits into could never be booked, so they are not copied
+    const minDuration = await getShortestServiceDuration()
+    const { slotInterval } = await getBusinessSettings()
+
+    // Build a pattern of windows per weekday (0-6) from remaining slots; each window keeps its barber
     const pattern = new Map<number, Window[]>()
     for (const slot of remainingCurrentWeekSlots) {
       const weekday = toZonedTime(slot.date, BUSINESS_TIME_ZONE).getDay()
       const arr = pattern.get(weekday) ?? []
       // Avoid duplicate windows in the pattern for a weekday
-      if (!arr.some((w) => w.startTime === slot.startTime && w.endTime === slot.endTime && w.reason === slot.reason)) {
-        arr.push({ startTime: slot.startTime, endTime: slot.endTime, reason: slot.reason ?? null })
+      if (!arr.some((w) => w.barberId === slot.barberId && w.startTime === slot.startTime && w.endTime === slot.endTime && w.reason === slot.reason)) {
+        arr.push({ barberId: slot.barberId, startTime: slot.startTime, endTime: slot.endTime, reason: slot.reason ?? null })
       }
       pattern.set(weekday, arr)
     }
@@ -132,30 +134,37 @@ export async function POST(request: NextRequest) {
       orderBy: { date: 'asc' },
     })
 
+    // Keyed per barber so one barber's existing day doesn't block another's
     const existingByDateKey = new Set<string>()
     for (const s of existingInTargetWeek) {
       const key = format(toZonedTime(s.date, BUSINESS_TIME_ZONE), 'yyyy-MM-dd')
-      existingByDateKey.add(key)
+      existingByDateKey.add(`${s.barberId ?? ''}|${key}`)
     }
 
+    const timeOff = await loadTimeOff(targetWeekStartUTC, targetWeekEndUTC)
+
     // Create slots for the target week
-    const toCreate: { date: Date; startTime: string; endTime: string; reason: string | null }[] = []
+    const toCreate: { barberId: string | null; date: Date; startTime: string; endTime: string; reason: string | null }[] = []
 
     for (let i = 0; i < 7; i++) {
       const targetDayInBusinessTZ = addDays(targetWeekStart, i)
       const dateKey = format(targetDayInBusinessTZ, 'yyyy-MM-dd')
 
-      // Skip days that already have slots (merge behavior)
-      if (existingByDateKey.has(dateKey)) continue
-
       const weekday = targetDayInBusinessTZ.getDay()
       const windows = pattern.get(weekday)
       if (!windows || windows.length === 0) continue
 
       for (const w of windows) {
+        // Skip days the barber already has slots on (merge behavior)
+        if (existingByDateKey.has(`${w.barberId ?? ''}|${dateKey}`)) continue
+        // Skip windows the barber has off, or where nothing fits around their time off
+        // (partial time off is cut out when booking, so the window itself is copied whole)
+        const open = subtractTimeOff([w], timeOffOn(timeOff, dateKey, w.barberId))
+        if (!open.some((window) => windowCanHold(dateKey, window, minDuration, slotInterval))) continue
+
         // Create using business-local midnight converted to UTC
         const localDate = fromZonedTime(`${dateKey}T00:00:00.000`, BUSINESS_TIME_ZONE)
-        toCreate.push({ date: localDate, startTime: w.startTime, endTime: w.endTime, reason: w.reason })
+        toCreate.push({ barberId: w.barberId, date: localDate, startTime: w.startTime, endTime: w.endTime, reason: w.reason })
       }
     }
 
@@ -166,6 +175,16 @@ export async function POST(request: NextRequest) {
     // Insert all new slots
     const result = await prisma.availableSlot.createMany({ data: toCreate })
 
+    // New hours may be what someone on the waitlist is waiting for
+    const newDates = new Map(toCreate.map((slot) => [slot.date.getTime(), slot.date]))
+    for (const date of newDates.values()) {
+      try {
+        await offerOpenings(date)
+      } catch (error) {
+        console.error('Error offering new slots to the waitlist:', error)
+      }
+    }
+
     return NextResponse.json({ success: true, created: result.count })
   } catch (error) {
     console.error('Error bulk-creating available slots:', error)
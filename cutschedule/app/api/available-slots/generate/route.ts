@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { generateSlotsFromWorkingHours } from '@/lib/slot-generator'
+
+// Fill available slots from working hours now instead of waiting for the daily cron
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
+
+    const body = await request.json().catch(() => ({}))
+    const barberId = typeof body.barberId === 'string' && body.barberId ? body.barberId : undefined
+
+    const created = await generateSlotsFromWorkingHours({ barberId })
+
+    return NextResponse.json({ success: true, created })
+  } catch (error) {
+    console.error('Error generating available slots:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate available slots' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,23 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
 import { prisma } from '@/lib/db'
 import { fromZonedTime, toZonedTime } from 'date-fns-tz'
 import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
 import { format } from 'date-fns'
 import { getBusinessDayRange } from '@/lib/utils/dates'
+import { offerOpenings } from '@/lib/waitlist'
 
 export async function GET(request: NextRequest) {
   try {
-    // Verify authentication - rely on OAuth allowed test users
-    const session = await getServerSession(authOptions)
-
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
 
     // Calculate today's start time in business timezone for filtering
     const now = new Date()
@@ -25,12 +19,18 @@ export async function GET(request: NextRequest) {
     const todayKey = format(todayInBusinessTZ, 'yyyy-MM-dd')
     const todayStart = fromZonedTime(`${todayKey}T00:00:00.000`, BUSINESS_TIME_ZONE)
 
+    const barberId = request.nextUrl.searchParams.get('barberId')
+
     // Fetch slots from today onwards (filter out past slots in query)
     const availableSlots = await prisma.availableSlot.findMany({
       where: {
         date: {
           gte: todayStart
-        }
+        },
+        ...(barberId ? { barberId } : {}),
+      },
+      include: {
+        barber: { select: { id: true, name: true } },
       },
       orderBy: {
         date: 'asc'
@@ -49,18 +49,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication - rely on OAuth allowed test users
-    const session = await getServerSession(authOptions)
-
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
 
     const body = await request.json()
-    const { date, startTime, endTime, reason } = body
+    const { date, startTime, endTime, reason, barberId } = body
 
     if (!date || !startTime || !endTime) {
       return NextResponse.json(
@@ -95,15 +88,36 @@ export async function POST(request: NextRequest) {
       slotDate = fromZonedTime(`${y.toString().padStart(4,'0')}-${m.toString().padStart(2,'0')}-${d.toString().padStart(2,'0')}T00:00:00.000`, BUSINESS_TIME_ZONE)
     }
 
+    if (barberId) {
+      const barber = await prisma.barber.findUnique({ where: { id: barberId } })
+      if (!barber) {
+        return NextResponse.json(
+          { error: 'Barber not found' },
+          { status: 400 }
+        )
+      }
+    }
+
     const availableSlot = await prisma.availableSlot.create({
       data: {
+        barberId: barberId || null,
         date: slotDate,
         startTime,
         endTime,
         reason: reason || null
-      }
+      },
+      include: {
+        barber: { select: { id: true, name: true } },
+      },
     })
 
+    // New hours may be what someone on the waitlist is waiting for
+    try {
+      await offerOpenings(slotDate)
+    } catch (error) {
+      console.error('Error offering new slot to the waitlist:', error)
+    }
+
     return NextResponse.json(availableSlot)
   } catch (error) {
     console.error('Error creating available slot:', error)
@@ -116,15 +130,8 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    // Verify authentication - rely on OAuth allowed test users
-    const session = await getServerSession(authOptions)
-
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
 
     const searchParams = request.nextUrl.searchParams
     const id = searchParams.get('id')
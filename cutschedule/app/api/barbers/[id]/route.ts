@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { barberUpdateSchema } from '@/lib/utils/validation'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = barberUpdateSchema.parse(body)
+
+    const existing = await prisma.barber.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Barber not found' },
+        { status: 404 }
+      )
+    }
+
+    // Barbers are deactivated rather than deleted so their past appointments keep their owner
+    const barber = await prisma.barber.update({
+      where: { id },
+      data: validatedData,
+    })
+
+    return NextResponse.json(barber)
+  } catch (error) {
+    console.error('Error updating barber:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update barber' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { getActiveBarbers } from '@/lib/barbers'
+import { barberSchema } from '@/lib/utils/validation'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Admin pages ask for the full roster, including inactive barbers and their settings
+    if (request.nextUrl.searchParams.get('includeInactive') === 'true') {
+      const auth = await requireRole(ADMIN_ROLES.VIEWER)
+      if (!auth.ok) return auth.response
+
+      const barbers = await prisma.barber.findMany({
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      })
+      return NextResponse.json(barbers)
+    }
+
+    // Public endpoint - the booking form lists the active barbers
+    const barbers = await getActiveBarbers()
+
+    return NextResponse.json(
+      barbers.map((barber) => ({
+        id: barber.id,
+        name: barber.name,
+      }))
+    )
+  } catch (error) {
+    console.error('Error fetching barbers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch barbers' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
+
+    const body = await request.json()
+    const validatedData = barberSchema.parse(body)
+
+    const barber = await prisma.barber.create({
+      data: validatedData,
+    })
+
+    return NextResponse.json(barber, { status: 201 })
+  } catch (error) {
+    console.error('Error creating barber:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create barber' },
+      { status: 500 }
+    )
+  }
+}
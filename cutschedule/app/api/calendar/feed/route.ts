@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { subDays } from 'date-fns'
+import { APP_CONFIG, APPOINTMENT_STATUS } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { verifyCalendarFeedToken } from '@/lib/manage-token'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { buildCalendar, barberAppointmentEvent } from '@/lib/ics'
+
+// iCal subscription feed of the shop's (or one barber's) appointments; the token is the only auth
+export async function GET(request: NextRequest) {
+  try {
+    const barberId = verifyCalendarFeedToken(request.nextUrl.searchParams.get('token'))
+    if (barberId === undefined) {
+      return NextResponse.json(
+        { error: 'This feed link is invalid' },
+        { status: 401 }
+      )
+    }
+
+    const barber = barberId
+      ? await prisma.barber.findUnique({ where: { id: barberId }, select: { name: true } })
+      : null
+    if (barberId && !barber) {
+      return NextResponse.json(
+        { error: 'Barber not found' },
+        { status: 404 }
+      )
+    }
+
+    // Cancelled and no-show appointments stay in the feed as cancelled, so subscribed calendars drop them
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        startTime: { gte: subDays(new Date(), APP_CONFIG.CALENDAR_FEED_PAST_DAYS) },
+        status: { not: APPOINTMENT_STATUS.PENDING_PAYMENT },
+        ...(barberId ? { barberId } : {}),
+      },
+      include: {
+        service: { select: { name: true } },
+        barber: { select: { name: true } },
+      },
+      orderBy: { startTime: 'asc' },
+    })
+
+    const settings = await getBusinessSettings()
+    const name = barber ? `${settings.businessName} - ${barber.name}` : settings.businessName
+    const calendar = buildCalendar(name, appointments.map(appointment => barberAppointmentEvent(appointment, settings)))
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="appointments.ics"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    )
+  }
+}
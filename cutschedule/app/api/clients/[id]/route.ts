@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { getConversation } from '@/lib/sms-inbox'
+import { clientUpdateSchema } from '@/lib/utils/validation'
+
+// Profile plus everything that happened with the client: appointments and SMS both ways
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const client = await prisma.client.findUnique({
+      where: { id },
+      include: {
+        appointments: {
+          include: {
+            service: { select: { id: true, name: true } },
+            barber: { select: { id: true, name: true } },
+          },
+          orderBy: { startTime: 'desc' },
+        },
+      },
+    })
+
+    if (!client) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      )
+    }
+
+    const { messages } = await getConversation(client.phoneNumber)
+
+    return NextResponse.json({ ...client, messages })
+  } catch (error) {
+    console.error('Error fetching client:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch client' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = clientUpdateSchema.parse(body)
+
+    const client = await prisma.client.update({
+      where: { id },
+      data: {
+        ...(validatedData.notes !== undefined ? { notes: validatedData.notes || null } : {}),
+        // Tags are matched case-insensitively in search, so store them lowercased and once
+        ...(validatedData.tags ? { tags: Array.from(new Set(validatedData.tags.map(tag => tag.toLowerCase()))) } : {}),
+      },
+    })
+
+    return NextResponse.json(client)
+  } catch (error) {
+    console.error('Error updating client:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update client' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
+    const search = request.nextUrl.searchParams.get('search')?.trim()
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '100')
+
+    // Phone search matches on digits so "(555) 123" finds "+1555123..."
+    const digits = search?.replace(/\D/g, '')
+    const clients = await prisma.client.findMany({
+      where: search
+        ? {
+            OR: [
+              { name: { contains: search, mode: 'insensitive' } },
+              { nameHistory: { has: search } },
+              { tags: { has: search.toLowerCase() } },
+              ...(digits ? [{ phoneNumber: { contains: digits } }] : []),
+            ],
+          }
+        : undefined,
+      orderBy: [{ lastVisitAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+      take: limit,
+    })
+
+    return NextResponse.json(clients)
+  } catch (error) {
+    console.error('Error fetching clients:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch clients' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { sendReminderSMS, sendSMS } from '@/lib/sms'
+import { getOptedOutNumbers } from '@/lib/sms-consent'
+import { expirePastWaitlistEntries, expireWaitlistOffers } from '@/lib/waitlist'
+import { releaseUnpaidHolds } from '@/lib/payments'
+import { refreshClientStats } from '@/lib/clients'
+import { extendRecurringSeries } from '@/lib/recurring'
+import { deleteExpiredSlotHolds } from '@/lib/slot-holds'
+import { deleteOldRateLimitAttempts } from '@/lib/rate-limit'
+import { generateSlotsFromWorkingHours } from '@/lib/slot-generator'
 import { addDays, addHours, startOfDay, endOfDay, subWeeks, format, addMinutes } from 'date-fns'
 import { toZonedTime, fromZonedTime } from 'date-fns-tz'
+import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
 
 // Configure function timeout for Vercel
 export const maxDuration = 30
 
-// Business timezone - all appointment times are in this timezone
-const BUSINESS_TZ = 'America/New_York'
+// Record that today's daily tasks are running; false when an earlier run already claimed the day
+async function claimDailyTasks(businessDate: string): Promise<boolean> {
+  const result = await prisma.dailyTaskRun.createMany({
+    data: [{ date: businessDate }],
+    skipDuplicates: true,
+  })
+  return result.count > 0
+}
 
 // Verify the request is from a legitimate cron service
 function verifyCronAuth(request: NextRequest) {
@@ -34,30 +49,69 @@ export async function GET(request: NextRequest) {
     }
 
     const nowUTC = new Date()
-    const nowBusiness = toZonedTime(nowUTC, BUSINESS_TZ)
+    const nowBusiness = toZonedTime(nowUTC, BUSINESS_TIME_ZONE)
 
     const results = {
       oneDayReminders: 0,
       oneHourReminders: 0,
       reEngagementMessages: 0,
       autoCompletedAppointments: 0,
+      expiredWaitlistOffers: 0,
+      releasedPaymentHolds: 0,
+      clearedSlotHolds: 0,
+      clearedRateLimitAttempts: 0,
+      recurringOccurrencesBooked: 0,
+      recurringConflicts: 0,
+      generatedSlots: 0,
       errors: [] as string[]
     }
 
     // Determine if we should run daily tasks (expensive operations)
-    // Cron runs at 21:30 UTC which is 4:30 PM EST or 5:30 PM EDT
-    // We want to run daily tasks once in the evening
+    // The cron runs through the day; daily tasks run once per business day, on the first run
+    // from 4 PM business time, wherever the shop's time zone puts that in UTC
     const businessHour = nowBusiness.getHours()
     const businessMinute = nowBusiness.getMinutes()
-
-    // Run daily tasks between 4-6:59 PM business time (wide window to handle delays)
-    // This covers: 4 PM (EST on time), 5 PM (EDT on time), 6 PM (delays)
-    const shouldRunDailyTasks = businessHour >= 16 && businessHour <= 18
+    const shouldRunDailyTasks = businessHour >= 16 && await claimDailyTasks(format(nowBusiness, 'yyyy-MM-dd'))
 
     if (!shouldRunDailyTasks) {
-      console.log(`[Skip Daily Tasks] Business time ${businessHour}:${businessMinute.toString().padStart(2, '0')} (${BUSINESS_TZ}) outside 4:00-6:59 PM window`)
+      console.log(`[Skip Daily Tasks] Business time ${businessHour}:${businessMinute.toString().padStart(2, '0')} (${BUSINESS_TIME_ZONE}) before 4:00 PM or daily tasks already ran today`)
     } else {
-      console.log(`[Running Daily Tasks] Business time ${businessHour}:${businessMinute.toString().padStart(2, '0')} (${BUSINESS_TZ})`)
+      console.log(`[Running Daily Tasks] Business time ${businessHour}:${businessMinute.toString().padStart(2, '0')} (${BUSINESS_TIME_ZONE})`)
+    }
+
+    // Move waitlist offers whose hold ran out on to the next client (every run)
+    try {
+      results.expiredWaitlistOffers = await expireWaitlistOffers()
+      if (shouldRunDailyTasks) {
+        await expirePastWaitlistEntries()
+      }
+    } catch (error: any) {
+      console.error('[Waitlist] Error expiring offers:', error)
+      results.errors.push(`Waitlist expiry failed: ${error.message}`)
+    }
+
+    // Give back slots held for deposits that were never paid (every run)
+    try {
+      results.releasedPaymentHolds = await releaseUnpaidHolds()
+    } catch (error: any) {
+      console.error('[Payments] Error releasing unpaid holds:', error)
+      results.errors.push(`Payment hold release failed: ${error.message}`)
+    }
+
+    // Clear out checkout holds that ran out (every run)
+    try {
+      results.clearedSlotHolds = await deleteExpiredSlotHolds()
+    } catch (error: any) {
+      console.error('[Slot holds] Error clearing expired holds:', error)
+      results.errors.push(`Slot hold cleanup failed: ${error.message}`)
+    }
+
+    // Clear out rate limit attempts too old to count (every run)
+    try {
+      results.clearedRateLimitAttempts = await deleteOldRateLimitAttempts()
+    } catch (error: any) {
+      console.error('[Rate limit] Error clearing old attempts:', error)
+      results.errors.push(`Rate limit cleanup failed: ${error.message}`)
     }
 
     // 0. Auto-complete past appointments (DAILY TASK - runs once per day)
@@ -67,18 +121,29 @@ export async function GET(request: NextRequest) {
 
       // Update all confirmed appointments that have already ended in a single batch operation
       try {
-        const updateResult = await prisma.appointment.updateMany({
+        const endedAppointments = await prisma.appointment.findMany({
           where: {
             status: 'confirmed',
             endTime: {
               lt: nowUTC, // Ended before now
             },
           },
+          select: { id: true, clientId: true },
+        })
+
+        const updateResult = await prisma.appointment.updateMany({
+          where: {
+            id: { in: endedAppointments.map(a => a.id) },
+            status: 'confirmed',
+          },
           data: {
             status: 'completed',
           },
         })
 
+        // Completed appointments count as visits on the client profile
+        await refreshClientStats(endedAppointments.map(a => a.clientId))
+
         results.autoCompletedAppointments = updateResult.count
         console.log(`[Auto-complete] Successfully marked ${updateResult.count} appointments as completed`)
       } catch (error: any) {
@@ -87,6 +152,29 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Fill available slots from working hours for the weeks ahead (DAILY TASK)
+    // Runs before recurring bookings, which need the new days' windows
+    if (shouldRunDailyTasks) {
+      try {
+        results.generatedSlots = await generateSlotsFromWorkingHours()
+      } catch (error: any) {
+        console.error('[Slot generator] Error generating slots from working hours:', error)
+        results.errors.push(`Slot generation failed: ${error.message}`)
+      }
+    }
+
+    // Book standing appointments as they come inside the booking window (DAILY TASK)
+    if (shouldRunDailyTasks) {
+      try {
+        const recurring = await extendRecurringSeries()
+        results.recurringOccurrencesBooked = recurring.booked
+        results.recurringConflicts = recurring.conflicts.length
+      } catch (error: any) {
+        console.error('[Recurring] Error booking series occurrences:', error)
+        results.errors.push(`Recurring series booking failed: ${error.message}`)
+      }
+    }
+
     // 1. Send 1-day reminders (DAILY TASK - runs once per day)
     if (shouldRunDailyTasks) {
       // Calculate tomorrow in business timezone
@@ -95,8 +183,8 @@ export async function GET(request: NextRequest) {
       const tomorrowEndBusiness = endOfDay(tomorrowBusiness)
 
       // Convert to UTC for database query
-      const tomorrowStartUTC = fromZonedTime(tomorrowStartBusiness, BUSINESS_TZ)
-      const tomorrowEndUTC = fromZonedTime(tomorrowEndBusiness, BUSINESS_TZ)
+      const tomorrowStartUTC = fromZonedTime(tomorrowStartBusiness, BUSINESS_TIME_ZONE)
+      const tomorrowEndUTC = fromZonedTime(tomorrowEndBusiness, BUSINESS_TIME_ZONE)
 
       const oneDayAppointments = await prisma.appointment.findMany({
         where: {
@@ -106,6 +194,7 @@ export async function GET(request: NextRequest) {
             lte: tomorrowEndUTC,
           },
         },
+        include: { barber: { select: { name: true } } },
       })
 
       console.log(`Found ${oneDayAppointments.length} appointments for 1-day reminders`)
@@ -153,9 +242,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // 2. Send 1-hour reminders (runs once per day at ~4:30 PM EST / 5:30 PM EDT)
-    // Check for appointments 55-65 minutes in the future
-    // Note: This will only send reminders for appointments around 5:30-6:30 PM
+    // 2. Send 1-hour reminders (every run)
+    // Check for appointments 55-65 minutes in the future; the 10-minute cron covers every start time
     const reminderWindowStart = addMinutes(nowUTC, 55)
     const reminderWindowEnd = addMinutes(nowUTC, 65)
 
@@ -167,6 +255,7 @@ export async function GET(request: NextRequest) {
           lte: reminderWindowEnd,
         },
       },
+      include: { barber: { select: { name: true } } },
     })
 
     console.log(`Found ${oneHourAppointments.length} appointments for 1-hour reminders`)
@@ -230,10 +319,10 @@ export async function GET(request: NextRequest) {
       const threeWeeksAgoRangeEnd = threeWeeksAgoBusiness // 21 days ago
 
       // Convert to UTC for database queries
-      const twoWeeksAgoStartUTC = fromZonedTime(startOfDay(twoWeeksAgoRangeStart), BUSINESS_TZ)
-      const twoWeeksAgoEndUTC = fromZonedTime(endOfDay(twoWeeksAgoRangeEnd), BUSINESS_TZ)
-      const threeWeeksAgoStartUTC = fromZonedTime(startOfDay(threeWeeksAgoRangeStart), BUSINESS_TZ)
-      const threeWeeksAgoEndUTC = fromZonedTime(endOfDay(threeWeeksAgoRangeEnd), BUSINESS_TZ)
+      const twoWeeksAgoStartUTC = fromZonedTime(startOfDay(twoWeeksAgoRangeStart), BUSINESS_TIME_ZONE)
+      const twoWeeksAgoEndUTC = fromZonedTime(endOfDay(twoWeeksAgoRangeEnd), BUSINESS_TIME_ZONE)
+      const threeWeeksAgoStartUTC = fromZonedTime(startOfDay(threeWeeksAgoRangeStart), BUSINESS_TIME_ZONE)
+      const threeWeeksAgoEndUTC = fromZonedTime(endOfDay(threeWeeksAgoRangeEnd), BUSINESS_TIME_ZONE)
 
       // Get customers who had their last appointment 2 weeks ago
       const reEngagementCandidates = await prisma.appointment.findMany({
@@ -244,6 +333,7 @@ export async function GET(request: NextRequest) {
             lte: twoWeeksAgoEndUTC,
           },
         },
+        include: { barber: { select: { name: true } } },
         distinct: ['phoneNumber'],
       })
 
@@ -258,6 +348,7 @@ export async function GET(request: NextRequest) {
             lte: threeWeeksAgoEndUTC,
           },
         },
+        include: { barber: { select: { name: true } } },
         distinct: ['phoneNumber'],
       })
 
@@ -286,6 +377,8 @@ export async function GET(request: NextRequest) {
         const phoneNumbers = Array.from(phoneNumberMap.keys())
         const phoneNumbersWithFutureAppointments = new Set<string>()
         const phoneNumbersWithRecentMessages = new Set<string>()
+        // Re-engagement nudges are marketing, so skip anyone who replied STOP
+        const optedOutPhoneNumbers = await getOptedOutNumbers(phoneNumbers)
 
         // Batch query for customers with future appointments (scheduled in the future)
         const futureAppointments = await prisma.appointment.findMany({
@@ -330,7 +423,8 @@ export async function GET(request: NextRequest) {
         // Process 2-week re-engagement
         for (const appointment of reEngagementCandidates) {
           if (!phoneNumbersWithFutureAppointments.has(appointment.phoneNumber) &&
-              !phoneNumbersWithRecentMessages.has(appointment.phoneNumber)) {
+              !phoneNumbersWithRecentMessages.has(appointment.phoneNumber) &&
+              !optedOutPhoneNumbers.has(appointment.phoneNumber)) {
             try {
               const result = await sendSMS(
                 appointment.phoneNumber,
@@ -340,6 +434,7 @@ export async function GET(request: NextRequest) {
                   date: '',
                   time: '',
                   appointmentId: appointment.id,
+                  barberName: appointment.barber?.name,
                 }
               )
               if (result.success) {
@@ -359,7 +454,8 @@ export async function GET(request: NextRequest) {
         // Process 3-week re-engagement
         for (const appointment of threeWeekCandidates) {
           if (!phoneNumbersWithFutureAppointments.has(appointment.phoneNumber) &&
-              !phoneNumbersWithRecentMessages.has(appointment.phoneNumber)) {
+              !phoneNumbersWithRecentMessages.has(appointment.phoneNumber) &&
+              !optedOutPhoneNumbers.has(appointment.phoneNumber)) {
             try {
               const result = await sendSMS(
                 appointment.phoneNumber,
@@ -369,6 +465,7 @@ export async function GET(request: NextRequest) {
                   date: '',
                   time: '',
                   appointmentId: appointment.id,
+                  barberName: appointment.barber?.name,
                 }
               )
               if (result.success) {
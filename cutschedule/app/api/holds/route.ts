@@ -0,0 +1,140 @@
+import { randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { slotHoldSchema } from '@/lib/utils/validation'
+import { combineDateTime } from '@/lib/utils/dates'
+import { resolveService } from '@/lib/services'
+import { resolveBarber } from '@/lib/barbers'
+import { backToBackTimes } from '@/lib/availability'
+import { SLOT_HOLD_COOKIE, countActiveSlotHolds, placeSlotHold, releaseSlotHold } from '@/lib/slot-holds'
+import { clientIp, takeRateLimit } from '@/lib/rate-limit'
+
+// Clicking through times places a hold each time, so the rate is generous; the cap on
+// concurrent holds is what stops one address from blocking out a day
+const MAX_HOLDS_PER_WINDOW = 30
+const RATE_WINDOW_MINUTES = 15
+const MAX_ACTIVE_HOLDS_PER_IP = 3
+
+// Public endpoint - the booking page holds the picked time while the client enters their details
+export async function POST(request: NextRequest) {
+  try {
+    const ipAddress = clientIp(request)
+    const allowed = await takeRateLimit([{ key: `holds:ip:${ipAddress}`, limit: MAX_HOLDS_PER_WINDOW }], RATE_WINDOW_MINUTES)
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please wait a few minutes and try again.' },
+        { status: 429 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = slotHoldSchema.parse(body)
+
+    const service = await resolveService(validatedData.serviceId)
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Selected service is not available' },
+        { status: 400 }
+      )
+    }
+
+    const barber = await resolveBarber(validatedData.barberId)
+    if (barber === null) {
+      return NextResponse.json(
+        { error: 'Selected barber is not available' },
+        { status: 400 }
+      )
+    }
+
+    const startTime = combineDateTime(validatedData.date, validatedData.time)
+    if (startTime <= new Date()) {
+      return NextResponse.json(
+        { error: 'Selected time has already passed' },
+        { status: 400 }
+      )
+    }
+
+    // A group holds the whole back-to-back block
+    const slots = backToBackTimes(startTime, service.durationMinutes, service.bufferMinutes, validatedData.people ?? 1)
+    const existingSessionId = request.cookies.get(SLOT_HOLD_COOKIE)?.value
+    const sessionId = existingSessionId || randomUUID()
+
+    // A session replaces its own hold, so only other sessions from the same address count
+    if (await countActiveSlotHolds(ipAddress, existingSessionId) >= MAX_ACTIVE_HOLDS_PER_IP) {
+      return NextResponse.json(
+        { error: 'Too many times are being held from this connection. Please finish or cancel one first.' },
+        { status: 429 }
+      )
+    }
+
+    const result = await placeSlotHold(sessionId, {
+      date: validatedData.date,
+      time: validatedData.time,
+      startTime,
+      endTime: slots[slots.length - 1].endTime,
+      barberId: barber?.id,
+      bufferMinutes: service.bufferMinutes,
+    }, ipAddress)
+
+    if (result.error || !result.hold) {
+      return NextResponse.json(
+        {
+          error: result.error === 'conflict'
+            ? 'Selected time slot is no longer available'
+            : 'Selected time is not within available hours'
+        },
+        { status: result.error === 'conflict' ? 409 : 400 }
+      )
+    }
+
+    const response = NextResponse.json(
+      {
+        startTime: result.hold.startTime,
+        endTime: result.hold.endTime,
+        expiresAt: result.hold.expiresAt,
+      },
+      { status: 201 }
+    )
+    response.cookies.set(SLOT_HOLD_COOKIE, sessionId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+    })
+    return response
+  } catch (error) {
+    console.error('Error holding time slot:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: (error as any).errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to hold time slot' },
+      { status: 500 }
+    )
+  }
+}
+
+// Let go of the session's hold, e.g. when the client goes back to pick another day
+export async function DELETE(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get(SLOT_HOLD_COOKIE)?.value
+    if (sessionId) {
+      await releaseSlotHold(sessionId)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error releasing time slot hold:', error)
+    return NextResponse.json(
+      { error: 'Failed to release time slot hold' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getActiveServices } from '@/lib/services'
+import { depositCentsFor } from '@/lib/payments'
+
+export async function GET() {
+  try {
+    // Public endpoint - the booking form lists the active catalog
+    const services = await getActiveServices()
+
+    return NextResponse.json(
+      services.map((service) => ({
+        id: service.id,
+        slug: service.slug,
+        name: service.name,
+        durationMinutes: service.durationMinutes,
+        priceCents: service.priceCents,
+        bufferMinutes: service.bufferMinutes,
+        // Paid online when booking; 0 when deposits are off
+        depositCents: depositCentsFor(service.priceCents),
+      }))
+    )
+  } catch (error) {
+    console.error('Error fetching services:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch services' },
+      { status: 500 }
+    )
+  }
+}
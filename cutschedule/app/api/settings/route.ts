@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { getBusinessSettings, updateBusinessSettings } from '@/lib/business-settings'
+import { businessSettingsSchema } from '@/lib/utils/validation'
+
+export async function GET() {
+  try {
+    // Public endpoint - booking pages show the shop's address and phone and follow its booking rules
+    return NextResponse.json(await getBusinessSettings())
+  } catch (error) {
+    console.error('Error fetching business settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch business settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
+
+    const body = await request.json()
+    const validatedData = businessSettingsSchema.parse(body)
+
+    const settings = await updateBusinessSettings(validatedData)
+    console.log(`[Settings Audit] ${auth.session.user.email} updated business settings`)
+
+    return NextResponse.json(settings)
+  } catch (error) {
+    console.error('Error updating business settings:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: (error as any).errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update business settings' },
+      { status: 500 }
+    )
+  }
+}
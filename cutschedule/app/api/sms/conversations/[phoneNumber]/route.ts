@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { sendSMS } from '@/lib/sms'
+import { getConversation } from '@/lib/sms-inbox'
+import { smsReplySchema } from '@/lib/utils/validation'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ phoneNumber: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
+    const { phoneNumber } = await params
+    const conversation = await getConversation(decodeURIComponent(phoneNumber))
+
+    return NextResponse.json(conversation)
+  } catch (error) {
+    console.error('Error fetching SMS conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    )
+  }
+}
+
+// Free-form reply from the inbox
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ phoneNumber: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
+
+    const phoneNumber = decodeURIComponent((await params).phoneNumber)
+    const body = await request.json()
+    const { message } = smsReplySchema.parse(body)
+
+    // Attach the reply to the client's latest appointment so it shows up in per-appointment logs
+    const latestAppointment = await prisma.appointment.findFirst({
+      where: { phoneNumber },
+      orderBy: { startTime: 'desc' },
+      select: { id: true, clientName: true },
+    })
+
+    const result = await sendSMS(phoneNumber, 'manual_reply', {
+      clientName: latestAppointment?.clientName || '',
+      date: '',
+      time: '',
+      appointmentId: latestAppointment?.id || 'manual',
+      message,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to send SMS' },
+        { status: 400 }
+      )
+    }
+
+    console.log(`Manual SMS reply sent to ${phoneNumber} by ${auth.session.user.email}`)
+
+    return NextResponse.json({
+      success: true,
+      messageId: result.messageId,
+    })
+  } catch (error) {
+    console.error('Error sending SMS reply:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to send SMS' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { listConversations } from '@/lib/sms-inbox'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50')
+    const conversations = await listConversations(limit)
+
+    return NextResponse.json(conversations)
+  } catch (error) {
+    console.error('Error fetching SMS conversations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversations' },
+      { status: 500 }
+    )
+  }
+}
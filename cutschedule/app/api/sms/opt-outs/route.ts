@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '100')
+
+    const [optedOut, history] = await Promise.all([
+      prisma.smsConsent.findMany({
+        where: { optedOut: true },
+        orderBy: { optedOutAt: 'desc' },
+      }),
+      prisma.incomingSMS.findMany({
+        where: { type: { in: ['opt-out', 'opt-in'] } },
+        orderBy: { receivedAt: 'desc' },
+        take: limit,
+      }),
+    ])
+
+    return NextResponse.json({ optedOut, history })
+  } catch (error) {
+    console.error('Error fetching opt-outs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch opt-outs' },
+      { status: 500 }
+    )
+  }
+}
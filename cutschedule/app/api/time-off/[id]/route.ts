@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addDays, format, parseISO } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+import { offerOpenings } from '@/lib/waitlist'
+import { getBusinessSettings } from '@/lib/business-settings'
+
+// Remove time off; the hours it closed open up again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const timeOff = await prisma.timeOff.findUnique({ where: { id } })
+    if (!timeOff) {
+      return NextResponse.json(
+        { error: 'Time off not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.timeOff.delete({ where: { id } })
+
+    // Reopened days inside the booking window may be what someone on the waitlist is waiting for
+    if (!timeOff.recurring) {
+      const todayZoned = toZonedTime(new Date(), BUSINESS_TIME_ZONE)
+      const todayKey = format(todayZoned, 'yyyy-MM-dd')
+      const { maxAdvanceDays } = await getBusinessSettings()
+      const horizonKey = format(addDays(todayZoned, maxAdvanceDays), 'yyyy-MM-dd')
+      const startKey = businessDateKey(timeOff.startDate)
+      const endKey = businessDateKey(timeOff.endDate)
+      const lastKey = endKey < horizonKey ? endKey : horizonKey
+
+      for (let key = startKey > todayKey ? startKey : todayKey; key <= lastKey; key = format(addDays(parseISO(key), 1), 'yyyy-MM-dd')) {
+        try {
+          await offerOpenings(parseDateInLocalTimezone(key))
+        } catch (error) {
+          console.error('Error offering reopened time to the waitlist:', error)
+        }
+      }
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting time off:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete time off' },
+      { status: 500 }
+    )
+  }
+}
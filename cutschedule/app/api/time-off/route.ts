@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { format } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { timeOffSchema } from '@/lib/utils/validation'
+import { parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
+import { findTimeOffConflicts } from '@/lib/time-off'
+
+// Time off that is still ahead, plus every recurring holiday
+export async function GET() {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
+    const todayKey = format(toZonedTime(new Date(), BUSINESS_TIME_ZONE), 'yyyy-MM-dd')
+    const timeOff = await prisma.timeOff.findMany({
+      where: {
+        OR: [
+          { recurring: true },
+          { endDate: { gte: parseDateInLocalTimezone(todayKey) } },
+        ],
+      },
+      include: { barber: { select: { name: true } } },
+      orderBy: { startDate: 'asc' },
+    })
+
+    return NextResponse.json(timeOff)
+  } catch (error) {
+    console.error('Error fetching time off:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch time off' },
+      { status: 500 }
+    )
+  }
+}
+
+// Add time off; the response lists the booked appointments that fall inside it
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
+
+    const body = await request.json()
+    const validatedData = timeOffSchema.parse(body)
+
+    if (validatedData.barberId) {
+      const barber = await prisma.barber.findUnique({ where: { id: validatedData.barberId } })
+      if (!barber) {
+        return NextResponse.json(
+          { error: 'Barber not found' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const timeOff = await prisma.timeOff.create({
+      data: {
+        barberId: validatedData.barberId ?? null,
+        startDate: parseDateInLocalTimezone(validatedData.startDate),
+        endDate: parseDateInLocalTimezone(validatedData.endDate ?? validatedData.startDate),
+        startTime: validatedData.startTime ?? null,
+        endTime: validatedData.endTime ?? null,
+        recurring: validatedData.recurring,
+        reason: validatedData.reason || null,
+      },
+      include: { barber: { select: { name: true } } },
+    })
+
+    const conflicts = await findTimeOffConflicts(timeOff)
+
+    return NextResponse.json({ timeOff, conflicts }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating time off:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: (error as any).errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create time off' },
+      { status: 500 }
+    )
+  }
+}
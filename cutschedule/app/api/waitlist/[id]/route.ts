@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { offerOpenings } from '@/lib/waitlist'
+
+// Take a client off the waitlist; a time held for them goes to the next in line
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.STAFF)
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    const entry = await prisma.waitlistEntry.findUnique({ where: { id } })
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Waitlist entry not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.$transaction([
+      prisma.waitlistEntry.update({
+        where: { id },
+        data: { status: 'removed' },
+      }),
+      prisma.waitlistOffer.updateMany({
+        where: { entryId: id, status: 'pending' },
+        data: { status: 'declined' },
+      }),
+    ])
+
+    await offerOpenings(entry.date)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing waitlist entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove waitlist entry' },
+      { status: 500 }
+    )
+  }
+}
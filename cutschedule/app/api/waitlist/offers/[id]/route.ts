@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { resolveService } from '@/lib/services'
+import { loadBarberDays, pickBarberDay } from '@/lib/availability'
+import { announceNewAppointment } from '@/lib/appointments'
+import { upsertClient, checkNoShowPolicy } from '@/lib/clients'
+import { createManageToken, verifyWaitlistOfferToken } from '@/lib/manage-token'
+import { declineWaitlistOffer } from '@/lib/waitlist'
+import { withBookingLock } from '@/lib/booking-lock'
+import { parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { formatInTimeZone } from 'date-fns-tz'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+
+// Public endpoints - the client reaches an offer through the signed link in the offer SMS
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    if (!verifyWaitlistOfferToken(request.nextUrl.searchParams.get('token'), id)) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 401 }
+      )
+    }
+
+    const offer = await prisma.waitlistOffer.findUnique({
+      where: { id },
+      include: {
+        barber: { select: { name: true } },
+        entry: { select: { clientName: true, service: { select: { name: true } } } },
+      },
+    })
+
+    if (!offer) {
+      return NextResponse.json(
+        { error: 'Offer not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      id: offer.id,
+      clientName: offer.entry.clientName,
+      serviceName: offer.entry.service?.name ?? null,
+      barberName: offer.barber?.name ?? null,
+      startTime: offer.startTime,
+      endTime: offer.endTime,
+      expiresAt: offer.expiresAt,
+      // Expired holds may not have been swept yet
+      status: offer.status === 'pending' && offer.expiresAt <= new Date() ? 'expired' : offer.status,
+    })
+  } catch (error) {
+    console.error('Error fetching waitlist offer:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch offer' },
+      { status: 500 }
+    )
+  }
+}
+
+// Accept the offer: book the held time for the waitlisted client
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    if (!verifyWaitlistOfferToken(request.nextUrl.searchParams.get('token'), id)) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 401 }
+      )
+    }
+
+    const offer = await prisma.waitlistOffer.findUnique({
+      where: { id },
+      include: { entry: true, barber: true },
+    })
+
+    if (!offer) {
+      return NextResponse.json(
+        { error: 'Offer not found' },
+        { status: 404 }
+      )
+    }
+
+    if (offer.status !== 'pending' || offer.expiresAt <= new Date()) {
+      return NextResponse.json(
+        { error: 'This offer is no longer available' },
+        { status: 410 }
+      )
+    }
+
+    // No-shows recorded after joining the waitlist: drop the client from it and pass the slot on
+    const noShowPolicy = await checkNoShowPolicy(offer.entry.phoneNumber)
+    if (!noShowPolicy.allowed) {
+      await prisma.waitlistEntry.updateMany({
+        where: { phoneNumber: offer.entry.phoneNumber, status: 'waiting' },
+        data: { status: 'removed' },
+      })
+      await declineWaitlistOffer(id)
+      return NextResponse.json(
+        { error: noShowPolicy.error },
+        { status: 403 }
+      )
+    }
+
+    const service = await resolveService(offer.entry.serviceId)
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Selected service is not available' },
+        { status: 400 }
+      )
+    }
+
+    const dateKey = businessDateKey(offer.startTime)
+    const appointmentDate = parseDateInLocalTimezone(dateKey)
+    const time = formatInTimeZone(offer.startTime, BUSINESS_TIME_ZONE, 'HH:mm')
+    const client = await upsertClient(offer.entry.phoneNumber, offer.entry.clientName)
+
+    // Check, claim and book under the day's and the client's locks, like any other booking
+    const booking = await withBookingLock(dateKey, async (tx) => {
+      // Same rule as regular booking: one upcoming appointment per phone number
+      const existingAppointment = await tx.appointment.findFirst({
+        where: {
+          phoneNumber: offer.entry.phoneNumber,
+          OR: [
+            { status: 'confirmed' },
+            { status: 'pending_payment', paymentExpiresAt: { gt: new Date() } },
+          ],
+          startTime: { gte: new Date() },
+        },
+      })
+      if (existingAppointment) {
+        return { error: 'You already have an upcoming appointment', status: 400 }
+      }
+
+      // The hold keeps others out, but staff could have changed the schedule since
+      const barberDays = await loadBarberDays(appointmentDate, {
+        barberId: offer.barberId,
+        excludeWaitlistOfferId: offer.id,
+        db: tx,
+      })
+      const pick = pickBarberDay(barberDays, time, offer.startTime, offer.endTime, service.bufferMinutes)
+      if ('error' in pick) {
+        return { error: 'This time is no longer available', status: 409 }
+      }
+
+      // Claim the offer first so a double click can't book twice
+      const claimed = await tx.waitlistOffer.updateMany({
+        where: { id, status: 'pending', expiresAt: { gt: new Date() } },
+        data: { status: 'accepted' },
+      })
+      if (claimed.count === 0) {
+        return { error: 'This offer is no longer available', status: 410 }
+      }
+
+      const appointment = await tx.appointment.create({
+        data: {
+          clientName: offer.entry.clientName,
+          phoneNumber: offer.entry.phoneNumber,
+          date: appointmentDate,
+          startTime: offer.startTime,
+          endTime: offer.endTime,
+          status: 'confirmed',
+          serviceId: service.id,
+          barberId: offer.barberId,
+          clientId: client.id,
+        },
+        include: { barber: { select: { name: true } } },
+      })
+
+      // The client is booked, so stop offering them other days as well
+      await tx.waitlistOffer.update({
+        where: { id },
+        data: { appointmentId: appointment.id },
+      })
+      await tx.waitlistEntry.update({
+        where: { id: offer.entryId },
+        data: { status: 'booked' },
+      })
+      await tx.waitlistEntry.updateMany({
+        where: { phoneNumber: offer.entry.phoneNumber, status: 'waiting' },
+        data: { status: 'removed' },
+      })
+      return { appointment }
+    }, { phoneNumber: offer.entry.phoneNumber })
+
+    if ('error' in booking) {
+      return NextResponse.json(
+        { error: booking.error },
+        { status: booking.status }
+      )
+    }
+
+    const appointment = booking.appointment
+    await announceNewAppointment(appointment, service.name, offer.barber?.googleCalendarId)
+
+    return NextResponse.json({ ...appointment, manageToken: createManageToken(appointment) }, { status: 201 })
+  } catch (error) {
+    console.error('Error accepting waitlist offer:', error)
+    return NextResponse.json(
+      { error: 'Failed to book this time' },
+      { status: 500 }
+    )
+  }
+}
+
+// Decline the offer so the next client in line is offered the time right away
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    if (!verifyWaitlistOfferToken(request.nextUrl.searchParams.get('token'), id)) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 401 }
+      )
+    }
+
+    await declineWaitlistOffer(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error declining waitlist offer:', error)
+    return NextResponse.json(
+      { error: 'Failed to decline offer' },
+      { status: 500 }
+    )
+  }
+}
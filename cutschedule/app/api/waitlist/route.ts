@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addDays, format } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
+import { prisma } from '@/lib/db'
+import { waitlistJoinSchema } from '@/lib/utils/validation'
+import { getBusinessDayRange, parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
+import { resolveService } from '@/lib/services'
+import { resolveBarber } from '@/lib/barbers'
+import { offerOpenings } from '@/lib/waitlist'
+import { checkNoShowPolicy } from '@/lib/clients'
+import { getBusinessSettings } from '@/lib/business-settings'
+
+// Admin view of everyone waiting from today onwards, with the offers they were sent
+export async function GET() {
+  try {
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
+
+    const todayKey = format(toZonedTime(new Date(), BUSINESS_TIME_ZONE), 'yyyy-MM-dd')
+    const entries = await prisma.waitlistEntry.findMany({
+      where: {
+        date: { gte: parseDateInLocalTimezone(todayKey) },
+        status: { in: ['waiting', 'booked'] },
+      },
+      include: {
+        service: { select: { name: true } },
+        barber: { select: { name: true } },
+        offers: {
+          include: { barber: { select: { name: true } } },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    // Lapsed offers read as expired here; the cron moves them on to the next person
+    const now = new Date()
+    return NextResponse.json(entries.map(entry => ({
+      ...entry,
+      offers: entry.offers.map(offer =>
+        offer.status === 'pending' && offer.expiresAt <= now ? { ...offer, status: 'expired' } : offer
+      ),
+    })))
+  } catch (error) {
+    console.error('Error fetching waitlist:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch waitlist' },
+      { status: 500 }
+    )
+  }
+}
+
+// Public endpoint - the booking page adds clients when the day they want is full
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = waitlistJoinSchema.parse(body)
+
+    // Offers book online, so clients who have to call in cannot wait for one either
+    const noShowPolicy = await checkNoShowPolicy(validatedData.phoneNumber)
+    if (!noShowPolicy.allowed) {
+      return NextResponse.json(
+        { error: noShowPolicy.error },
+        { status: 403 }
+      )
+    }
+
+    const service = await resolveService(validatedData.serviceId)
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Selected service is not available' },
+        { status: 400 }
+      )
+    }
+
+    const barber = await resolveBarber(validatedData.barberId)
+    if (barber === null) {
+      return NextResponse.json(
+        { error: 'Selected barber is not available' },
+        { status: 400 }
+      )
+    }
+
+    const todayZoned = toZonedTime(new Date(), BUSINESS_TIME_ZONE)
+    const todayKey = format(todayZoned, 'yyyy-MM-dd')
+    const { maxAdvanceDays } = await getBusinessSettings()
+    const lastKey = format(addDays(todayZoned, maxAdvanceDays), 'yyyy-MM-dd')
+    const dateKeys = Array.from(new Set(validatedData.dates)).sort()
+    if (dateKeys.some(dateKey => dateKey < todayKey || dateKey > lastKey)) {
+      return NextResponse.json(
+        { error: `Waitlist dates must be within the next ${maxAdvanceDays} days` },
+        { status: 400 }
+      )
+    }
+
+    const fields = {
+      clientName: validatedData.clientName,
+      earliestTime: validatedData.earliestTime ?? null,
+      latestTime: validatedData.latestTime ?? null,
+      serviceId: service.id,
+      barberId: barber?.id ?? null,
+    }
+
+    // Joining again for a day updates the existing entry and keeps its place in line
+    for (const dateKey of dateKeys) {
+      const date = parseDateInLocalTimezone(dateKey)
+      const { start, endExclusive } = getBusinessDayRange(date)
+      const existing = await prisma.waitlistEntry.findFirst({
+        where: {
+          phoneNumber: validatedData.phoneNumber,
+          date: { gte: start, lt: endExclusive },
+          status: 'waiting',
+        },
+      })
+
+      if (existing) {
+        await prisma.waitlistEntry.update({ where: { id: existing.id }, data: fields })
+      } else {
+        await prisma.waitlistEntry.create({
+          data: { ...fields, phoneNumber: validatedData.phoneNumber, date },
+        })
+      }
+    }
+
+    // A time may have opened up since the client last looked
+    for (const dateKey of dateKeys) {
+      try {
+        await offerOpenings(parseDateInLocalTimezone(dateKey))
+      } catch (error) {
+        console.error(`Error offering openings on ${dateKey}:`, error)
+      }
+    }
+
+    return NextResponse.json({ success: true, dates: dateKeys }, { status: 201 })
+  } catch (error) {
+    console.error('Error joining waitlist:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: (error as any).errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to join waitlist' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getPaymentProvider, type PaymentEvent } from '@/lib/payment-providers'
+import { recordPaymentFailed, recordPaymentSucceeded } from '@/lib/payments'
+import { announceGroupBooking, announceNewAppointment } from '@/lib/appointments'
+
+/**
+ * Webhook for the configured payment provider (PAYMENT_PROVIDER).
+ * A paid checkout confirms the held appointment and sends the usual confirmation;
+ * a failed or expired one gives the slot back.
+ */
+export async function POST(request: NextRequest) {
+  const provider = getPaymentProvider()
+  if (!provider) {
+    return NextResponse.json(
+      { error: 'Online payments are not enabled' },
+      { status: 404 }
+    )
+  }
+
+  // Signatures are computed over the exact bytes sent, so read the body as text
+  const rawBody = await request.text()
+  let event: PaymentEvent | null
+  try {
+    event = provider.parseWebhook(rawBody, request.headers)
+  } catch (error) {
+    console.warn('Rejected payment webhook call:', error)
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 400 }
+    )
+  }
+
+  if (!event) {
+    return NextResponse.json({ received: true })
+  }
+
+  try {
+    if (event.type === 'failed') {
+      await recordPaymentFailed(event.providerRef)
+      return NextResponse.json({ received: true })
+    }
+
+    const result = await recordPaymentSucceeded(event.providerRef)
+    console.log(`[Payments] ${event.providerRef} paid: ${result.outcome}`)
+
+    if (result.outcome === 'confirmed' && result.appointmentId) {
+      const appointment = await prisma.appointment.findUnique({
+        where: { id: result.appointmentId },
+        include: { service: true, barber: true },
+      })
+      if (appointment?.groupId) {
+        const group = await prisma.appointment.findMany({
+          where: { groupId: appointment.groupId },
+          include: { barber: true },
+          orderBy: { startTime: 'asc' },
+        })
+        await announceGroupBooking(group, appointment.service?.name ?? 'Haircut', appointment.barber?.googleCalendarId)
+      } else if (appointment) {
+        await announceNewAppointment(appointment, appointment.service?.name ?? 'Haircut', appointment.barber?.googleCalendarId)
+      }
+    }
+
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    // A 5xx makes the provider retry the delivery
+    console.error('Error handling payment webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to process payment event' },
+      { status: 500 }
+    )
+  }
+}
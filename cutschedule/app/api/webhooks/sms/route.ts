@@ -1,88 +1,211 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { validateRequest } from 'twilio'
+import { formatInTimeZone } from 'date-fns-tz'
 import { prisma } from '@/lib/db'
+import { recordOptIn, recordOptOut } from '@/lib/sms-consent'
+import { logSMS } from '@/lib/sms'
+import { cancelAppointment, findNextUpcomingAppointment, isPastSelfServiceDeadline, lateChangeMessage } from '@/lib/appointments'
+import { findNextOpenSlots } from '@/lib/availability'
+import { serviceForAppointment } from '@/lib/services'
+import { barberDisplayName } from '@/lib/barbers'
+import { createManageToken } from '@/lib/manage-token'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { BUSINESS_TIME_ZONE, formatBusinessDateLong, formatBusinessTime } from '@/lib/utils/timezone'
+
+// Twilio's default opt-out and opt-in keywords
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'END', 'QUIT']
+const OPT_IN_KEYWORDS = ['START', 'SUBSCRIBE', 'YES', 'UNSTOP']
+
+// Appointment replies. CANCEL is also a Twilio default opt-out keyword, so it
+// must be removed from the Messaging Service's opt-out list for this to reach us.
+const CONFIRM_KEYWORDS = ['C', 'CONFIRM']
+const CANCEL_KEYWORDS = ['CANCEL']
+const RESCHEDULE_KEYWORDS = ['RESCHEDULE', 'R']
+
+const RESCHEDULE_SUGGESTIONS = 3
+
+type IncomingSMSType = 'opt-out' | 'opt-in' | 'confirm' | 'cancel' | 'reschedule' | 'received'
 
 /**
  * Webhook handler for incoming SMS messages from Twilio
- * Handles STOP/START commands for opt-out management
+ * Handles STOP/START commands for opt-out management and
+ * confirm/cancel/reschedule replies for the sender's next appointment
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse Twilio's form data
     const formData = await request.formData()
-    const from = formData.get('From') as string
-    const body = formData.get('Body') as string
-    const messageSid = formData.get('MessageSid') as string
+    const params: Record<string, string> = {}
+    formData.forEach((value, key) => {
+      params[key] = String(value)
+    })
+
+    if (!isValidTwilioRequest(request, params)) {
+      console.warn('Rejected SMS webhook call with an invalid Twilio signature')
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const from = params.From
+    const body = params.Body
+    const messageSid = params.MessageSid
 
     // Log incoming message
     console.log('Incoming SMS:', { from, body, messageSid })
 
     // Normalize the message body
-    const normalizedBody = body?.trim().toUpperCase()
+    const normalizedBody = body?.trim().toUpperCase() ?? ''
 
     // Handle STOP/UNSUBSCRIBE commands
-    if (normalizedBody === 'STOP' || normalizedBody === 'UNSUBSCRIBE' || normalizedBody === 'END' || normalizedBody === 'QUIT') {
-      // Mark customer as opted out in database
-      // Note: You may want to create an opt-out table or add a field to track this
+    if (OPT_OUT_KEYWORDS.includes(normalizedBody)) {
+      // Mark customer as opted out so marketing messages are suppressed
       console.log(`Customer ${from} opted out`)
+      await recordOptOut(from)
 
-      // Twilio automatically handles STOP responses, but you can log it
+      // Twilio automatically handles STOP responses, but keep our own history
       await logIncomingSMS(from, body, messageSid, 'opt-out')
-
-      // Return TwiML response (optional - Twilio handles STOP automatically)
-      return new NextResponse(
-        '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
-        {
-          headers: {
-            'Content-Type': 'text/xml',
-          },
-        }
-      )
+      return twimlResponse()
     }
 
     // Handle START/SUBSCRIBE commands
-    if (normalizedBody === 'START' || normalizedBody === 'SUBSCRIBE' || normalizedBody === 'YES') {
+    if (OPT_IN_KEYWORDS.includes(normalizedBody)) {
       // Mark customer as opted back in
       console.log(`Customer ${from} opted back in`)
+      await recordOptIn(from)
       await logIncomingSMS(from, body, messageSid, 'opt-in')
+      return twimlResponse()
+    }
 
-      return new NextResponse(
-        '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
-        {
-          headers: {
-            'Content-Type': 'text/xml',
-          },
-        }
-      )
+    if (CONFIRM_KEYWORDS.includes(normalizedBody)) {
+      await logIncomingSMS(from, body, messageSid, 'confirm')
+      return replyTo(from, await handleConfirm(from))
+    }
+
+    if (CANCEL_KEYWORDS.includes(normalizedBody)) {
+      await logIncomingSMS(from, body, messageSid, 'cancel')
+      return replyTo(from, await handleCancel(from))
+    }
+
+    if (RESCHEDULE_KEYWORDS.includes(normalizedBody)) {
+      await logIncomingSMS(from, body, messageSid, 'reschedule')
+      return replyTo(from, await handleReschedule(from))
     }
 
     // Log other messages
     await logIncomingSMS(from, body, messageSid, 'received')
 
     // Return empty TwiML response (no auto-reply)
-    return new NextResponse(
-      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
-      {
-        headers: {
-          'Content-Type': 'text/xml',
-        },
-      }
-    )
+    return twimlResponse()
   } catch (error) {
     console.error('Error processing incoming SMS webhook:', error)
 
     // Return empty TwiML even on error to prevent Twilio retries
-    return new NextResponse(
-      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'text/xml',
-        },
-      }
-    )
+    return twimlResponse()
   }
 }
 
+async function handleConfirm(from: string): Promise<string> {
+  const appointment = await findNextUpcomingAppointment(from)
+  if (!appointment) return noAppointmentReply()
+
+  const settings = await getBusinessSettings()
+  await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: { clientConfirmedAt: new Date() },
+  })
+
+  return `Thanks ${appointment.clientName}! You're confirmed for ${formatBusinessDateLong(appointment.startTime)} at ${formatBusinessTime(appointment.startTime)} with ${barberDisplayName(appointment.barber, settings.businessName)}. See you then!`
+}
+
+// The cancellation SMS sent by cancelAppointment is the reply, so no TwiML message here
+async function handleCancel(from: string): Promise<string | undefined> {
+  const appointment = await findNextUpcomingAppointment(from)
+  if (!appointment) return noAppointmentReply()
+  if (isPastSelfServiceDeadline(appointment.startTime)) return lateChangeMessage((await getBusinessSettings()).phone)
+
+  await cancelAppointment(appointment.id)
+  return undefined
+}
+
+async function handleReschedule(from: string): Promise<string> {
+  const appointment = await findNextUpcomingAppointment(from)
+  if (!appointment) return noAppointmentReply()
+
+  const settings = await getBusinessSettings()
+  if (isPastSelfServiceDeadline(appointment.startTime)) return lateChangeMessage(settings.phone)
+
+  // Suggest times that fit the booked service with the same barber
+  const service = serviceForAppointment(appointment)
+  const openSlots = await findNextOpenSlots({
+    barberId: appointment.barberId,
+    durationMinutes: service.durationMinutes,
+    bufferMinutes: service.bufferMinutes,
+    limit: RESCHEDULE_SUGGESTIONS,
+    excludeAppointmentId: appointment.id,
+  })
+
+  const manageLink = `${settings.bookingUrl}/manage-appointment?token=${createManageToken(appointment)}`
+
+  if (openSlots.length === 0) {
+    return `Sorry, there are no open times in the next ${settings.maxAdvanceDays} days. Call us at ${settings.phone} or manage your appointment here: ${manageLink}`
+  }
+
+  const times = openSlots
+    .map((slot) => formatInTimeZone(slot, BUSINESS_TIME_ZONE, 'EEE MMM d, h:mm a'))
+    .join('; ')
+
+  return `Next open times with ${barberDisplayName(appointment.barber, settings.businessName)}: ${times}. To move your appointment, pick a time here: ${manageLink}`
+}
+
+async function noAppointmentReply(): Promise<string> {
+  return `We couldn't find an upcoming appointment for this number. Book anytime at ${(await getBusinessSettings()).bookingUrl}`
+}
+
+// TwiML replies bypass sendSMS, so log them here to keep inbox threads complete
+async function replyTo(from: string, message?: string) {
+  if (message) {
+    await logSMS('inbound', from, 'auto_reply', 'sent', undefined, message)
+  }
+  return twimlResponse(message)
+}
+
+function twimlResponse(message?: string) {
+  const content = message ? `<Message>${escapeXml(message)}</Message>` : ''
+  return new NextResponse(
+    `<?xml version="1.0" encoding="UTF-8"?><Response>${content}</Response>`,
+    {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/xml',
+      },
+    }
+  )
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Replies can cancel appointments, so only accept requests signed by Twilio.
+ * Skipped when TWILIO_AUTH_TOKEN is unset (local development).
+ */
+function isValidTwilioRequest(request: NextRequest, params: Record<string, string>): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  if (!authToken) return true
+
+  const signature = request.headers.get('x-twilio-signature')
+  if (!signature) return false
+
+  // Behind a proxy the public URL Twilio signed can differ from request.url
+  const url = process.env.TWILIO_WEBHOOK_URL || request.url
+  return validateRequest(authToken, signature, url, params)
+}
+
 /**
  * Log incoming SMS messages
  */
@@ -90,27 +213,23 @@ async function logIncomingSMS(
   from: string,
   body: string,
   messageSid: string,
-  type: 'opt-out' | 'opt-in' | 'received'
+  type: IncomingSMSType
 ) {
   try {
-    // You could create a separate table for incoming messages
-    // For now, just console log
     console.log(`Incoming SMS [${type}]:`, {
       from,
-      body,
       messageSid,
       timestamp: new Date().toISOString(),
     })
 
-    // Optional: Store in database
-    // await prisma.incomingSMS.create({
-    //   data: {
-    //     phoneNumber: from,
-    //     message: body,
-    //     messageSid,
-    //     type,
-    //   },
-    // })
+    await prisma.incomingSMS.create({
+      data: {
+        phoneNumber: from,
+        message: body || '',
+        messageSid: messageSid || null,
+        type,
+      },
+    })
   } catch (error) {
     console.error('Error logging incoming SMS:', error)
   }
@@ -1,36 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { requireRole } from '@/lib/auth-guard'
+import { ADMIN_ROLES } from '@/lib/constants'
 import { prisma } from '@/lib/db'
+import { workingHoursSchema } from '@/lib/utils/validation'
 
 export async function GET(request: NextRequest) {
   try {
-    // Verify authentication - rely on OAuth allowed test users
-    const session = await getServerSession(authOptions)
+    const auth = await requireRole(ADMIN_ROLES.VIEWER)
+    if (!auth.ok) return auth.response
 
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    // Hours are per barber; without a barberId the unassigned (legacy) schedule is returned
+    const barberId = request.nextUrl.searchParams.get('barberId') || null
 
-    const workingHours = await prisma.workingHours.findMany({
-      orderBy: {
-        dayOfWeek: 'asc'
-      }
-    })
+    const [workingHours, breaks] = await Promise.all([
+      prisma.workingHours.findMany({
+        where: { barberId },
+        orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+      }),
+      prisma.workingBreak.findMany({
+        where: { barberId },
+        orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+      }),
+    ])
 
     // Ensure all days exist with defaults
     const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
     const allDays = daysOfWeek.map((day, index) => {
-      const existing = workingHours.find(wh => wh.dayOfWeek === index)
-      return existing || {
-        id: null,
+      const shifts = workingHours.filter(wh => wh.dayOfWeek === index)
+      if (shifts.length === 0) {
+        return {
+          dayOfWeek: index,
+          isActive: index >= 1 && index <= 5, // Mon-Fri active by default
+          intervals: [{ startTime: '09:00', endTime: '18:00' }],
+          breaks: [],
+        }
+      }
+      return {
         dayOfWeek: index,
-        startTime: '09:00',
-        endTime: '18:00',
-        isActive: index >= 1 && index <= 5, // Mon-Fri active by default
+        isActive: shifts.some(shift => shift.isActive),
+        intervals: shifts.map(({ startTime, endTime }) => ({ startTime, endTime })),
+        breaks: breaks
+          .filter(brk => brk.dayOfWeek === index)
+          .map(({ name, startTime, endTime }) => ({ name, startTime, endTime })),
       }
     })
 
@@ -46,60 +57,53 @@ export async function GET(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
-    // Verify authentication - rely on OAuth allowed test users
-    const session = await getServerSession(authOptions)
-
-    if (!session || !session.user || !session.user.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireRole(ADMIN_ROLES.ADMIN)
+    if (!auth.ok) return auth.response
 
     const body = await request.json()
-    const { days } = body
-
-    if (!Array.isArray(days)) {
-      return NextResponse.json({ error: 'Invalid data' }, { status: 400 })
-    }
+    const validatedData = workingHoursSchema.parse(body)
+    const barberId = validatedData.barberId || null
 
-    // Update each day's working hours
-    const updates = await Promise.all(
-      days.map(async (day) => {
-        const { dayOfWeek, startTime, endTime, isActive } = day
-
-        // Validate input
-        if (typeof dayOfWeek !== 'number' || dayOfWeek < 0 || dayOfWeek > 6) {
-          throw new Error('Invalid dayOfWeek')
-        }
-
-        if (!startTime || !endTime) {
-          throw new Error('Start and end times are required')
-        }
-
-        // Check if record exists
-        const existing = await prisma.workingHours.findUnique({
-          where: { dayOfWeek }
-        })
-
-        if (existing) {
-          // Update existing
-          return await prisma.workingHours.update({
-            where: { dayOfWeek },
-            data: { startTime, endTime, isActive }
-          })
-        } else {
-          // Create new
-          return await prisma.workingHours.create({
-            data: { dayOfWeek, startTime, endTime, isActive }
-          })
-        }
-      })
+    // Each day sent replaces that day's shifts and breaks
+    await prisma.$transaction(
+      validatedData.days.flatMap((day) => [
+        prisma.workingHours.deleteMany({ where: { barberId, dayOfWeek: day.dayOfWeek } }),
+        prisma.workingBreak.deleteMany({ where: { barberId, dayOfWeek: day.dayOfWeek } }),
+        prisma.workingHours.createMany({
+          data: day.intervals.map((interval) => ({
+            barberId,
+            dayOfWeek: day.dayOfWeek,
+            startTime: interval.startTime,
+            endTime: interval.endTime,
+            isActive: day.isActive,
+          })),
+        }),
+        prisma.workingBreak.createMany({
+          data: day.breaks.map((brk) => ({
+            barberId,
+            dayOfWeek: day.dayOfWeek,
+            name: brk.name,
+            startTime: brk.startTime,
+            endTime: brk.endTime,
+          })),
+        }),
+      ])
     )
 
-    return NextResponse.json({ success: true, data: updates })
+    return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error updating working hours:', error)
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: (error as any).errors
+        },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Failed to update working hours' },
       { status: 500 }
@@ -4,10 +4,11 @@ import { useEffect, useState, Suspense } from "react"
 import { useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { CheckCircle, Calendar, Clock, MapPin, Phone, MessageSquare, ArrowLeft, XCircle } from "lucide-react"
+import { CheckCircle, Calendar, CalendarPlus, Clock, MapPin, Phone, MessageSquare, ArrowLeft, XCircle } from "lucide-react"
 import Link from "next/link"
-import { APP_CONFIG } from "@/lib/constants"
-import { formatETDateLong, formatETTime } from '@/lib/utils/timezone'
+import { useBusinessSettings } from "@/hooks/use-business-settings"
+import { getDurationMinutes } from "@/lib/utils/dates"
+import { businessTimeZoneName, formatClientTime, formatBusinessDateLong, formatBusinessTime } from '@/lib/utils/timezone'
 
 interface Appointment {
   id: string
@@ -17,27 +18,39 @@ interface Appointment {
   startTime: string
   endTime: string
   status: string
+  service?: { id: string; name: string; durationMinutes: number; priceCents: number } | null
+  barber?: { id: string; name: string } | null
 }
 
 function ConfirmationContent() {
+  const { settings } = useBusinessSettings()
   const searchParams = useSearchParams()
-  const appointmentId = searchParams?.get('id') || null
+  const token = searchParams?.get('token') || null
   const [appointment, setAppointment] = useState<Appointment | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>("")
 
   useEffect(() => {
-    if (appointmentId) {
-      fetchAppointment(appointmentId)
+    if (token) {
+      fetchAppointment(token)
     } else {
-      setError("No appointment ID provided")
+      setError("This link is missing or incomplete")
       setLoading(false)
     }
-  }, [appointmentId])
+  }, [token])
 
-  const fetchAppointment = async (id: string) => {
+  // Back from the payment page before the provider's webhook arrived: check again shortly
+  useEffect(() => {
+    if (!token || appointment?.status !== 'pending_payment') return
+    const timer = setTimeout(() => fetchAppointment(token), 3000)
+    return () => clearTimeout(timer)
+  }, [token, appointment])
+
+  const fetchAppointment = async (manageToken: string) => {
     try {
-      const response = await fetch(`/api/appointments/${id}`)
+      // Tokens are "<appointmentId>.<expiry>.<signature>"
+      const id = manageToken.split('.')[0]
+      const response = await fetch(`/api/appointments/${id}?token=${encodeURIComponent(manageToken)}`)
       if (!response.ok) {
         throw new Error('Failed to fetch appointment details')
       }
@@ -66,8 +79,8 @@ function ConfirmationContent() {
     }
 
     return {
-      date: formatETDateLong(startTime),
-      time: formatETTime(startTime)
+      date: formatBusinessDateLong(startTime),
+      time: formatBusinessTime(startTime)
     }
   }
 
@@ -81,7 +94,7 @@ function ConfirmationContent() {
       return 'Invalid Time'
     }
 
-    return formatETTime(endTime)
+    return formatBusinessTime(endTime)
   }
 
   if (loading) {
@@ -118,8 +131,42 @@ function ConfirmationContent() {
     )
   }
 
+  if (appointment.status === 'pending_payment' || appointment.status === 'cancelled') {
+    const pending = appointment.status === 'pending_payment'
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto">
+          <Card className="text-center">
+            <CardContent className="pt-6">
+              {pending ? (
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+              ) : (
+                <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+              )}
+              <h1 className="text-2xl font-bold mb-2">
+                {pending ? 'Confirming Your Payment' : 'Appointment Not Booked'}
+              </h1>
+              <p className="text-muted-foreground mb-4">
+                {pending
+                  ? 'Your time is held while we wait for the payment to go through. This page updates automatically.'
+                  : 'This appointment was cancelled or its deposit was not paid in time.'}
+              </p>
+              {!pending && (
+                <Button asChild>
+                  <Link href="/book">Book Again</Link>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
   const { date, time } = formatDateTime(appointment.date, appointment.startTime)
   const endTime = formatEndTime(appointment.endTime)
+  // Shown when the client's clock reads differently from the shop's
+  const localStartTime = formatClientTime(appointment.startTime)
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -168,8 +215,11 @@ function ConfirmationContent() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Time</p>
-                  <p className="text-lg font-semibold">{time} - {endTime}</p>
-                  <p className="text-sm text-muted-foreground">({APP_CONFIG.APPOINTMENT_DURATION} minutes)</p>
+                  <p className="text-lg font-semibold">{time} - {endTime}{localStartTime && ` ${businessTimeZoneName(appointment.startTime)}`}</p>
+                  {localStartTime && (
+                    <p className="text-sm text-muted-foreground">That&apos;s {localStartTime} your time</p>
+                  )}
+                  <p className="text-sm text-muted-foreground">{appointment.service?.name ?? 'Haircut'}{appointment.barber ? ` with ${appointment.barber.name}` : ''} ({getDurationMinutes(appointment.startTime, appointment.endTime)} minutes)</p>
                 </div>
               </div>
             </div>
@@ -194,11 +244,11 @@ function ConfirmationContent() {
           <CardContent className="space-y-4">
             <div>
               <p className="text-sm font-medium text-muted-foreground">Address</p>
-              <p className="text-lg">{APP_CONFIG.BARBER_ADDRESS}</p>
+              <p className="text-lg">{settings.address}</p>
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">Phone</p>
-              <p className="text-lg">{APP_CONFIG.BARBER_PHONE}</p>
+              <p className="text-lg">{settings.phone}</p>
             </div>
           </CardContent>
         </Card>
@@ -253,13 +303,13 @@ function ConfirmationContent() {
               <h3 className="font-semibold mb-4 text-center">Manage Your Appointment</h3>
               <div className="flex flex-col sm:flex-row gap-3">
                 <Button asChild className="flex-1">
-                  <Link href={`/manage-appointment/reschedule?id=${appointment.id}`}>
+                  <Link href={`/manage-appointment/reschedule?token=${encodeURIComponent(token || '')}`}>
                     <Clock className="w-4 h-4 mr-2" />
                     Reschedule Appointment
                   </Link>
                 </Button>
                 <Button asChild variant="outline" className="flex-1 border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground">
-                  <Link href={`/manage-appointment?phone=${encodeURIComponent(appointment.phoneNumber)}`}>
+                  <Link href={`/manage-appointment?token=${encodeURIComponent(token || '')}`}>
                     <XCircle className="w-4 h-4 mr-2" />
                     Cancel Appointment
                   </Link>
@@ -270,12 +320,18 @@ function ConfirmationContent() {
         </div>
 
         {/* Action Buttons */}
-        <div className="mt-6 flex gap-4 justify-center">
+        <div className="mt-6 flex flex-wrap gap-4 justify-center">
+          <Button variant="outline" asChild>
+            <a href={`/api/appointments/${appointment.id}/ics?token=${encodeURIComponent(token || '')}`} download>
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              Add to Calendar
+            </a>
+          </Button>
           <Button asChild>
             <Link href="/">Book Another Appointment</Link>
           </Button>
           <Button variant="outline" asChild>
-            <Link href={`tel:${APP_CONFIG.BARBER_PHONE}`}>Call Us</Link>
+            <Link href={`tel:${settings.phone}`}>Call Us</Link>
           </Button>
         </div>
       </div>
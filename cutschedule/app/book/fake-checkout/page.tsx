@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { CreditCard } from "lucide-react"
+import { formatPrice } from "@/lib/utils"
+
+// Checkout page for the fake payment provider (PAYMENT_PROVIDER=fake, development only)
+function FakeCheckoutContent() {
+  const searchParams = useSearchParams()
+  const providerRef = searchParams?.get('ref') || ''
+  const amountCents = Number(searchParams?.get('amount') || 0)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string>("")
+
+  const finish = async (type: 'succeeded' | 'failed') => {
+    setSubmitting(true)
+    setError("")
+    try {
+      const response = await fetch('/api/webhooks/payments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, providerRef }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Payment webhook failed')
+      }
+
+      // Stay on this site whatever origin the return URL was built with
+      const target = new URL(searchParams?.get(type === 'succeeded' ? 'success' : 'cancel') || '/', window.location.origin)
+      window.location.href = `${target.pathname}${target.search}`
+    } catch (err) {
+      console.error('Fake checkout failed:', err)
+      setError(err instanceof Error ? err.message : 'Payment failed')
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CreditCard className="w-5 h-5" />
+              Test Checkout
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground">
+              No real payment is taken. Choose how this checkout ends.
+            </p>
+            <p className="text-2xl font-bold">{formatPrice(amountCents)}</p>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex gap-2">
+              <Button onClick={() => finish('succeeded')} disabled={submitting || !providerRef} className="flex-1">
+                Pay
+              </Button>
+              <Button variant="outline" onClick={() => finish('failed')} disabled={submitting || !providerRef} className="flex-1">
+                Cancel Payment
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default function FakeCheckoutPage() {
+  return (
+    <Suspense fallback={null}>
+      <FakeCheckoutContent />
+    </Suspense>
+  )
+}
@@ -12,10 +12,9 @@ import { APP_CONFIG } from "@/lib/constants"
 
 export default function BookingPage() {
   const router = useRouter()
-  const [bookingStatus, setBookingStatus] = useState<'form' | 'success' | 'error'>('form')
+  const [bookingStatus, setBookingStatus] = useState<'form' | 'payment' | 'success' | 'error'>('form')
   const [errorMessage, setErrorMessage] = useState<string>("")
   const [appointmentId, setAppointmentId] = useState<string>("")
-  const [failedPhoneNumber, setFailedPhoneNumber] = useState<string>("")
 
   const handleBookingSubmit = async (data: AppointmentBookingData) => {
     try {
@@ -29,18 +28,24 @@ export default function BookingPage() {
 
       if (!response.ok) {
         const errorData = await response.json()
-        // Store phone number if booking fails
-        setFailedPhoneNumber(data.phoneNumber)
         throw new Error(errorData.error || 'Failed to book appointment')
       }
 
       const result = await response.json()
       setAppointmentId(result.id)
+
+      // A deposit is due: the slot is held while the client pays with the provider
+      if (result.checkoutUrl) {
+        setBookingStatus('payment')
+        window.location.href = result.checkoutUrl
+        return
+      }
+
       setBookingStatus('success')
 
       // Redirect to confirmation page after a short delay
       setTimeout(() => {
-        router.push(`/book/confirmation?id=${result.id}`)
+        router.push(`/book/confirmation?token=${encodeURIComponent(result.manageToken)}`)
       }, 2000)
 
     } catch (error) {
@@ -50,6 +55,24 @@ export default function BookingPage() {
     }
   }
 
+  if (bookingStatus === 'payment') {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto">
+          <Card className="text-center">
+            <CardContent className="pt-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+              <h1 className="text-2xl font-bold mb-2">Your Time Is Held</h1>
+              <p className="text-muted-foreground">
+                Taking you to the payment page to pay your deposit...
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
   if (bookingStatus === 'success') {
     return (
       <div className="container mx-auto px-4 py-16">
@@ -97,7 +120,7 @@ export default function BookingPage() {
                     asChild
                     className="w-full"
                   >
-                    <Link href={failedPhoneNumber ? `/manage-appointment?phone=${encodeURIComponent(failedPhoneNumber)}` : '/manage-appointment'}>
+                    <Link href="/manage-appointment">
                       View/Manage Appointment
                     </Link>
                   </Button>
@@ -148,13 +171,13 @@ export default function BookingPage() {
         <div className="text-center">
           <h1 className="text-3xl font-bold mb-2">Book Your Appointment</h1>
           <p className="text-lg text-muted-foreground">
-            Schedule your Haircut with Neil
+            Schedule your Haircut
           </p>
         </div>
       </div>
 
       {/* Booking Form */}
-      <BookingForm onSubmit={handleBookingSubmit} />
+      <BookingForm onSubmit={handleBookingSubmit} allowWaitlist allowGroup holdSlots suggestSoonest />
 
       {/* Additional Information */}
       <div className="mt-12 max-w-2xl mx-auto">
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import {
   Dialog,
   DialogContent,
@@ -14,10 +15,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { Calendar, Clock, MapPin, Phone, ArrowLeft, Search, Loader2, AlertCircle } from "lucide-react"
+import { Calendar, CalendarPlus, Clock, MapPin, Phone, ArrowLeft, Search, Loader2, AlertCircle, Repeat, Users } from "lucide-react"
 import Link from "next/link"
-import { formatETDateLong, formatETTime } from '@/lib/utils/timezone'
-import { APP_CONFIG } from "@/lib/constants"
+import { formatBusinessDateLong, formatBusinessTime } from '@/lib/utils/timezone'
+import { useBusinessSettings } from "@/hooks/use-business-settings"
+import { getDurationMinutes } from "@/lib/utils/dates"
 import { normalizePhoneNumber } from "@/lib/utils/validation"
 
 interface Appointment {
@@ -28,22 +30,73 @@ interface Appointment {
   startTime: string
   endTime: string
   status: string
+  service?: { id: string; name: string; durationMinutes: number; priceCents: number } | null
+  barber?: { id: string; name: string } | null
   googleEventId: string | null
+  // After this the client has to call to cancel or reschedule
+  changeDeadline?: string
+  series?: { id: string; intervalWeeks: number; status: string } | null
+  // Everyone else booked back-to-back in the same group booking
+  group?: { id: string; clientName: string; startTime: string; endTime: string; status: string }[]
 }
 
 function ManageAppointmentContent() {
+  const { settings } = useBusinessSettings()
   const searchParams = useSearchParams()
   const router = useRouter()
-  const phoneParam = searchParams?.get('phone')
+  const tokenParam = searchParams?.get('token')
 
-  const [phoneNumber, setPhoneNumber] = useState(phoneParam || '')
+  const [phoneNumber, setPhoneNumber] = useState('')
+  const [code, setCode] = useState('')
+  const [codeSent, setCodeSent] = useState(false)
+  const [manageToken, setManageToken] = useState<string | null>(tokenParam || null)
   const [appointment, setAppointment] = useState<Appointment | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string>("")
   const [showCancelDialog, setShowCancelDialog] = useState(false)
   const [cancelling, setCancelling] = useState(false)
+  const [endingSeries, setEndingSeries] = useState(false)
+  const [cancelWholeGroup, setCancelWholeGroup] = useState(true)
 
-  const handleSearch = useCallback(async () => {
+  const loadFromToken = useCallback(async (token: string) => {
+    setLoading(true)
+    setError("")
+
+    try {
+      // Tokens are "<appointmentId>.<expiry>.<signature>"
+      const appointmentId = token.split('.')[0]
+      const response = await fetch(`/api/appointments/${appointmentId}?token=${encodeURIComponent(token)}`)
+
+      if (!response.ok) {
+        setError(response.status === 401
+          ? "This link is invalid or has expired. Verify your phone number to continue."
+          : "We couldn't find this appointment.")
+        return
+      }
+
+      const data: Appointment = await response.json()
+      if (data.status !== 'confirmed' || new Date(data.startTime) <= new Date()) {
+        setError("This appointment is no longer active.")
+        return
+      }
+
+      setAppointment(data)
+    } catch (err) {
+      console.error('Error fetching appointment:', err)
+      setError('Failed to load appointment. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Open straight to the appointment when arriving from a manage link
+  useEffect(() => {
+    if (tokenParam && !appointment) {
+      loadFromToken(tokenParam)
+    }
+  }, [tokenParam, appointment, loadFromToken])
+
+  const handleSendCode = async () => {
     if (!phoneNumber.trim()) {
       setError("Please enter a phone number")
       return
@@ -51,96 +104,146 @@ function ManageAppointmentContent() {
 
     setLoading(true)
     setError("")
-    setAppointment(null)
 
     try {
-      const normalized = normalizePhoneNumber(phoneNumber)
-      const response = await fetch(`/api/appointments?phone=${encodeURIComponent(normalized)}&status=confirmed`)
+      const response = await fetch('/api/appointments/lookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber: normalizePhoneNumber(phoneNumber) })
+      })
+      const data = await response.json().catch(() => ({}))
 
       if (!response.ok) {
-        throw new Error('Failed to fetch appointment')
+        setError(data.error || 'Failed to send code. Please try again.')
+        return
       }
 
-      const appointments = await response.json()
+      setCodeSent(true)
+    } catch (err) {
+      console.error('Error requesting lookup code:', err)
+      setError('Failed to send code. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      if (!appointments || appointments.length === 0) {
-        setError("No upcoming appointment found for this phone number")
-        return
-      }
+  const handleVerifyCode = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError("Enter the 6-digit code from your text message")
+      return
+    }
 
-      // Filter for upcoming appointments only
-      const upcomingAppointments = appointments.filter((apt: Appointment) => {
-        // startTime is stored as an instant (UTC Date in DB),
-        // so compare directly to the current instant
-        const aptDate = new Date(apt.startTime)
-        return aptDate > new Date() && apt.status === 'confirmed'
+    setLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch('/api/appointments/lookup/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber: normalizePhoneNumber(phoneNumber), code: code.trim() })
       })
+      const data = await response.json().catch(() => ({}))
 
-      if (upcomingAppointments.length === 0) {
-        setError("No upcoming appointment found for this phone number")
+      if (!response.ok) {
+        setError(data.error || 'Failed to verify code. Please try again.')
         return
       }
 
-      // Since users can only have one appointment, take the first one
-      setAppointment(upcomingAppointments[0])
+      setAppointment(data.appointment)
+      setManageToken(data.manageToken)
+      router.replace(`/manage-appointment?token=${encodeURIComponent(data.manageToken)}`)
     } catch (err) {
-      console.error('Error fetching appointment:', err)
-      setError('Failed to find appointment. Please try again.')
+      console.error('Error verifying lookup code:', err)
+      setError('Failed to verify code. Please try again.')
     } finally {
       setLoading(false)
     }
-  }, [phoneNumber])
-
-  // Auto-search if phone number is in URL
-  useEffect(() => {
-    if (phoneParam && !appointment && !loading) {
-      handleSearch()
-    }
-  }, [phoneParam, appointment, loading, handleSearch])
+  }
 
   const handleCancelConfirm = async () => {
     if (!appointment) return
 
     setCancelling(true)
     try {
-      const response = await fetch(`/api/appointments/${appointment.id}`, {
+      const params = new URLSearchParams({ token: manageToken || '' })
+      if (groupBooked.length > 0 && cancelWholeGroup) params.set('group', 'all')
+      const response = await fetch(`/api/appointments/${appointment.id}?${params.toString()}`, {
         method: 'DELETE'
       })
 
+      const result = await response.json()
       if (!response.ok) {
-        throw new Error('Failed to cancel appointment')
+        throw new Error(result.error || 'Failed to cancel appointment')
       }
 
       setShowCancelDialog(false)
       setAppointment(null)
-      setPhoneNumber('')
 
       // Show success message and redirect
-      alert('Your appointment has been cancelled successfully. You will receive a confirmation SMS.')
+      const depositNote = result.deposit === 'refunded'
+        ? ' Your deposit will be refunded.'
+        : result.deposit === 'forfeited'
+          ? ' Because this was a late cancellation, your deposit was kept.'
+          : ''
+      alert(`Your appointment has been cancelled successfully. You will receive a confirmation SMS.${depositNote}`)
       router.push('/')
     } catch (err) {
       console.error('Error cancelling appointment:', err)
-      alert('Failed to cancel appointment. Please try again or call us directly.')
+      alert(err instanceof Error && err.message !== 'Failed to cancel appointment'
+        ? err.message
+        : 'Failed to cancel appointment. Please try again or call us directly.')
     } finally {
       setCancelling(false)
     }
   }
 
+  // Stop a standing appointment after this visit; this visit itself is kept
+  const handleEndSeries = async () => {
+    if (!appointment) return
+    if (!confirm('Stop repeating this appointment? Your later visits in the series will be cancelled. This visit stays booked.')) return
+
+    setEndingSeries(true)
+    try {
+      const response = await fetch(`/api/appointments/${appointment.id}/series?token=${encodeURIComponent(manageToken || '')}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to end recurring appointment')
+      }
+
+      setAppointment({ ...appointment, series: appointment.series ? { ...appointment.series, status: 'ended' } : null })
+      alert(result.cancelled > 0
+        ? `Your recurring appointment has ended. ${result.cancelled} later visit${result.cancelled === 1 ? ' was' : 's were'} cancelled.`
+        : 'Your recurring appointment has ended.')
+    } catch (err) {
+      console.error('Error ending recurring appointment:', err)
+      alert('Failed to end your recurring appointment. Please try again or call us directly.')
+    } finally {
+      setEndingSeries(false)
+    }
+  }
+
+  const changesClosed = !!appointment?.changeDeadline && new Date() > new Date(appointment.changeDeadline)
+  const inSeries = appointment?.series?.status === 'active'
+  const groupBooked = (appointment?.group ?? []).filter(member => member.status === 'confirmed' || member.status === 'pending_payment')
+
   const formatDateTime = (startTimeStr: string) => {
     const startTime = new Date(startTimeStr)
     if (isNaN(startTime.getTime())) {
       return { date: 'Invalid Date', time: 'Invalid Time' }
     }
     return {
-      date: formatETDateLong(startTime),
-      time: formatETTime(startTime)
+      date: formatBusinessDateLong(startTime),
+      time: formatBusinessTime(startTime)
     }
   }
 
   const formatEndTime = (endTimeStr: string) => {
     const endTime = new Date(endTimeStr)
     if (isNaN(endTime.getTime())) return 'Invalid Time'
-    return formatETTime(endTime)
+    return formatBusinessTime(endTime)
   }
 
   return (
@@ -157,7 +260,7 @@ function ManageAppointmentContent() {
         <div className="text-center">
           <h1 className="text-3xl font-bold mb-2">Manage Your Appointment</h1>
           <p className="text-lg text-muted-foreground">
-            Enter your phone number to view and manage your booking
+            Verify your phone number to view and manage your booking
           </p>
         </div>
       </div>
@@ -180,11 +283,31 @@ function ManageAppointmentContent() {
                   type="tel"
                   placeholder="(555) 123-4567"
                   value={phoneNumber}
+                  disabled={codeSent}
                   onChange={(e) => setPhoneNumber(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSendCode()}
                 />
               </div>
 
+              {codeSent && (
+                <div className="space-y-2">
+                  <Label htmlFor="code">Verification Code</Label>
+                  <Input
+                    id="code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleVerifyCode()}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    If this number has an upcoming appointment, we&apos;ve texted it a 6-digit code.
+                  </p>
+                </div>
+              )}
+
               {error && (
                 <div className="flex items-start gap-2 p-3 bg-destructive/10 text-destructive rounded-md">
                   <AlertCircle className="w-4 h-4 mt-0.5" />
@@ -193,22 +316,37 @@ function ManageAppointmentContent() {
               )}
 
               <Button
-                onClick={handleSearch}
+                onClick={codeSent ? handleVerifyCode : handleSendCode}
                 disabled={loading}
                 className="w-full"
               >
                 {loading ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Searching...
+                    {codeSent ? 'Verifying...' : 'Sending...'}
                   </>
                 ) : (
                   <>
                     <Search className="w-4 h-4 mr-2" />
-                    Find My Appointment
+                    {codeSent ? 'Find My Appointment' : 'Text Me a Code'}
                   </>
                 )}
               </Button>
+
+              {codeSent && (
+                <Button
+                  variant="ghost"
+                  className="w-full"
+                  disabled={loading}
+                  onClick={() => {
+                    setCodeSent(false)
+                    setCode('')
+                    setError('')
+                  }}
+                >
+                  Use a different number
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -250,7 +388,21 @@ function ManageAppointmentContent() {
                     <p className="text-lg font-semibold">
                       {formatDateTime(appointment.startTime).time} - {formatEndTime(appointment.endTime)}
                     </p>
-                    <p className="text-sm text-muted-foreground">({APP_CONFIG.APPOINTMENT_DURATION} minutes)</p>
+                    <p className="text-sm text-muted-foreground">{appointment.service?.name ?? 'Haircut'}{appointment.barber ? ` with ${appointment.barber.name}` : ''} ({getDurationMinutes(appointment.startTime, appointment.endTime)} minutes)</p>
+                    {groupBooked.length > 0 && (
+                      <div className="text-sm text-muted-foreground mt-2">
+                        <p className="flex items-center gap-1"><Users className="w-3 h-3" />Also booked:</p>
+                        {groupBooked.map(member => (
+                          <p key={member.id}>{member.clientName} at {formatBusinessTime(member.startTime)}</p>
+                        ))}
+                      </div>
+                    )}
+                    {inSeries && appointment.series && (
+                      <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                        <Repeat className="w-3 h-3" />
+                        Repeats every {appointment.series.intervalWeeks === 1 ? 'week' : `${appointment.series.intervalWeeks} weeks`}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -261,6 +413,18 @@ function ManageAppointmentContent() {
                   {appointment.id}
                 </p>
               </div>
+
+              {/* Download again after a reschedule and the calendar app updates the same event */}
+              {appointment.status === 'confirmed' && manageToken && (
+                <div className="border-t pt-4">
+                  <Button variant="outline" asChild>
+                    <a href={`/api/appointments/${appointment.id}/ics?token=${encodeURIComponent(manageToken)}`} download>
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      Add to Calendar
+                    </a>
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -275,32 +439,72 @@ function ManageAppointmentContent() {
             <CardContent className="space-y-4">
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Address</p>
-                <p className="text-lg">{APP_CONFIG.BARBER_ADDRESS}</p>
+                <p className="text-lg">{settings.address}</p>
               </div>
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Phone</p>
-                <p className="text-lg">{APP_CONFIG.BARBER_PHONE}</p>
+                <p className="text-lg">{settings.phone}</p>
               </div>
             </CardContent>
           </Card>
 
           {/* Action Buttons */}
-          <div className="flex flex-col sm:flex-row gap-4">
-            <Button
-              className="flex-1"
-              onClick={() => router.push(`/manage-appointment/reschedule?id=${appointment.id}`)}
-            >
-              <Clock className="w-4 h-4 mr-2" />
-              Reschedule Appointment
-            </Button>
-            <Button
-              variant="destructive"
-              className="flex-1"
-              onClick={() => setShowCancelDialog(true)}
-            >
-              Cancel Appointment
-            </Button>
-          </div>
+          {changesClosed ? (
+            <Card>
+              <CardContent className="pt-6 text-center space-y-4">
+                <p className="text-muted-foreground">
+                  Your appointment is too soon to change online. To cancel or reschedule, please call the shop.
+                </p>
+                <Button asChild>
+                  <a href={`tel:${settings.phone}`}>
+                    <Phone className="w-4 h-4 mr-2" />
+                    Call {settings.phone}
+                  </a>
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <Button
+                  className="flex-1"
+                  onClick={() => router.push(`/manage-appointment/reschedule?token=${encodeURIComponent(manageToken || '')}`)}
+                >
+                  <Clock className="w-4 h-4 mr-2" />
+                  Reschedule Appointment
+                </Button>
+                <Button
+                  variant="destructive"
+                  className="flex-1"
+                  onClick={() => setShowCancelDialog(true)}
+                >
+                  {inSeries ? 'Skip This Visit' : 'Cancel Appointment'}
+                </Button>
+              </div>
+              {inSeries && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleEndSeries}
+                  disabled={endingSeries}
+                >
+                  {endingSeries ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Ending...
+                    </>
+                  ) : (
+                    'Stop Repeating After This Visit'
+                  )}
+                </Button>
+              )}
+              {appointment.changeDeadline && (
+                <p className="text-sm text-muted-foreground text-center">
+                  You can change or cancel online until {formatBusinessDateLong(appointment.changeDeadline)} at {formatBusinessTime(appointment.changeDeadline)}.
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Navigation Buttons */}
           <div className="flex gap-4 justify-center pt-4">
@@ -321,9 +525,11 @@ function ManageAppointmentContent() {
       <Dialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Cancel Appointment?</DialogTitle>
+            <DialogTitle>{inSeries ? 'Skip This Visit?' : 'Cancel Appointment?'}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to cancel your appointment? This action cannot be undone.
+              {inSeries
+                ? 'This visit will be cancelled. Your other visits in the series stay booked.'
+                : 'Are you sure you want to cancel your appointment? This action cannot be undone.'}
             </DialogDescription>
           </DialogHeader>
 
@@ -341,6 +547,18 @@ function ManageAppointmentContent() {
                   </span>
                 </div>
               </div>
+              {groupBooked.length > 0 && (
+                <div className="flex items-center gap-2 pt-4">
+                  <Switch
+                    id="cancel-whole-group"
+                    checked={cancelWholeGroup}
+                    onCheckedChange={setCancelWholeGroup}
+                  />
+                  <Label htmlFor="cancel-whole-group">
+                    Also cancel {groupBooked.map(member => member.clientName).join(', ')}
+                  </Label>
+                </div>
+              )}
             </div>
           )}
 
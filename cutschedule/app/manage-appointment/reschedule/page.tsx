@@ -1,15 +1,16 @@
 "use client"
 
-import { useState, useEffect, Suspense, useCallback } from "react"
+import { useState, useEffect, Suspense, useCallback, useMemo } from "react"
 import { useSearchParams, useRouter } from "next/navigation"
 import { BookingForm } from "@/components/booking/BookingForm"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { ArrowLeft, AlertCircle, Loader2 } from "lucide-react"
+import { ArrowLeft, AlertCircle, Loader2, Phone } from "lucide-react"
 import Link from "next/link"
 import { type AppointmentBookingData } from "@/lib/utils/validation"
-import { formatETDateLong, formatETTime, etDateKey, BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
+import { formatBusinessDateLong, formatBusinessTime, businessDateKey, BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
 import { formatInTimeZone } from 'date-fns-tz'
+import { useBusinessSettings } from "@/hooks/use-business-settings"
 
 interface Appointment {
   id: string
@@ -19,12 +20,25 @@ interface Appointment {
   startTime: string
   endTime: string
   status: string
+  service?: { id: string; name: string; durationMinutes: number; priceCents: number } | null
+  barber?: { id: string; name: string } | null
+  // After this the client has to call to reschedule
+  changeDeadline?: string
 }
 
 function RescheduleContent() {
+  const { settings } = useBusinessSettings()
   const searchParams = useSearchParams()
   const router = useRouter()
-  const appointmentId = searchParams?.get('id')
+  const token = searchParams?.get('token')
+  // Tokens are "<appointmentId>.<expiry>.<signature>"
+  const appointmentId = token?.split('.')[0]
+  const tokenQuery = token ? `?token=${encodeURIComponent(token)}` : ''
+  // The client's current time counts as free while they look for a new one
+  const excludeAppointment = useMemo(
+    () => (appointmentId && token ? { id: appointmentId, token } : undefined),
+    [appointmentId, token]
+  )
 
   const [appointment, setAppointment] = useState<Appointment | null>(null)
   const [loading, setLoading] = useState(true)
@@ -34,7 +48,12 @@ function RescheduleContent() {
 
   const fetchAppointment = useCallback(async () => {
     try {
-      const response = await fetch(`/api/appointments/${appointmentId}`)
+      const response = await fetch(`/api/appointments/${appointmentId}${tokenQuery}`)
+
+      if (response.status === 401) {
+        setError('This link is invalid or has expired')
+        return
+      }
 
       if (!response.ok) {
         throw new Error('Failed to fetch appointment')
@@ -48,13 +67,13 @@ function RescheduleContent() {
     } finally {
       setLoading(false)
     }
-  }, [appointmentId])
+  }, [appointmentId, tokenQuery])
 
   useEffect(() => {
     if (appointmentId) {
       fetchAppointment()
     } else {
-      setError("No appointment ID provided")
+      setError("This link is missing or incomplete")
       setLoading(false)
     }
   }, [appointmentId, fetchAppointment])
@@ -68,7 +87,7 @@ function RescheduleContent() {
     setRescheduleError("")
 
     try {
-      const response = await fetch(`/api/appointments/${appointmentId}`, {
+      const response = await fetch(`/api/appointments/${appointmentId}${tokenQuery}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -88,7 +107,7 @@ function RescheduleContent() {
       const result = await response.json()
 
       // Redirect to confirmation page
-      router.push(`/book/confirmation?id=${result.id}`)
+      router.push(`/book/confirmation?token=${encodeURIComponent(result.manageToken)}`)
     } catch (err) {
       console.error('Reschedule error:', err)
       setRescheduleError(err instanceof Error ? err.message : 'An unexpected error occurred')
@@ -135,16 +154,17 @@ function RescheduleContent() {
 
   // Extract date and time from appointment for pre-filling
   const appointmentDate = new Date(appointment.startTime)
-  // Keep prefill consistent with ET day and ET time (24h)
-  const initialDate = etDateKey(appointmentDate)
+  // Keep prefill consistent with the business day and time (24h)
+  const initialDate = businessDateKey(appointmentDate)
   const initialTime = formatInTimeZone(appointmentDate, BUSINESS_TIME_ZONE, 'HH:mm')
+  const changesClosed = !!appointment.changeDeadline && new Date() > new Date(appointment.changeDeadline)
 
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
       <div className="mb-8">
         <Button variant="ghost" asChild className="mb-4">
-          <Link href={`/manage-appointment?phone=${encodeURIComponent(appointment.phoneNumber)}`}>
+          <Link href={`/manage-appointment${tokenQuery}`}>
             <ArrowLeft className="w-4 h-4 mr-2" />
             Back to Appointment
           </Link>
@@ -165,7 +185,7 @@ function RescheduleContent() {
             <div className="space-y-2">
               <p className="text-sm text-muted-foreground">Current Appointment:</p>
               <p className="font-semibold">
-                {formatETDateLong(appointment.startTime)} at {formatETTime(appointment.startTime)}
+                {formatBusinessDateLong(appointment.startTime)} at {formatBusinessTime(appointment.startTime)}
               </p>
             </div>
           </CardContent>
@@ -186,16 +206,39 @@ function RescheduleContent() {
         </div>
       )}
 
-      {/* Booking Form (reused for rescheduling) */}
-      <BookingForm
-        onSubmit={handleReschedule}
-        initialData={{
-          clientName: appointment.clientName,
-          phoneNumber: appointment.phoneNumber,
-          date: initialDate,
-          time: initialTime
-        }}
-      />
+      {/* Booking Form (reused for rescheduling); too close to the appointment, the shop does it */}
+      {changesClosed ? (
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardContent className="pt-6 text-center space-y-4">
+              <p className="text-muted-foreground">
+                Your appointment is too soon to reschedule online. Please call the shop and we&apos;ll find you a new time.
+              </p>
+              <Button asChild>
+                <a href={`tel:${settings.phone}`}>
+                  <Phone className="w-4 h-4 mr-2" />
+                  Call {settings.phone}
+                </a>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <BookingForm
+          onSubmit={handleReschedule}
+          initialData={{
+            clientName: appointment.clientName,
+            phoneNumber: appointment.phoneNumber,
+            date: initialDate,
+            time: initialTime,
+            serviceId: appointment.service?.id,
+            barberId: appointment.barber?.id
+          }}
+          lockBarber
+          suggestSoonest
+          excludeAppointment={excludeAppointment}
+        />
+      )}
 
       {/* Additional Info */}
       <div className="mt-12 max-w-2xl mx-auto">
@@ -205,8 +248,8 @@ function RescheduleContent() {
               <p>You will receive an SMS confirmation for your rescheduled appointment</p>
               <p>
                 Need help? Call us at{' '}
-                <a href={`tel:${appointment.phoneNumber}`} className="text-primary hover:underline">
-                  {appointment.phoneNumber}
+                <a href={`tel:${settings.phone}`} className="text-primary hover:underline">
+                  {settings.phone}
                 </a>
               </p>
             </div>
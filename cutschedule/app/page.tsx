@@ -2,16 +2,21 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Calendar, CheckSquare, RotateCcw, MapPin, Instagram } from "lucide-react"
-import { APP_CONFIG } from "@/lib/constants"
+import { getBusinessSettings } from "@/lib/business-settings"
 
 // Test deployment with Root Directory set to cutschedule
 
-export default function HomePage() {
+// Rendered per request so edits on /admin/settings show up without a redeploy
+export const dynamic = "force-dynamic"
+
+export default async function HomePage() {
+  const settings = await getBusinessSettings()
+
   return (
     <div className="container mx-auto px-4 py-16">
       <div className="text-center max-w-4xl mx-auto">
         <h1 className="text-5xl font-bold mb-6">
-          Neil&apos;s Barbershop
+          {settings.businessName}
         </h1>
         <p className="text-xl text-muted-foreground mb-8 leading-relaxed">
           Professional barber services with easy online booking, automated reminders,
@@ -89,7 +94,7 @@ export default function HomePage() {
                   <MapPin className="w-6 h-6 text-blue-600" />
                 </div>
                 <h3 className="font-semibold">Address</h3>
-                <p className="text-sm text-muted-foreground">{APP_CONFIG.BARBER_ADDRESS}</p>
+                <p className="text-sm text-muted-foreground">{settings.address}</p>
               </div>
 
               <div className="flex flex-col items-center space-y-2">
@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState, Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Calendar, Clock, User, Scissors, Timer, XCircle } from "lucide-react"
+import Link from "next/link"
+import { formatBusinessDateLong, formatBusinessTime } from '@/lib/utils/timezone'
+
+interface WaitlistOffer {
+  id: string
+  clientName: string
+  serviceName: string | null
+  barberName: string | null
+  startTime: string
+  endTime: string
+  expiresAt: string
+  status: 'pending' | 'accepted' | 'declined' | 'expired'
+}
+
+function OfferContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams?.get('token') || null
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [declined, setDeclined] = useState(false)
+  const [error, setError] = useState<string>("")
+
+  // Tokens are "<offerId>.<expiry>.<signature>"
+  const offerId = token?.split('.')[0]
+  const offerUrl = `/api/waitlist/offers/${offerId}?token=${encodeURIComponent(token || '')}`
+
+  useEffect(() => {
+    if (!token) {
+      setError("This link is missing or incomplete")
+      setLoading(false)
+      return
+    }
+
+    const fetchOffer = async () => {
+      try {
+        const response = await fetch(offerUrl)
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || 'Failed to load this offer')
+        }
+        setOffer(await response.json())
+      } catch (err) {
+        console.error('Error fetching waitlist offer:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load this offer')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchOffer()
+  }, [token, offerUrl])
+
+  const handleAccept = async () => {
+    setSubmitting(true)
+    setError("")
+    try {
+      const response = await fetch(offerUrl, { method: 'POST' })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to book this time')
+      }
+      router.push(`/book/confirmation?token=${encodeURIComponent(result.manageToken)}`)
+    } catch (err) {
+      console.error('Error accepting waitlist offer:', err)
+      setError(err instanceof Error ? err.message : 'Failed to book this time')
+      setSubmitting(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    setSubmitting(true)
+    try {
+      await fetch(offerUrl, { method: 'DELETE' })
+      setDeclined(true)
+    } catch (err) {
+      console.error('Error declining waitlist offer:', err)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading your offer...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const unavailable = !offer || declined || offer.status !== 'pending'
+
+  if (unavailable) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto">
+          <Card className="text-center">
+            <CardContent className="pt-6">
+              <XCircle className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h1 className="text-2xl font-bold mb-2">
+                {declined ? 'No problem' : 'This offer is no longer available'}
+              </h1>
+              <p className="text-muted-foreground mb-4">
+                {declined
+                  ? "We've passed the time on. You'll stay on the waitlist for your other days."
+                  : error || (offer?.status === 'accepted'
+                    ? 'This time has already been booked.'
+                    : 'The hold on this time has ended and it was offered to the next person in line.')}
+              </p>
+              <Button asChild>
+                <Link href="/book">See Open Times</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">A spot opened up, {offer.clientName}!</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 text-sm">
+              <p className="flex items-center gap-2"><Calendar className="w-4 h-4" />{formatBusinessDateLong(offer.startTime)}</p>
+              <p className="flex items-center gap-2"><Clock className="w-4 h-4" />{formatBusinessTime(offer.startTime)} - {formatBusinessTime(offer.endTime)}</p>
+              {offer.serviceName && (
+                <p className="flex items-center gap-2"><Scissors className="w-4 h-4" />{offer.serviceName}</p>
+              )}
+              {offer.barberName && (
+                <p className="flex items-center gap-2"><User className="w-4 h-4" />{offer.barberName}</p>
+              )}
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <Timer className="w-4 h-4" />
+                Held for you until {formatBusinessTime(offer.expiresAt)}
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button className="flex-1" onClick={handleAccept} disabled={submitting}>
+                {submitting ? 'Booking...' : 'Book This Time'}
+              </Button>
+              <Button variant="outline" onClick={handleDecline} disabled={submitting}>
+                No Thanks
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default function WaitlistOfferPage() {
+  return (
+    <Suspense fallback={
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading your offer...</p>
+        </div>
+      </div>
+    }>
+      <OfferContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Users, User, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+export interface BookableBarber {
+  id: string
+  name: string
+}
+
+// "any" lets the shop assign whichever barber is free at the chosen time
+export type BarberChoice = BookableBarber | 'any'
+
+interface BarberPickerProps {
+  barbers: BookableBarber[]
+  selected?: BarberChoice
+  onBarberSelect: (choice: BarberChoice) => void
+  loading?: boolean
+  className?: string
+}
+
+export function BarberPicker({
+  barbers,
+  selected,
+  onBarberSelect,
+  loading = false,
+  className
+}: BarberPickerProps) {
+  const options: Array<{ key: string; label: string; choice: BarberChoice }> = [
+    { key: 'any', label: 'Any barber', choice: 'any' },
+    ...barbers.map((barber) => ({ key: barber.id, label: barber.name, choice: barber as BarberChoice })),
+  ]
+  const selectedKey = selected === 'any' ? 'any' : selected?.id
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Select Barber
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <span className="ml-2 text-muted-foreground">Loading barbers...</span>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {options.map((option) => {
+              const isSelected = option.key === selectedKey
+              const Icon = option.choice === 'any' ? Users : User
+              return (
+                <button
+                  key={option.key}
+                  type="button"
+                  onClick={() => onBarberSelect(option.choice)}
+                  className={cn(
+                    "flex items-center gap-2 rounded-lg border p-4 text-left transition-colors",
+                    "hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+                    isSelected && "border-primary ring-2 ring-ring ring-offset-2"
+                  )}
+                >
+                  <Icon className="w-4 h-4 text-muted-foreground" />
+                  <span className="font-medium">{option.label}</span>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
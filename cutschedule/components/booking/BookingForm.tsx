@@ -1,7 +1,7 @@
 "use client"
 
 import * as React from "react"
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { Button } from "@/components/ui/button"
@@ -10,24 +10,69 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { DatePicker } from "./DatePicker"
 import { TimeSlotPicker } from "./TimeSlotPicker"
+import { ServicePicker, type BookableService } from "./ServicePicker"
+import { BarberPicker, type BookableBarber, type BarberChoice } from "./BarberPicker"
+import { WaitlistForm } from "./WaitlistForm"
+import { SoonestAvailable, type SoonestSlot } from "./SoonestAvailable"
 import { appointmentBookingSchema, type AppointmentBookingData } from "@/lib/utils/validation"
 import { formatDate } from "@/lib/utils/dates"
-import { etDateKey, formatETDateLong, formatETTime, BUSINESS_TIME_ZONE } from "@/lib/utils/timezone"
+import { businessDateKey, formatBusinessDateLong, formatBusinessTime, BUSINESS_TIME_ZONE } from "@/lib/utils/timezone"
+import { format } from "date-fns"
 import { fromZonedTime } from "date-fns-tz"
-import { User, Phone, Calendar, Clock, ArrowRight, Loader2 } from "lucide-react"
+import { User, Users, Phone, Calendar, Clock, ArrowRight, Loader2, Scissors, CreditCard } from "lucide-react"
+import { cn, formatPrice } from "@/lib/utils"
 import { APP_CONFIG } from "@/lib/constants"
-import { cn } from "@/lib/utils"
 
 interface BookingFormProps {
   onSubmit: (data: AppointmentBookingData) => Promise<void>
   className?: string
   initialData?: Partial<AppointmentBookingData>
+  // Keep the barber from initialData fixed (rescheduling stays with the same barber)
+  lockBarber?: boolean
+  // Offer to join the waitlist when the chosen day has no open times
+  allowWaitlist?: boolean
+  // Let one contact book several people back-to-back
+  allowGroup?: boolean
+  // Hold the picked time for a few minutes while the details are filled in
+  holdSlots?: boolean
+  // Offer the soonest open times so the client can skip the calendar
+  suggestSoonest?: boolean
+  // The appointment being rescheduled: its own time is shown as free
+  excludeAppointment?: { id: string; token: string }
 }
 
-type BookingStep = 'date' | 'time' | 'details' | 'confirm'
+type BookingStep = 'service' | 'barber' | 'date' | 'time' | 'details' | 'confirm'
 
-export function BookingForm({ onSubmit, className, initialData }: BookingFormProps) {
-  const [currentStep, setCurrentStep] = useState<BookingStep>('date')
+// One day of the month summary from /api/availability/range
+interface DayAvailability {
+  date: string
+  openSlots: number
+  firstOpen: string | null
+  lastOpen: string | null
+  fullyBooked: boolean
+}
+
+// "yyyy-MM-dd" as a local date-only value, the way the calendar compares days
+// Rescheduling: the appointment's own time is sent along so it doesn't show as taken
+function addExcludedAppointment(params: URLSearchParams, excludeAppointment?: { id: string; token: string }) {
+  if (!excludeAppointment) return
+  params.set('excludeAppointmentId', excludeAppointment.id)
+  params.set('token', excludeAppointment.token)
+}
+
+function toCalendarDate(dateKey: string): Date {
+  const [y, m, d] = dateKey.split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+export function BookingForm({ onSubmit, className, initialData, lockBarber = false, allowWaitlist = false, allowGroup = false, holdSlots = false, suggestSoonest = false, excludeAppointment }: BookingFormProps) {
+  const [currentStep, setCurrentStep] = useState<BookingStep>(initialData?.serviceId ? 'date' : 'service')
+  const [services, setServices] = useState<BookableService[]>([])
+  const [servicesLoading, setServicesLoading] = useState(true)
+  const [selectedService, setSelectedService] = useState<BookableService | undefined>(undefined)
+  const [barbers, setBarbers] = useState<BookableBarber[]>([])
+  const [barbersLoading, setBarbersLoading] = useState(true)
+  const [selectedBarber, setSelectedBarber] = useState<BarberChoice | undefined>(undefined)
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(() => {
     if (!initialData?.date) return undefined
     // Parse YYYY-MM-DD safely to avoid UTC parsing shifting the day
@@ -37,9 +82,17 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
   })
   const [selectedTime, setSelectedTime] = useState<string | undefined>(initialData?.time)
   const [availableSlots, setAvailableSlots] = useState<string[]>([])
-  const [availableDates, setAvailableDates] = useState<Date[]>([])
+  // The calendar opens on the selected date's month, like SimpleCalendar itself
+  const [visibleMonth, setVisibleMonth] = useState(() => format(selectedDate ?? new Date(), 'yyyy-MM'))
+  const [monthDays, setMonthDays] = useState<DayAvailability[]>([])
   const [loading, setLoading] = useState(false)
   const [slotsLoading, setSlotsLoading] = useState(false)
+  const [people, setPeople] = useState(1)
+  const [guestNames, setGuestNames] = useState<string[]>([])
+  const [holdExpiresAt, setHoldExpiresAt] = useState<Date | undefined>(undefined)
+  const [holdError, setHoldError] = useState<string | undefined>(undefined)
+  // The time of the latest hold request, so a slow response for an earlier pick is ignored
+  const pendingHoldTime = useRef<string | undefined>(undefined)
 
   const {
     register,
@@ -55,38 +108,107 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
   // Watch form values for validation
   const watchedValues = watch()
 
-  // Fetch available dates on mount
+  // Fetch the service catalog on mount
+  useEffect(() => {
+    const fetchServices = async () => {
+      try {
+        const response = await fetch('/api/services')
+        if (response.ok) {
+          const data: BookableService[] = await response.json()
+          setServices(data)
+          // Keep the service of an existing booking selected (e.g. when rescheduling)
+          if (initialData?.serviceId) {
+            setSelectedService(data.find((service) => service.id === initialData.serviceId))
+          }
+        }
+      } catch (error) {
+        console.error('Failed to fetch services:', error)
+      } finally {
+        setServicesLoading(false)
+      }
+    }
+    fetchServices()
+  }, [initialData?.serviceId])
+
+  // Fetch the barbers on mount
   useEffect(() => {
-    const fetchAvailableDates = async () => {
+    const fetchBarbers = async () => {
       try {
-        const response = await fetch('/api/available-dates')
+        const response = await fetch('/api/barbers')
+        if (response.ok) {
+          const data: BookableBarber[] = await response.json()
+          setBarbers(data)
+          const initialBarber = data.find((barber) => barber.id === initialData?.barberId)
+          if (initialBarber) {
+            setSelectedBarber(initialBarber)
+          } else if (lockBarber || data.length <= 1) {
+            // Nothing to choose between, so skip the step
+            setSelectedBarber('any')
+          }
+        } else {
+          setSelectedBarber('any')
+        }
+      } catch (error) {
+        console.error('Failed to fetch barbers:', error)
+        setSelectedBarber('any')
+      } finally {
+        setBarbersLoading(false)
+      }
+    }
+    fetchBarbers()
+  }, [initialData?.barberId, lockBarber])
+
+  const selectedBarberId = selectedBarber && selectedBarber !== 'any' ? selectedBarber.id : undefined
+  const showBarberPicker = !lockBarber && barbers.length > 1
+
+  // Fetch the open times per day of the visible month for the chosen service, barber and group size
+  useEffect(() => {
+    if (!selectedService || !selectedBarber) {
+      setMonthDays([])
+      return
+    }
+
+    let cancelled = false
+    const fetchMonthAvailability = async () => {
+      try {
+        const params = new URLSearchParams({ month: visibleMonth, serviceId: selectedService.id })
+        if (selectedBarberId) params.set('barberId', selectedBarberId)
+        if (people > 1) params.set('people', String(people))
+        addExcludedAppointment(params, excludeAppointment)
+        const response = await fetch(`/api/availability/range?${params.toString()}`)
         if (response.ok) {
           const data = await response.json()
-          // Convert server ISO dates to local date-only and get unique dates
-          const dateSet = new Set<number>()
-          data.forEach((item: any) => {
-            const d = new Date(item.date)
-            const local = new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
-            dateSet.add(local.getTime())
-          })
-          const uniqueDates = Array.from(dateSet).map((ts) => new Date(ts))
-          setAvailableDates(uniqueDates)
+          if (!cancelled) setMonthDays(data.days || [])
         }
       } catch (error) {
-        console.error('Failed to fetch available dates:', error)
+        console.error('Failed to fetch month availability:', error)
       }
     }
-    fetchAvailableDates()
-  }, [])
+    fetchMonthAvailability()
+    // A slow response for a month the client already left must not overwrite the current one
+    return () => {
+      cancelled = true
+    }
+  }, [visibleMonth, selectedService, selectedBarber, selectedBarberId, people, excludeAppointment])
 
-  // Fetch available time slots when date changes
+  // Fetch available time slots when the date, service, barber or group size changes
   useEffect(() => {
-    if (selectedDate) {
-      fetchAvailableSlots(selectedDate)
-      // Use ET date key to keep date consistent across timezones
-      setValue('date', etDateKey(selectedDate))
+    if (selectedDate && selectedService && selectedBarber) {
+      fetchAvailableSlots(selectedDate, selectedService.id, selectedBarberId, people)
+      // Use the business date key to keep date consistent across timezones
+      setValue('date', businessDateKey(selectedDate))
     }
-  }, [selectedDate, setValue])
+  }, [selectedDate, selectedService, selectedBarber, selectedBarberId, people, setValue])
+
+  useEffect(() => {
+    setValue('barberId', selectedBarberId)
+  }, [selectedBarberId, setValue])
+
+  useEffect(() => {
+    if (selectedService) {
+      setValue('serviceId', selectedService.id)
+    }
+  }, [selectedService, setValue])
 
   // Update form when time is selected
   useEffect(() => {
@@ -95,10 +217,23 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
     }
   }, [selectedTime, setValue])
 
-  const fetchAvailableSlots = async (date: Date) => {
+  // Give the held time back when the client clears it by changing the service, barber, date or group
+  useEffect(() => {
+    if (!selectedTime && holdExpiresAt) {
+      setHoldExpiresAt(undefined)
+      pendingHoldTime.current = undefined
+      fetch('/api/holds', { method: 'DELETE' }).catch((error) => console.error('Failed to release time slot hold:', error))
+    }
+  }, [selectedTime, holdExpiresAt])
+
+  const fetchAvailableSlots = async (date: Date, serviceId: string, barberId?: string, groupSize = 1) => {
     setSlotsLoading(true)
     try {
-      const response = await fetch(`/api/availability?date=${etDateKey(date)}`)
+      const params = new URLSearchParams({ date: businessDateKey(date), serviceId })
+      if (barberId) params.set('barberId', barberId)
+      if (groupSize > 1) params.set('people', String(groupSize))
+      addExcludedAppointment(params, excludeAppointment)
+      const response = await fetch(`/api/availability?${params.toString()}`)
       if (response.ok) {
         const data = await response.json()
         setAvailableSlots(data.slots || [])
@@ -113,21 +248,86 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
     }
   }
 
+  const handleServiceSelect = (service: BookableService) => {
+    setSelectedService(service)
+    // A different duration changes which start times fit
+    setSelectedTime(undefined)
+    if (!selectedBarber) {
+      setCurrentStep('barber')
+    } else {
+      setCurrentStep(selectedDate ? 'time' : 'date')
+    }
+  }
+
+  const handleBarberSelect = (choice: BarberChoice) => {
+    setSelectedBarber(choice)
+    // Another barber has different openings
+    setSelectedTime(undefined)
+    setCurrentStep(selectedDate ? 'time' : 'date')
+  }
+
   const handleDateSelect = (date: Date) => {
     setSelectedDate(date)
     setSelectedTime(undefined) // Reset time when date changes
     setCurrentStep('time')
   }
 
-  const handleTimeSelect = (time: string) => {
+  const handlePeopleSelect = (count: number) => {
+    setPeople(count)
+    setGuestNames((names) => Array.from({ length: count - 1 }, (_, index) => names[index] ?? ''))
+    // A bigger group needs a longer free stretch
+    setSelectedTime(undefined)
+  }
+
+  // date is passed when the day is picked together with the time, before selectedDate updates
+  const handleTimeSelect = async (time: string, date = selectedDate) => {
     setSelectedTime(time)
     setCurrentStep('details')
+    setHoldError(undefined)
+    if (!holdSlots || !date || !selectedService) return
+
+    pendingHoldTime.current = time
+    try {
+      const response = await fetch('/api/holds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: businessDateKey(date),
+          time,
+          serviceId: selectedService.id,
+          barberId: selectedBarberId,
+          people,
+        }),
+      })
+      if (pendingHoldTime.current !== time) return
+
+      const data = await response.json()
+      if (response.ok) {
+        setHoldExpiresAt(new Date(data.expiresAt))
+      } else if (response.status === 409) {
+        // Someone else took it between loading the times and picking one
+        setHoldError('Sorry, that time was just taken. Please pick another.')
+        setSelectedTime(undefined)
+        setCurrentStep('time')
+        fetchAvailableSlots(date, selectedService.id, selectedBarberId, people)
+      }
+    } catch (error) {
+      // Without a hold the booking is still checked when it is submitted
+      console.error('Failed to hold time slot:', error)
+    }
+  }
+
+  const handleSoonestSelect = (slot: SoonestSlot) => {
+    const date = toCalendarDate(slot.date)
+    setSelectedDate(date)
+    setVisibleMonth(slot.date.slice(0, 7))
+    handleTimeSelect(slot.time, date)
   }
 
   const handleFormSubmit = async (data: AppointmentBookingData) => {
     setLoading(true)
     try {
-      await onSubmit(data)
+      await onSubmit(people > 1 ? { ...data, guestNames: guestNames.map((name) => name.trim()) } : data)
     } catch (error) {
       console.error('Booking failed:', error)
     } finally {
@@ -135,13 +335,32 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
     }
   }
 
-  const canProceedToDetails = selectedDate && selectedTime
-  const canSubmit = canProceedToDetails && watchedValues.clientName && watchedValues.phoneNumber
+  const openDates = monthDays.filter((day) => day.openSlots > 0).map((day) => toCalendarDate(day.date))
+  const fullyBookedDates = monthDays.filter((day) => day.fullyBooked).map((day) => toCalendarDate(day.date))
+  const fewLeftDates = monthDays
+    .filter((day) => day.openSlots > 0 && day.openSlots <= APP_CONFIG.FEW_SLOTS_LEFT)
+    .map((day) => toCalendarDate(day.date))
+  // Fully booked days stay selectable where the client can join their waitlist
+  const canWaitlist = allowWaitlist && people === 1
+  const availableDates = canWaitlist ? [...openDates, ...fullyBookedDates] : openDates
+
+  const canProceedToDetails = selectedService && selectedBarber && selectedDate && selectedTime
+  const guestsNamed = guestNames.every((name) => name.trim().length >= 2)
+  const canSubmit = canProceedToDetails && watchedValues.clientName && watchedValues.phoneNumber && guestsNamed
+  // The deposit is paid with the payment provider after the booking is submitted; a group pays for everyone
+  const depositCents = (selectedService?.depositCents ?? 0) * people
+  // Everyone in a group is booked back-to-back, with the service buffer between people
+  const blockMinutes = selectedService
+    ? people * selectedService.durationMinutes + (people - 1) * (selectedService.bufferMinutes ?? 0)
+    : 0
 
   const steps = [
+    { id: 'service', label: 'Service', icon: Scissors, completed: !!selectedService },
+    ...(showBarberPicker ? [{ id: 'barber', label: 'Barber', icon: Users, completed: !!selectedBarber }] : []),
     { id: 'date', label: 'Date', icon: Calendar, completed: !!selectedDate },
     { id: 'time', label: 'Time', icon: Clock, completed: !!selectedTime },
     { id: 'details', label: 'Details', icon: User, completed: !!watchedValues.clientName && !!watchedValues.phoneNumber },
+    ...(depositCents > 0 ? [{ id: 'payment', label: 'Deposit', icon: CreditCard, completed: false }] : []),
   ]
 
   return (
@@ -188,14 +407,89 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
         </CardContent>
       </Card>
 
+      {/* Service Selection */}
+      <ServicePicker
+        services={services}
+        selectedServiceId={selectedService?.id}
+        onServiceSelect={handleServiceSelect}
+        loading={servicesLoading}
+        className={cn(
+          "transition-opacity",
+          currentStep !== 'service' && selectedService && "opacity-75"
+        )}
+      />
+
+      {/* Group size */}
+      {allowGroup && (
+        <Card className={cn("transition-opacity", !selectedService && "opacity-50 pointer-events-none")}>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Who&apos;s Coming?
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {Array.from({ length: APP_CONFIG.GROUP_BOOKING_MAX_PEOPLE }, (_, index) => index + 1).map((count) => (
+                <Button
+                  key={count}
+                  type="button"
+                  variant={people === count ? "default" : "outline"}
+                  onClick={() => handlePeopleSelect(count)}
+                >
+                  {count === 1 ? 'Just me' : `${count} people`}
+                </Button>
+              ))}
+            </div>
+            {people > 1 && (
+              <p className="text-sm text-muted-foreground mt-3">
+                Everyone gets a {selectedService?.name ?? 'cut'} with the same barber, one after another.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Barber Selection */}
+      {showBarberPicker && (
+        <BarberPicker
+          barbers={barbers}
+          selected={selectedBarber}
+          onBarberSelect={handleBarberSelect}
+          loading={barbersLoading}
+          className={cn(
+            "transition-opacity",
+            !selectedService && "opacity-50 pointer-events-none",
+            currentStep !== 'barber' && selectedBarber && "opacity-75"
+          )}
+        />
+      )}
+
+      {/* Soonest open times, for clients who don't mind which day */}
+      {suggestSoonest && selectedService && selectedBarber && (
+        <SoonestAvailable
+          serviceId={selectedService.id}
+          barberId={selectedBarberId}
+          people={people}
+          selectedDate={selectedDate ? businessDateKey(selectedDate) : undefined}
+          selectedTime={selectedTime}
+          excludeAppointment={excludeAppointment}
+          onSlotSelect={handleSoonestSelect}
+        />
+      )}
+
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Date Selection */}
         <DatePicker
           selectedDate={selectedDate}
           onDateSelect={handleDateSelect}
           availableDates={availableDates}
+          fullyBookedDates={fullyBookedDates}
+          fewLeftDates={fewLeftDates}
+          onMonthChange={(month) => setVisibleMonth(format(month, 'yyyy-MM'))}
           className={cn(
             "transition-opacity",
+            (!selectedService || !selectedBarber) && "opacity-50 pointer-events-none",
             currentStep !== 'date' && selectedDate && "opacity-75"
           )}
         />
@@ -214,6 +508,20 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
         />
       </div>
 
+      {holdError && (
+        <p className="text-sm text-destructive text-center">{holdError}</p>
+      )}
+
+      {/* Waitlist for fully booked days */}
+      {canWaitlist && selectedDate && selectedService && selectedBarber && !slotsLoading && availableSlots.length === 0 && (
+        <WaitlistForm
+          key={businessDateKey(selectedDate)}
+          date={selectedDate}
+          serviceId={selectedService.id}
+          barberId={selectedBarberId}
+        />
+      )}
+
       {/* Customer Details Form */}
       {canProceedToDetails && (
         <Card>
@@ -227,7 +535,7 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
             <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
               <div className="grid md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="clientName">Full Name</Label>
+                  <Label htmlFor="clientName">{people > 1 ? 'Your Full Name' : 'Full Name'}</Label>
                   <Input
                     id="clientName"
                     placeholder="Enter your full name"
@@ -254,21 +562,54 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
                 </div>
               </div>
 
+              {/* The rest of the group, booked under the contact's phone number */}
+              {people > 1 && (
+                <div className="grid md:grid-cols-2 gap-4">
+                  {guestNames.map((name, index) => (
+                    <div key={index} className="space-y-2">
+                      <Label htmlFor={`guestName-${index}`}>Person {index + 2} Name</Label>
+                      <Input
+                        id={`guestName-${index}`}
+                        placeholder="Their name"
+                        value={name}
+                        onChange={(e) => setGuestNames((names) => names.map((current, i) => (i === index ? e.target.value : current)))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Appointment Summary */}
-              {selectedDate && selectedTime && (
+              {selectedService && selectedBarber && selectedDate && selectedTime && (
                 <div className="mt-6 p-4 bg-muted rounded-lg">
                   <h4 className="font-medium mb-2">Appointment Summary</h4>
                   <div className="space-y-1 text-sm text-muted-foreground">
-                    <p><Calendar className="w-4 h-4 inline mr-2" />{formatETDateLong(selectedDate)}</p>
+                    <p><Scissors className="w-4 h-4 inline mr-2" />{selectedService.name} ({formatPrice(selectedService.priceCents)}{people > 1 ? ` each, ${people} people back-to-back` : ''})</p>
+                    {showBarberPicker && (
+                      <p><User className="w-4 h-4 inline mr-2" />{selectedBarber === 'any' ? 'Any available barber' : selectedBarber.name}</p>
+                    )}
+                    <p><Calendar className="w-4 h-4 inline mr-2" />{formatBusinessDateLong(selectedDate)}</p>
                     <p><Clock className="w-4 h-4 inline mr-2" />
                       {(() => {
-                        const dateStr = etDateKey(selectedDate!)
+                        const dateStr = businessDateKey(selectedDate!)
                         const start = fromZonedTime(`${dateStr}T${selectedTime}:00.000`, BUSINESS_TIME_ZONE)
-                        const end = new Date(start.getTime() + APP_CONFIG.APPOINTMENT_DURATION * 60000)
-                        return `${formatETTime(start)} - ${formatETTime(end)}`
-                      })()} ({APP_CONFIG.APPOINTMENT_DURATION} minutes)
+                        const end = new Date(start.getTime() + blockMinutes * 60000)
+                        return `${formatBusinessTime(start)} - ${formatBusinessTime(end)}`
+                      })()} ({blockMinutes} minutes)
                     </p>
                   </div>
+                  {holdExpiresAt && (
+                    <p className="mt-3 text-sm">
+                      <Clock className="w-4 h-4 inline mr-2" />
+                      We&apos;re holding this time for you until {formatBusinessTime(holdExpiresAt)}.
+                    </p>
+                  )}
+                  {depositCents > 0 && (
+                    <p className="mt-3 text-sm">
+                      <CreditCard className="w-4 h-4 inline mr-2" />
+                      A {formatPrice(depositCents)} deposit is due now to hold your time. It goes toward your service; cancelling late forfeits it.
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -281,8 +622,12 @@ export function BookingForm({ onSubmit, className, initialData }: BookingFormPro
                 {isSubmitting ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Booking Appointment...
+                    {people > 1 ? 'Booking Appointments...' : 'Booking Appointment...'}
                   </>
+                ) : depositCents > 0 ? (
+                  `Continue to Pay ${formatPrice(depositCents)} Deposit`
+                ) : people > 1 ? (
+                  `Book ${people} Appointments`
                 ) : (
                   'Book Appointment'
                 )}
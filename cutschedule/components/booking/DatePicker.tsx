@@ -3,9 +3,9 @@
 import * as React from "react"
 import { SimpleCalendar } from "@/components/ui/simple-calendar"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { addDays, isSameDay, startOfDay, endOfDay, isBefore, isAfter } from "date-fns"
-import { formatETDateLong } from "@/lib/utils/timezone"
-import { APP_CONFIG } from "@/lib/constants"
+import { addDays, isSameDay, endOfDay, isBefore, isAfter } from "date-fns"
+import { businessDateKey, formatBusinessDateLong } from "@/lib/utils/timezone"
+import { useBusinessSettings } from "@/hooks/use-business-settings"
 
 
 interface DatePickerProps {
@@ -14,6 +14,9 @@ interface DatePickerProps {
   workingDays?: number[] // Array of working days (0-6, Sunday-Saturday)
   blockedDates?: Date[] // Array of blocked dates (blacklist approach)
   availableDates?: Date[] // Array of available dates (whitelist approach - takes precedence)
+  fullyBookedDates?: Date[] // Shown greyed out; also leave them out of availableDates to disable them
+  fewLeftDates?: Date[] // Shown with a "few left" dot
+  onMonthChange?: (month: Date) => void
   className?: string
 }
 
@@ -23,11 +26,16 @@ export function DatePicker({
   workingDays = [1, 2, 3, 4, 5, 6], // Default: Monday-Saturday
   blockedDates = [],
   availableDates,
+  fullyBookedDates = [],
+  fewLeftDates = [],
+  onMonthChange,
   className
 }: DatePickerProps) {
-  // Normalize comparisons to day boundaries to avoid disabling "today" after midnight
-  const today = startOfDay(new Date())
-  const maxDate = addDays(today, APP_CONFIG.MAX_ADVANCE_BOOKING_DAYS)
+  const { settings } = useBusinessSettings()
+  // "Today" is the shop's day, which can differ from the client's near midnight in other time zones
+  const [year, month, day] = businessDateKey(new Date()).split('-').map(Number)
+  const today = new Date(year, month - 1, day)
+  const maxDate = addDays(today, settings.maxAdvanceDays)
 
   const isDateDisabled = (date: Date) => {
     // Disable past dates (compare by day, not time)
@@ -65,12 +73,28 @@ export function DatePicker({
           selected={selectedDate}
           onSelect={onDateSelect}
           disabled={isDateDisabled}
+          fullyBookedDates={fullyBookedDates}
+          fewLeftDates={fewLeftDates}
+          onMonthChange={onMonthChange}
           className="rounded-md border"
         />
+        {(fewLeftDates.length > 0 || fullyBookedDates.length > 0) && (
+          <div className="mt-3 flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {fewLeftDates.length > 0 && (
+              <span className="flex items-center gap-1.5">
+                <span className="h-1.5 w-1.5 rounded-full bg-amber-500" />
+                Few times left
+              </span>
+            )}
+            {fullyBookedDates.length > 0 && (
+              <span className="line-through">Fully booked</span>
+            )}
+          </div>
+        )}
         {selectedDate && (
           <div className="mt-4 p-3 bg-muted rounded-md">
             <p className="text-sm font-medium">
-              Selected: {formatETDateLong(selectedDate)}
+              Selected: {formatBusinessDateLong(selectedDate)}
             </p>
           </div>
         )}
@@ -0,0 +1,83 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Scissors, Clock, Loader2 } from "lucide-react"
+import { cn, formatPrice } from "@/lib/utils"
+
+export interface BookableService {
+  id: string
+  name: string
+  durationMinutes: number
+  priceCents: number
+  // Cleanup time after the appointment; separates people in a group booking
+  bufferMinutes?: number
+  // Paid online when booking; 0 or missing when no deposit is taken
+  depositCents?: number
+}
+
+interface ServicePickerProps {
+  services: BookableService[]
+  selectedServiceId?: string
+  onServiceSelect: (service: BookableService) => void
+  loading?: boolean
+  className?: string
+}
+
+export function ServicePicker({
+  services,
+  selectedServiceId,
+  onServiceSelect,
+  loading = false,
+  className
+}: ServicePickerProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scissors className="w-5 h-5" />
+          Select Service
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <span className="ml-2 text-muted-foreground">Loading services...</span>
+          </div>
+        ) : services.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <p>No services are available right now</p>
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 gap-3">
+            {services.map((service) => {
+              const isSelected = service.id === selectedServiceId
+              return (
+                <button
+                  key={service.id}
+                  type="button"
+                  onClick={() => onServiceSelect(service)}
+                  className={cn(
+                    "flex items-center justify-between rounded-lg border p-4 text-left transition-colors",
+                    "hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+                    isSelected && "border-primary ring-2 ring-ring ring-offset-2"
+                  )}
+                >
+                  <div>
+                    <p className="font-medium">{service.name}</p>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {service.durationMinutes} minutes
+                    </p>
+                  </div>
+                  <p className="font-semibold">{formatPrice(service.priceCents)}</p>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
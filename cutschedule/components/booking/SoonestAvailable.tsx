@@ -0,0 +1,166 @@
+"use client"
+
+import * as React from "react"
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { formatInTimeZone } from "date-fns-tz"
+import { BUSINESS_TIME_ZONE, formatBusinessTime } from "@/lib/utils/timezone"
+import { Zap, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+export interface SoonestSlot {
+  date: string // "yyyy-MM-dd" in the business time zone
+  time: string // "HH:mm"
+  startTime: string
+}
+
+type DayPreference = 'any' | 'weekdays' | 'weekends'
+type TimePreference = 'any' | 'morning' | 'afternoon' | 'evening'
+
+const DAY_PREFERENCES: Array<{ value: DayPreference; label: string; weekdays?: string }> = [
+  { value: 'any', label: 'Any day' },
+  { value: 'weekdays', label: 'Weekdays', weekdays: '1,2,3,4,5' },
+  { value: 'weekends', label: 'Weekends', weekdays: '0,6' },
+]
+
+// Same periods as TimeSlotPicker's groups
+const TIME_PREFERENCES: Array<{ value: TimePreference; label: string; earliestTime?: string; latestTime?: string }> = [
+  { value: 'any', label: 'Any time' },
+  { value: 'morning', label: 'Morning', latestTime: '11:59' },
+  { value: 'afternoon', label: 'Afternoon', earliestTime: '12:00', latestTime: '16:59' },
+  { value: 'evening', label: 'Evening', earliestTime: '17:00' },
+]
+
+interface SoonestAvailableProps {
+  serviceId: string
+  barberId?: string
+  people?: number
+  selectedDate?: string // "yyyy-MM-dd"
+  selectedTime?: string
+  // The appointment being rescheduled, whose own time counts as free
+  excludeAppointment?: { id: string; token: string }
+  onSlotSelect: (slot: SoonestSlot) => void
+  className?: string
+}
+
+export function SoonestAvailable({
+  serviceId,
+  barberId,
+  people = 1,
+  selectedDate,
+  selectedTime,
+  excludeAppointment,
+  onSlotSelect,
+  className
+}: SoonestAvailableProps) {
+  const [dayPreference, setDayPreference] = useState<DayPreference>('any')
+  const [timePreference, setTimePreference] = useState<TimePreference>('any')
+  const [slots, setSlots] = useState<SoonestSlot[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchSoonest = async () => {
+      setLoading(true)
+      try {
+        const days = DAY_PREFERENCES.find((option) => option.value === dayPreference)
+        const times = TIME_PREFERENCES.find((option) => option.value === timePreference)
+        const params = new URLSearchParams({ serviceId })
+        if (barberId) params.set('barberId', barberId)
+        if (people > 1) params.set('people', String(people))
+        if (days?.weekdays) params.set('weekdays', days.weekdays)
+        if (times?.earliestTime) params.set('earliestTime', times.earliestTime)
+        if (times?.latestTime) params.set('latestTime', times.latestTime)
+        if (excludeAppointment) {
+          params.set('excludeAppointmentId', excludeAppointment.id)
+          params.set('token', excludeAppointment.token)
+        }
+
+        const response = await fetch(`/api/availability/next?${params.toString()}`)
+        const data = response.ok ? await response.json() : { slots: [] }
+        if (!cancelled) setSlots(data.slots || [])
+      } catch (error) {
+        console.error('Failed to fetch soonest available times:', error)
+        if (!cancelled) setSlots([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    fetchSoonest()
+    return () => {
+      cancelled = true
+    }
+  }, [serviceId, barberId, people, dayPreference, timePreference, excludeAppointment])
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Zap className="w-5 h-5" />
+          Soonest Available
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">Just want the next opening? Pick one to book it.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {DAY_PREFERENCES.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={dayPreference === option.value ? "default" : "outline"}
+              onClick={() => setDayPreference(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {TIME_PREFERENCES.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={timePreference === option.value ? "default" : "outline"}
+              onClick={() => setTimePreference(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span className="ml-2 text-muted-foreground">Finding open times...</span>
+          </div>
+        ) : slots.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            No open times match. Try another preference or pick a date below.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+            {slots.map((slot) => {
+              const isSelected = slot.date === selectedDate && slot.time === selectedTime
+              return (
+                <Button
+                  key={slot.startTime}
+                  type="button"
+                  variant={isSelected ? "default" : "outline"}
+                  onClick={() => onSlotSelect(slot)}
+                  className={cn(
+                    "justify-center",
+                    isSelected && "ring-2 ring-ring ring-offset-2"
+                  )}
+                >
+                  {formatInTimeZone(new Date(slot.startTime), BUSINESS_TIME_ZONE, 'EEE, MMM d')} at {formatBusinessTime(slot.startTime)}
+                </Button>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,7 +4,8 @@ import * as React from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { format } from "date-fns"
-import { formatETDateLong } from "@/lib/utils/timezone"
+import { businessTimeZoneName, businessDateKey, formatClientTime, formatBusinessDateLong } from "@/lib/utils/timezone"
+import { combineDateTime } from "@/lib/utils/dates"
 import { Clock, Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
 
@@ -71,6 +72,11 @@ export function TimeSlotPicker({
 
   const { morning, afternoon, evening } = groupSlotsByPeriod(availableSlots)
 
+  // Clients booking from another time zone also see each time on their own clock
+  const dateKey = businessDateKey(selectedDate)
+  const localTimes = new Map(availableSlots.map(slot => [slot, formatClientTime(combineDateTime(dateKey, slot))]))
+  const showLocalTimes = Array.from(localTimes.values()).some(Boolean)
+
   const renderSlotGroup = (title: string, slots: string[]) => {
     if (slots.length === 0) return null
 
@@ -86,10 +92,14 @@ export function TimeSlotPicker({
               onClick={() => onTimeSelect(slot)}
               className={cn(
                 "justify-center text-xs",
+                showLocalTimes && "h-auto flex-col gap-0 py-1.5",
                 selectedTime === slot && "ring-2 ring-ring ring-offset-2"
               )}
             >
               {formatTime(slot)}
+              {localTimes.get(slot) && (
+                <span className="text-[10px] font-normal opacity-75">{localTimes.get(slot)}</span>
+              )}
             </Button>
           ))}
         </div>
@@ -104,7 +114,12 @@ export function TimeSlotPicker({
           <Clock className="w-5 h-5" />
           Available Times
         </CardTitle>
-        <p className="text-sm text-muted-foreground">{formatETDateLong(selectedDate)}</p>
+        <p className="text-sm text-muted-foreground">{formatBusinessDateLong(selectedDate)}</p>
+        {showLocalTimes && (
+          <p className="text-xs text-muted-foreground">
+            Times are shop time ({businessTimeZoneName(combineDateTime(dateKey, '12:00'))}); your local time is shown under each.
+          </p>
+        )}
       </CardHeader>
       <CardContent>
         {loading ? (
@@ -132,6 +147,7 @@ export function TimeSlotPicker({
           <div className="mt-6 p-3 bg-muted rounded-md">
             <p className="text-sm font-medium">
               Selected: {formatTime(selectedTime)}
+              {localTimes.get(selectedTime) && ` (${localTimes.get(selectedTime)} your time)`}
             </p>
           </div>
         )}
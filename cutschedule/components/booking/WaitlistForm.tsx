@@ -0,0 +1,189 @@
+"use client"
+
+import * as React from "react"
+import { useState } from "react"
+import { addDays } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { businessDateKey, formatBusinessDateShort } from "@/lib/utils/timezone"
+import { APP_CONFIG } from "@/lib/constants"
+import { useBusinessSettings } from "@/hooks/use-business-settings"
+import { BellRing, CheckCircle, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface WaitlistFormProps {
+  // The fully booked day the client picked; the following days can be added too
+  date: Date
+  serviceId?: string
+  barberId?: string
+  className?: string
+}
+
+export function WaitlistForm({ date, serviceId, barberId, className }: WaitlistFormProps) {
+  const { settings } = useBusinessSettings()
+  const dayOptions = Array.from({ length: APP_CONFIG.WAITLIST_MAX_DATES }, (_, i) => addDays(date, i))
+  const [selectedDates, setSelectedDates] = useState<string[]>([businessDateKey(date)])
+  const [clientName, setClientName] = useState("")
+  const [phoneNumber, setPhoneNumber] = useState("")
+  const [earliestTime, setEarliestTime] = useState("")
+  const [latestTime, setLatestTime] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [joined, setJoined] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleDate = (dateKey: string) => {
+    setSelectedDates((current) =>
+      current.includes(dateKey) ? current.filter((key) => key !== dateKey) : [...current, dateKey]
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/waitlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clientName,
+          phoneNumber,
+          dates: selectedDates,
+          earliestTime: earliestTime || undefined,
+          latestTime: latestTime || undefined,
+          serviceId,
+          barberId,
+        }),
+      })
+
+      if (response.ok) {
+        setJoined(true)
+      } else {
+        const data = await response.json().catch(() => ({}))
+        setError(data.details?.[0]?.message || data.error || 'Failed to join the waitlist')
+      }
+    } catch (err) {
+      console.error('Failed to join waitlist:', err)
+      setError('Failed to join the waitlist')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (joined) {
+    return (
+      <Card className={className}>
+        <CardContent className="pt-6 text-center">
+          <CheckCircle className="w-10 h-10 text-green-500 mx-auto mb-2" />
+          <p className="font-medium">You&apos;re on the waitlist</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            If a time opens up we&apos;ll text you a link. Each opening is held for {APP_CONFIG.WAITLIST_HOLD_MINUTES} minutes before it goes to the next person in line.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          Join the Waitlist
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          We&apos;ll text you if a time opens up on the days you pick.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Days</Label>
+            <div className="flex flex-wrap gap-2">
+              {dayOptions.map((day) => {
+                const dateKey = businessDateKey(day)
+                const selected = selectedDates.includes(dateKey)
+                return (
+                  <Button
+                    key={dateKey}
+                    type="button"
+                    size="sm"
+                    variant={selected ? "default" : "outline"}
+                    onClick={() => toggleDate(dateKey)}
+                    className={cn("text-xs", selected && "ring-2 ring-ring ring-offset-2")}
+                  >
+                    {formatBusinessDateShort(day)}
+                  </Button>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-earliest">Earliest time (optional)</Label>
+              <Input
+                id="waitlist-earliest"
+                type="time"
+                step={settings.slotInterval * 60}
+                value={earliestTime}
+                onChange={(e) => setEarliestTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-latest">Latest time (optional)</Label>
+              <Input
+                id="waitlist-latest"
+                type="time"
+                step={settings.slotInterval * 60}
+                value={latestTime}
+                onChange={(e) => setLatestTime(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-name">Full Name</Label>
+              <Input
+                id="waitlist-name"
+                placeholder="Enter your full name"
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-phone">Phone Number</Label>
+              <Input
+                id="waitlist-phone"
+                type="tel"
+                placeholder="(555) 123-4567"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={submitting || !clientName || !phoneNumber || selectedDates.length === 0}
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Joining...
+              </>
+            ) : (
+              'Notify Me'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,6 +11,9 @@ interface SimpleCalendarProps {
   disabled?: (date: Date) => boolean
   blockedDates?: Date[]
   availableDates?: Date[]
+  fullyBookedDates?: Date[] // Greyed out: open that day, but every time is taken
+  fewLeftDates?: Date[] // Marked with a dot: only a few times left
+  onMonthChange?: (month: Date) => void
   className?: string
 }
 
@@ -20,12 +23,24 @@ export function SimpleCalendar({
   disabled,
   blockedDates = [],
   availableDates = [],
+  fullyBookedDates = [],
+  fewLeftDates = [],
+  onMonthChange,
   className
 }: SimpleCalendarProps) {
   const [currentMonth, setCurrentMonth] = React.useState(
     selected || new Date()
   )
 
+  // Follow a selection made outside the calendar (e.g. a suggested time in another month)
+  React.useEffect(() => {
+    if (!selected) return
+    setCurrentMonth((month) => {
+      if (month.getFullYear() === selected.getFullYear() && month.getMonth() === selected.getMonth()) return month
+      return new Date(selected.getFullYear(), selected.getMonth())
+    })
+  }, [selected])
+
   const daysOfWeek = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"]
   const monthNames = [
     "January", "February", "March", "April", "May", "June",
@@ -67,14 +82,19 @@ export function SimpleCalendar({
     return days
   }
 
+  const changeMonth = (month: Date) => {
+    setCurrentMonth(month)
+    onMonthChange?.(month)
+  }
+
   const goToPreviousMonth = () => {
-    setCurrentMonth(
+    changeMonth(
       new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1)
     )
   }
 
   const goToNextMonth = () => {
-    setCurrentMonth(
+    changeMonth(
       new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1)
     )
   }
@@ -96,6 +116,14 @@ export function SimpleCalendar({
     return availableDates.some(availableDate => isSameDay(date, availableDate))
   }
 
+  const isFullyBooked = (date: Date) => {
+    return fullyBookedDates.some(bookedDate => isSameDay(date, bookedDate))
+  }
+
+  const isFewLeft = (date: Date) => {
+    return fewLeftDates.some(fewLeftDate => isSameDay(date, fewLeftDate))
+  }
+
   const days = generateCalendarDays()
 
   return (
@@ -146,24 +174,31 @@ export function SimpleCalendar({
           const isDisabled = disabled ? disabled(date) : false
           const isDateBlocked = isBlocked(date)
           const isDateAvailable = isAvailable(date)
+          const isDateFullyBooked = isFullyBooked(date)
+          const isDateFewLeft = !isDateFullyBooked && isFewLeft(date)
 
           return (
             <button
               key={date.toISOString()}
               onClick={() => !isDisabled && onSelect?.(date)}
               disabled={isDisabled}
+              title={isDateFullyBooked ? "Fully booked" : isDateFewLeft ? "Only a few times left" : undefined}
               className={cn(
-                "h-9 w-9 text-sm rounded-md transition-colors",
+                "relative h-9 w-9 text-sm rounded-md transition-colors",
                 "hover:bg-accent hover:text-accent-foreground",
                 "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
                 isSelected && "bg-blue-700 text-white font-bold hover:bg-blue-800 hover:text-white",
                 isDisabled && "bg-muted/50 text-muted-foreground cursor-not-allowed opacity-50 hover:bg-muted/50 hover:text-muted-foreground",
                 isDateBlocked && !isSelected && "bg-red-100 text-red-700 font-semibold hover:bg-red-200 hover:text-red-800",
                 isDateAvailable && !isSelected && !isDateBlocked && "bg-green-100 text-green-700 font-semibold hover:bg-green-200 hover:text-green-800",
+                isDateFullyBooked && !isSelected && "bg-muted text-muted-foreground line-through hover:bg-muted hover:text-muted-foreground",
                 !isSelected && !isDisabled && !isDateBlocked && !isDateAvailable && "hover:bg-accent"
               )}
             >
               {date.getDate()}
+              {isDateFewLeft && (
+                <span className="absolute bottom-1 left-1/2 -translate-x-1/2 h-1 w-1 rounded-full bg-amber-500" />
+              )}
             </button>
           )
         })}
@@ -0,0 +1,40 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+export interface AdminBarber {
+  id: string
+  name: string
+  phoneNumber: string | null
+  email: string | null
+  googleCalendarId: string | null
+  isActive: boolean
+  sortOrder: number
+  generateSlots: boolean
+  slotsGeneratedThrough: string | null
+}
+
+// Full barber roster (including inactive barbers) for admin filters and forms
+export function useBarbers() {
+  const [barbers, setBarbers] = useState<AdminBarber[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const refresh = async () => {
+    try {
+      const response = await fetch('/api/barbers?includeInactive=true')
+      if (response.ok) {
+        setBarbers(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch barbers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  return { barbers, loading, refresh }
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { DEFAULT_BUSINESS_SETTINGS, type BusinessSettings } from "@/lib/constants"
+
+// Shop details for client-facing pages; shows the defaults until the saved settings load
+export function useBusinessSettings() {
+  const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS)
+  const [loading, setLoading] = useState(true)
+
+  const refresh = async () => {
+    try {
+      const response = await fetch('/api/settings')
+      if (response.ok) {
+        setSettings(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch business settings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  return { settings, loading, refresh }
+}
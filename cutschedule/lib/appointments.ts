@@ -0,0 +1,213 @@
+import { subHours } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { APP_CONFIG } from '@/lib/constants'
+import { sendCancellationSMS, sendConfirmationSMS, sendGroupConfirmationSMS } from '@/lib/sms'
+import { createCalendarEvent, deleteCalendarEvent } from '@/lib/calendar'
+import { offerOpenings } from '@/lib/waitlist'
+import { settleDeposit, type DepositOutcome } from '@/lib/payments'
+import { refreshClientStats } from '@/lib/clients'
+
+// Shown when a client tries to change an appointment online or by SMS too close to its start
+export function lateChangeMessage(businessPhone: string): string {
+  return `Changes within ${APP_CONFIG.CHANGE_CUTOFF_HOURS} hours of your appointment can't be made online. Please call us at ${businessPhone}.`
+}
+
+// Last moment a client can cancel or reschedule themselves; after it they have to call the shop
+export function selfServiceDeadline(startTime: Date): Date {
+  return subHours(startTime, APP_CONFIG.CHANGE_CUTOFF_HOURS)
+}
+
+export function isPastSelfServiceDeadline(startTime: Date): boolean {
+  return new Date() > selfServiceDeadline(startTime)
+}
+
+/**
+ * Text the client a confirmation and add a new booking to the barber's Google Calendar.
+ * notifyClient: false skips the text (later occurrences of a recurring series).
+ * Failures are logged; the booking stands either way.
+ */
+export async function announceNewAppointment(
+  appointment: {
+    id: string
+    clientName: string
+    phoneNumber: string
+    date: Date
+    startTime: Date
+    endTime: Date
+    barber?: { name: string } | null
+  },
+  serviceName: string,
+  calendarId?: string | null,
+  options: { notifyClient?: boolean } = {}
+) {
+  // Send confirmation SMS
+  if (options.notifyClient !== false) {
+    try {
+      const smsResult = await sendConfirmationSMS(appointment)
+      if (smsResult.success) {
+        console.log('Confirmation SMS sent successfully:', smsResult.messageId)
+      } else {
+        console.error('Failed to send confirmation SMS:', smsResult.error)
+      }
+    } catch (error) {
+      console.error('Error sending confirmation SMS:', error)
+      // Don't fail the appointment creation if SMS fails
+    }
+  }
+
+  // Create Google Calendar event
+  try {
+    const ownerEmail = process.env.GOOGLE_CALENDAR_OWNER_EMAIL || process.env.ADMIN_EMAIL
+    const calendarResult = await createCalendarEvent(
+      { ...appointment, serviceName, calendarId },
+      ownerEmail
+    )
+    if (calendarResult.success && calendarResult.eventId) {
+      console.log('Calendar event created successfully:', calendarResult.eventId)
+
+      // Update appointment with Google Calendar event ID
+      await prisma.appointment.update({
+        where: { id: appointment.id },
+        data: { googleEventId: calendarResult.eventId },
+      })
+    } else {
+      console.error('Failed to create calendar event:', calendarResult.error)
+    }
+  } catch (error) {
+    console.error('Error creating calendar event:', error)
+    // Don't fail the appointment creation if calendar event fails
+  }
+}
+
+/**
+ * Announce a group booking: one calendar event per person and a single combined text
+ * to the contact, who is the first appointment in the list.
+ */
+export async function announceGroupBooking(
+  appointments: Parameters<typeof announceNewAppointment>[0][],
+  serviceName: string,
+  calendarId?: string | null
+) {
+  for (const appointment of appointments) {
+    await announceNewAppointment(appointment, serviceName, calendarId, { notifyClient: false })
+  }
+
+  try {
+    const smsResult = await sendGroupConfirmationSMS(appointments)
+    if (smsResult.success) {
+      console.log('Group confirmation SMS sent successfully:', smsResult.messageId)
+    } else {
+      console.error('Failed to send group confirmation SMS:', smsResult.error)
+    }
+  } catch (error) {
+    console.error('Error sending group confirmation SMS:', error)
+  }
+}
+
+/**
+ * Cancel an appointment and clean up after it: notify the client by SMS, settle any deposit,
+ * remove the Google Calendar event and offer the freed time to the waitlist.
+ * byShop marks cancellations the shop made itself, which always refund the deposit. A client
+ * cancelling inside the self-service cutoff (usually by calling) is flagged as a late cancellation.
+ * notifyClient: false skips the cancellation text (ending a recurring series cancels several at once).
+ * Idempotent - a second call is a no-op apart from retrying the calendar cleanup.
+ */
+export async function cancelAppointment(id: string, options: { byShop?: boolean; notifyClient?: boolean } = {}) {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id },
+    include: { barber: true },
+  })
+
+  if (!appointment) return null
+
+  const lateCancellation = !options.byShop &&
+    appointment.status === 'confirmed' &&
+    isPastSelfServiceDeadline(appointment.startTime)
+
+  // Only transition confirmed (or still awaiting payment) -> cancelled once
+  const updateResult = await prisma.appointment.updateMany({
+    where: { id, status: { in: ['confirmed', 'pending_payment'] } },
+    data: { status: 'cancelled', paymentExpiresAt: null, lateCancellation, calendarSequence: { increment: 1 } },
+  })
+  const cancelled = updateResult.count > 0
+
+  if (cancelled && lateCancellation) {
+    await refreshClientStats([appointment.clientId])
+  }
+
+  let deposit: DepositOutcome | null = null
+  if (cancelled) {
+    try {
+      deposit = await settleDeposit(appointment, { byShop: options.byShop ?? false })
+    } catch (error) {
+      console.error('Error settling deposit on cancellation:', error)
+    }
+  }
+
+  // Send cancellation SMS; an unpaid hold was never confirmed to the client
+  try {
+    if (cancelled && appointment.status === 'confirmed' && options.notifyClient !== false) {
+      const smsResult = await sendCancellationSMS(appointment)
+      if (smsResult.success) {
+        console.log('Cancellation SMS sent successfully:', smsResult.messageId)
+      } else {
+        console.error('Failed to send cancellation SMS:', smsResult.error)
+      }
+    } else {
+      console.log('Cancellation SMS suppressed: appointment was already cancelled, never confirmed, or the client is told otherwise')
+    }
+  } catch (error) {
+    console.error('Error sending cancellation SMS:', error)
+    // Don't fail the cancellation if SMS fails
+  }
+
+  // Delete Google Calendar event
+  if (appointment.googleEventId) {
+    try {
+      const ownerEmail = process.env.GOOGLE_CALENDAR_OWNER_EMAIL || process.env.ADMIN_EMAIL
+      const calendarResult = await deleteCalendarEvent(
+        appointment.googleEventId,
+        ownerEmail,
+        appointment.barber?.googleCalendarId
+      )
+      if (calendarResult.success) {
+        console.log('Calendar event deleted successfully:', appointment.googleEventId)
+        // Clear the googleEventId on the appointment record
+        await prisma.appointment.update({
+          where: { id },
+          data: { googleEventId: null },
+        })
+      } else {
+        console.error('Failed to delete calendar event:', calendarResult.error)
+      }
+    } catch (error) {
+      console.error('Error deleting calendar event:', error)
+      // Don't fail the cancellation if calendar deletion fails
+    }
+  }
+
+  // Offer the freed time to clients waiting on that day
+  if (cancelled) {
+    try {
+      await offerOpenings(appointment.date)
+    } catch (error) {
+      console.error('Error offering cancelled time to the waitlist:', error)
+    }
+  }
+
+  const cancelledAppointment = await prisma.appointment.findUnique({ where: { id } })
+  return { appointment: cancelledAppointment, cancelled, deposit }
+}
+
+// The client's next confirmed appointment, matched on the number they booked with
+export async function findNextUpcomingAppointment(phoneNumber: string) {
+  return prisma.appointment.findFirst({
+    where: {
+      phoneNumber,
+      status: 'confirmed',
+      startTime: { gt: new Date() },
+    },
+    include: { service: true, barber: true },
+    orderBy: { startTime: 'asc' },
+  })
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { getServerSession, type Session } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ADMIN_ROLES, type AdminRole } from '@/lib/constants'
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  [ADMIN_ROLES.VIEWER]: 0,
+  [ADMIN_ROLES.STAFF]: 1,
+  [ADMIN_ROLES.ADMIN]: 2,
+}
+
+export function hasRole(role: string | null | undefined, required: AdminRole): boolean {
+  if (!role || !(role in ROLE_RANK)) return false
+  return ROLE_RANK[role as AdminRole] >= ROLE_RANK[required]
+}
+
+export type RoleCheck =
+  | { ok: true; session: Session }
+  | { ok: false; response: NextResponse }
+
+/**
+ * Guard for admin API routes. Viewers can read, staff can run the day-to-day
+ * schedule, and admins can also change shop configuration and access.
+ */
+export async function requireRole(required: AdminRole): Promise<RoleCheck> {
+  const session = await getServerSession(authOptions)
+
+  if (!session || !session.user || !session.user.email) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    }
+  }
+
+  if (!hasRole(session.user.role, required)) {
+    console.warn(`[Auth Audit] ${session.user.email} (${session.user.role ?? 'no role'}) denied ${required} access`)
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }),
+    }
+  }
+
+  return { ok: true, session }
+}
@@ -2,6 +2,7 @@ import type { NextAuthOptions } from 'next-auth'
 import GoogleProvider from 'next-auth/providers/google'
 import { PrismaAdapter } from '@auth/prisma-adapter'
 import { prisma } from '@/lib/db'
+import { ADMIN_ROLES } from '@/lib/constants'
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET
@@ -39,6 +40,18 @@ function sanitizeAccountObject(account: any): void {
   }
 }
 
+// ADMIN_EMAIL is always let in as an admin so a fresh install can't lock itself out
+async function resolveAllowedRole(email?: string | null): Promise<string | null> {
+  if (!email) return null
+  const normalized = email.toLowerCase()
+
+  const bootstrapEmail = process.env.ADMIN_EMAIL?.toLowerCase()
+  if (bootstrapEmail && normalized === bootstrapEmail) return ADMIN_ROLES.ADMIN
+
+  const entry = await prisma.allowedEmail.findUnique({ where: { email: normalized } })
+  return entry?.role ?? null
+}
+
 // Customize the Prisma adapter to handle missing sessions gracefully during deletion
 const customAdapter = {
   ...PrismaAdapter(prisma),
@@ -80,7 +93,12 @@ export const authOptions: NextAuthOptions = {
       // Sanitize account object to avoid PrismaAdapter issues with unexpected fields
       if (account) sanitizeAccountObject(account)
 
-      // OAuth allowed test users provide access control - no admin table needed
+      const role = await resolveAllowedRole(user.email)
+      if (!role) {
+        console.warn('[Auth Audit] Sign in rejected, email not on allowlist:', user.email)
+        return false
+      }
+
       return true
     },
     async redirect({ url, baseUrl }) {
@@ -91,7 +109,7 @@ export const authOptions: NextAuthOptions = {
     async session({ session, user }) {
       if (user && session.user) {
         session.user.id = user.id
-        // No admin privileges - OAuth allowed test users provide access control
+        session.user.role = user.role ?? null
       }
 
       if (process.env.NODE_ENV === 'development') {
@@ -104,6 +122,15 @@ export const authOptions: NextAuthOptions = {
       return session
     },
   },
+  events: {
+    // Runs after the adapter has created the user, so first-time sign ins get their role too
+    async signIn({ user }) {
+      const role = await resolveAllowedRole(user.email)
+      if (role && user.id) {
+        await prisma.user.update({ where: { id: user.id }, data: { role } })
+      }
+    },
+  },
   pages: {
     signIn: '/admin/login',
     error: '/admin/login',
@@ -0,0 +1,142 @@
+import { addDays, addMinutes, format, parseISO } from 'date-fns'
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+
+/**
+ * Pure availability rules shared by every route that offers or checks a time: no database,
+ * no settings and no clock, so the same inputs always give the same answer.
+ *
+ * Windows, blocks and start times are wall-clock "HH:mm" on one business day in timeZone
+ * ("24:00" ends a range at midnight). Durations, buffers and overlaps are measured in real
+ * minutes between instants, so a booking that runs across a DST change takes its true length.
+ * On the spring-forward day, start times inside the skipped hour don't exist and are never
+ * offered; on the fall-back day, a repeated "HH:mm" means its first occurrence.
+ */
+
+export type TimeRange = { startTime: string; endTime: string }
+
+// An existing booking or hold; bufferMinutes of cleanup after it are blocked too
+export type Booking = { startTime: Date; endTime: Date; bufferMinutes: number }
+
+export interface DaySchedule {
+  date: string // "yyyy-MM-dd" in timeZone
+  timeZone: string
+  windows: TimeRange[] // When the barber takes bookings; a booking must fit inside one window
+  blocks?: TimeRange[] // Cut out of the windows (breaks, part-day time off)
+  bookings: Booking[]
+}
+
+export interface SlotRequest {
+  durationMinutes: number
+  bufferMinutes: number // Cleanup after the new booking; may run past the window but not into a booking
+}
+
+export type StartCheck = 'ok' | 'outside_window' | 'conflict'
+
+/**
+ * Start times ("HH:mm", sorted) a booking can take on the day. Candidates step by intervalMinutes
+ * from the start of each window; starts before notBefore (usually now) are left out.
+ */
+export function bookableStarts(
+  day: DaySchedule,
+  request: SlotRequest & { intervalMinutes: number; notBefore?: Date }
+): string[] {
+  if (request.intervalMinutes <= 0) throw new Error('intervalMinutes must be positive')
+
+  const starts = new Set<string>()
+  for (const window of openWindows(day)) {
+    for (let minutes = toMinutes(window.startTime); minutes < toMinutes(window.endTime); minutes += request.intervalMinutes) {
+      const time = toTime(minutes)
+      if (starts.has(time)) continue
+
+      const startTime = wallClockInstant(day, minutes)
+      if (!startTime) continue
+      if (request.notBefore && startTime < request.notBefore) continue
+
+      if (checkInstant(day, request, startTime) === 'ok') starts.add(time)
+    }
+  }
+
+  return Array.from(starts).sort()
+}
+
+/**
+ * Whether a booking can start at "HH:mm", without requiring the time to be on the interval grid.
+ * outside_window: the booking doesn't fit inside a window (or the time doesn't exist that day);
+ * conflict: it fits, but it or its buffer runs into another booking.
+ */
+export function checkStart(day: DaySchedule, request: SlotRequest, time: string): StartCheck {
+  const startTime = wallClockInstant(day, toMinutes(time))
+  if (!startTime) return 'outside_window'
+  return checkInstant(day, request, startTime)
+}
+
+// Cut "HH:mm" ranges out of windows, splitting a window when a range falls in its middle
+export function subtractWindows(windows: TimeRange[], cuts: TimeRange[]): TimeRange[] {
+  let remaining = windows.map(window => ({ start: toMinutes(window.startTime), end: toMinutes(window.endTime) }))
+  for (const cut of cuts) {
+    const cutStart = toMinutes(cut.startTime)
+    const cutEnd = toMinutes(cut.endTime)
+    remaining = remaining.flatMap(window => {
+      if (cutEnd <= window.start || cutStart >= window.end) return [window]
+      return [
+        { start: window.start, end: cutStart },
+        { start: cutEnd, end: window.end },
+      ].filter(part => part.end > part.start)
+    })
+  }
+
+  return remaining.map(window => ({ startTime: toTime(window.start), endTime: toTime(window.end) }))
+}
+
+function checkInstant(day: DaySchedule, request: SlotRequest, startTime: Date): StartCheck {
+  const endTime = addMinutes(startTime, request.durationMinutes)
+  const fits = openWindows(day).some(window =>
+    startTime >= boundaryInstant(day, toMinutes(window.startTime)) &&
+    endTime <= boundaryInstant(day, toMinutes(window.endTime))
+  )
+  if (!fits) return 'outside_window'
+
+  const endWithBuffer = addMinutes(endTime, request.bufferMinutes)
+  const conflicts = day.bookings.some(booking =>
+    booking.startTime < endWithBuffer && addMinutes(booking.endTime, booking.bufferMinutes) > startTime
+  )
+  return conflicts ? 'conflict' : 'ok'
+}
+
+function openWindows(day: DaySchedule): TimeRange[] {
+  return day.blocks?.length ? subtractWindows(day.windows, day.blocks) : day.windows
+}
+
+// The instant of a wall-clock time, or null when the clock skips it (spring forward)
+function wallClockInstant(day: DaySchedule, minutes: number): Date | null {
+  const { dateKey, time } = wallClock(day.date, minutes)
+  const instant = fromZonedTime(`${dateKey}T${time}:00.000`, day.timeZone)
+  return formatInTimeZone(instant, day.timeZone, 'yyyy-MM-dd HH:mm') === `${dateKey} ${time}` ? instant : null
+}
+
+// Like wallClockInstant, but a window edge inside a skipped hour is the moment the clock jumps
+function boundaryInstant(day: DaySchedule, minutes: number): Date {
+  for (let minute = minutes; minute < minutes + 24 * 60; minute++) {
+    const instant = wallClockInstant(day, minute)
+    if (instant) return instant
+  }
+  throw new Error(`No wall-clock time from ${toTime(minutes)} on ${day.date} exists in ${day.timeZone}`)
+}
+
+// "24:00" and later roll over to the next calendar day
+function wallClock(date: string, minutes: number): { dateKey: string; time: string } {
+  const dayOffset = Math.floor(minutes / (24 * 60))
+  return {
+    dateKey: dayOffset === 0 ? date : format(addDays(parseISO(date), dayOffset), 'yyyy-MM-dd'),
+    time: toTime(minutes - dayOffset * 24 * 60),
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
@@ -0,0 +1,291 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { format, addDays, addMinutes } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+import { getBusinessDayRange, combineDateTime, parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { bufferAfter } from '@/lib/services'
+import { loadTimeOff, subtractTimeOff, timeOffOn } from '@/lib/time-off'
+import { bookableStarts, checkStart, type DaySchedule, type TimeRange } from '@/lib/availability-engine'
+
+export type AvailabilityWindow = TimeRange
+
+export type BlockingAppointment = {
+  startTime: Date
+  endTime: Date
+  service?: { bufferMinutes: number } | null
+}
+
+// One barber's windows and confirmed appointments for a day. barberId is null for legacy rows.
+export interface BarberDay {
+  barberId: string | null
+  windows: AvailabilityWindow[]
+  appointments: BlockingAppointment[]
+}
+
+export interface LoadBarberDaysOptions {
+  barberId?: string | null
+  excludeAppointmentId?: string
+  excludeWaitlistOfferId?: string
+  excludeHoldSessionId?: string
+  db?: Prisma.TransactionClient
+}
+
+/**
+ * Load the day's availability windows and confirmed appointments, grouped per barber.
+ * Openings held for a waitlisted client, for a client paying a deposit, or for a client
+ * filling in their details count as appointments until the hold expires.
+ * Time off is cut out of the windows.
+ * - barberId undefined: every active barber (plus unassigned legacy rows), in display order
+ * - barberId string/null: only that barber's (or the unassigned) schedule
+ * Barbers without any window on the day are omitted.
+ * Pass db to read inside a withBookingLock transaction.
+ */
+export async function loadBarberDays(date: Date, options: LoadBarberDaysOptions = {}): Promise<BarberDay[]> {
+  const days = await loadBarberDaysInRange(date, date, options)
+  return days.get(businessDateKey(date)) ?? []
+}
+
+/**
+ * loadBarberDays for every business day from `from` through `to`, with one query per table
+ * for the whole range. Keyed by "yyyy-MM-dd"; days where nobody has a window are left out.
+ */
+export async function loadBarberDaysInRange(
+  from: Date,
+  to: Date,
+  options: LoadBarberDaysOptions = {}
+): Promise<Map<string, BarberDay[]>> {
+  const db = options.db ?? prisma
+  const { start: rangeStart } = getBusinessDayRange(from)
+  const { endExclusive: rangeEnd } = getBusinessDayRange(to)
+  const scoped = options.barberId !== undefined
+  const barberWhere = scoped
+    ? { barberId: options.barberId }
+    : { OR: [{ barberId: null }, { barber: { isActive: true } }] }
+
+  const [windows, bookedAppointments, heldOffers, slotHolds, timeOff] = await Promise.all([
+    db.availableSlot.findMany({
+      where: {
+        date: { gte: rangeStart, lt: rangeEnd },
+        ...barberWhere,
+      },
+      include: { barber: { select: { name: true, sortOrder: true } } },
+    }),
+    db.appointment.findMany({
+      where: {
+        date: { gte: rangeStart, lt: rangeEnd },
+        OR: [
+          { status: 'confirmed' },
+          { status: 'pending_payment', paymentExpiresAt: { gt: new Date() } },
+        ],
+        ...(options.excludeAppointmentId ? { id: { not: options.excludeAppointmentId } } : {}),
+        ...(scoped ? { barberId: options.barberId } : {}),
+      },
+      select: {
+        startTime: true,
+        endTime: true,
+        barberId: true,
+        service: { select: { bufferMinutes: true } },
+      },
+    }),
+    db.waitlistOffer.findMany({
+      where: {
+        startTime: { gte: rangeStart, lt: rangeEnd },
+        status: 'pending',
+        expiresAt: { gt: new Date() },
+        ...(options.excludeWaitlistOfferId ? { id: { not: options.excludeWaitlistOfferId } } : {}),
+        ...(scoped ? { barberId: options.barberId } : {}),
+      },
+      select: { startTime: true, endTime: true, barberId: true },
+    }),
+    db.slotHold.findMany({
+      where: {
+        startTime: { gte: rangeStart, lt: rangeEnd },
+        expiresAt: { gt: new Date() },
+        ...(options.excludeHoldSessionId ? { sessionId: { not: options.excludeHoldSessionId } } : {}),
+        ...(scoped ? { barberId: options.barberId } : {}),
+      },
+      select: { startTime: true, endTime: true, barberId: true },
+    }),
+    loadTimeOff(rangeStart, rangeEnd, db),
+  ])
+  const appointments = [...bookedAppointments, ...heldOffers, ...slotHolds]
+    .map(apt => ({ ...apt, dateKey: businessDateKey(apt.startTime) }))
+
+  const days = new Map<string, Map<string | null, BarberDay & { sortOrder: number; name: string }>>()
+  for (const window of windows) {
+    const dateKey = businessDateKey(window.date)
+    let barberDays = days.get(dateKey)
+    if (!barberDays) {
+      barberDays = new Map()
+      days.set(dateKey, barberDays)
+    }
+
+    let day = barberDays.get(window.barberId)
+    if (!day) {
+      day = {
+        barberId: window.barberId,
+        windows: [],
+        appointments: appointments.filter(apt => apt.dateKey === dateKey && apt.barberId === window.barberId),
+        // Unassigned legacy windows sort after every real barber
+        sortOrder: window.barber?.sortOrder ?? Number.MAX_SAFE_INTEGER,
+        name: window.barber?.name ?? '',
+      }
+      barberDays.set(window.barberId, day)
+    }
+    day.windows.push({ startTime: window.startTime, endTime: window.endTime })
+  }
+
+  const result = new Map<string, BarberDay[]>()
+  for (const [dateKey, barberDays] of days) {
+    const open = Array.from(barberDays.values())
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+      .map(({ barberId, windows, appointments }) => ({
+        barberId,
+        windows: subtractTimeOff(windows, timeOffOn(timeOff, dateKey, barberId)),
+        appointments,
+      }))
+      .filter(day => day.windows.length > 0)
+    if (open.length > 0) result.set(dateKey, open)
+  }
+  return result
+}
+
+/**
+ * Pick the first barber (in display order) who can take the booking.
+ * Returns the reason when nobody can, so callers can surface the right error.
+ */
+export function pickBarberDay(
+  days: BarberDay[],
+  time: string,
+  startTime: Date,
+  endTime: Date,
+  bufferMinutes: number
+): { day: BarberDay } | { error: 'outside_window' | 'conflict' } {
+  const request = { durationMinutes: Math.round((endTime.getTime() - startTime.getTime()) / 60000), bufferMinutes }
+  const dateKey = businessDateKey(startTime)
+  const checks = days.map(day => ({ day, check: checkStart(toSchedule(day, dateKey), request, time) }))
+
+  const open = checks.find(({ check }) => check === 'ok')
+  if (open) return { day: open.day }
+  return { error: checks.some(({ check }) => check === 'conflict') ? 'conflict' : 'outside_window' }
+}
+
+// Whether a booking of durationMinutes has at least one start time in the window on the business day
+export function windowCanHold(dateKey: string, window: AvailabilityWindow, durationMinutes: number, slotInterval: number): boolean {
+  return bookableStarts(
+    { date: dateKey, timeZone: BUSINESS_TIME_ZONE, windows: [window], bookings: [] },
+    { durationMinutes, bufferMinutes: 0, intervalMinutes: slotInterval }
+  ).length > 0
+}
+
+/**
+ * Minutes a group booking occupies with one barber: everyone's service back-to-back, with the
+ * service buffer between people. The buffer after the last person is left to the caller.
+ */
+export function groupBlockMinutes(durationMinutes: number, bufferMinutes: number, people: number): number {
+  return people * durationMinutes + (people - 1) * bufferMinutes
+}
+
+// Each person's appointment within a group block that starts at startTime
+export function backToBackTimes(
+  startTime: Date,
+  durationMinutes: number,
+  bufferMinutes: number,
+  people: number
+): { startTime: Date; endTime: Date }[] {
+  return Array.from({ length: people }, (_, index) => {
+    const personStart = addMinutes(startTime, index * (durationMinutes + bufferMinutes))
+    return { startTime: personStart, endTime: addMinutes(personStart, durationMinutes) }
+  })
+}
+
+// Start times ("HH:mm") bookable with at least one of the given barbers; past times are left out
+export function generateSlotsForDays(
+  days: BarberDay[],
+  targetDate: Date,
+  durationMinutes: number,
+  bufferMinutes: number,
+  slotInterval: number
+): string[] {
+  const dateKey = businessDateKey(targetDate)
+  const request = { durationMinutes, bufferMinutes, intervalMinutes: slotInterval, notBefore: new Date() }
+
+  const slots = new Set<string>()
+  for (const day of days) {
+    for (const slot of bookableStarts(toSchedule(day, dateKey), request)) {
+      slots.add(slot)
+    }
+  }
+  return Array.from(slots).sort()
+}
+
+/**
+ * The earliest bookable start times from now onward, searching up to the
+ * advance-booking limit a week at a time. For suggesting times where there is no day picker.
+ * - weekdays: only these days of the week (0 = Sunday)
+ * - earliestTime/latestTime: only start times in this "HH:mm" range, inclusive
+ */
+export async function findNextOpenSlots(options: {
+  barberId?: string | null
+  durationMinutes: number
+  bufferMinutes: number
+  limit: number
+  excludeAppointmentId?: string
+  excludeHoldSessionId?: string
+  weekdays?: number[]
+  earliestTime?: string
+  latestTime?: string
+}): Promise<Date[]> {
+  const found: Date[] = []
+  const todayZoned = toZonedTime(new Date(), BUSINESS_TIME_ZONE)
+  const settings = await getBusinessSettings()
+
+  for (let weekStart = 0; weekStart <= settings.maxAdvanceDays && found.length < options.limit; weekStart += 7) {
+    const weekEnd = Math.min(weekStart + 6, settings.maxAdvanceDays)
+    const daysByDate = await loadBarberDaysInRange(
+      parseDateInLocalTimezone(format(addDays(todayZoned, weekStart), 'yyyy-MM-dd')),
+      parseDateInLocalTimezone(format(addDays(todayZoned, weekEnd), 'yyyy-MM-dd')),
+      {
+        barberId: options.barberId,
+        excludeAppointmentId: options.excludeAppointmentId,
+        excludeHoldSessionId: options.excludeHoldSessionId,
+      }
+    )
+
+    for (let offset = weekStart; offset <= weekEnd && found.length < options.limit; offset++) {
+      const day = addDays(todayZoned, offset)
+      if (options.weekdays && !options.weekdays.includes(day.getDay())) continue
+
+      const dateKey = format(day, 'yyyy-MM-dd')
+      const days = daysByDate.get(dateKey)
+      if (!days) continue
+
+      const slots = generateSlotsForDays(days, parseDateInLocalTimezone(dateKey), options.durationMinutes, options.bufferMinutes, settings.slotInterval)
+      for (const slot of slots) {
+        if (options.earliestTime && slot < options.earliestTime) continue
+        if (options.latestTime && slot > options.latestTime) continue
+
+        found.push(combineDateTime(dateKey, slot))
+        if (found.length >= options.limit) break
+      }
+    }
+  }
+
+  return found
+}
+
+// One barber's day as the availability engine sees it; each appointment blocks its own service buffer
+function toSchedule(day: BarberDay, dateKey: string): DaySchedule {
+  return {
+    date: dateKey,
+    timeZone: BUSINESS_TIME_ZONE,
+    windows: day.windows,
+    bookings: day.appointments.map(apt => ({
+      startTime: apt.startTime,
+      endTime: apt.endTime,
+      bufferMinutes: bufferAfter(apt),
+    })),
+  }
+}
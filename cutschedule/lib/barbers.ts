@@ -0,0 +1,31 @@
+import { prisma } from '@/lib/db'
+
+export interface ResolvedBarber {
+  id: string
+  name: string
+  googleCalendarId: string | null
+}
+
+export async function getActiveBarbers() {
+  return prisma.barber.findMany({
+    where: { isActive: true },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  })
+}
+
+/**
+ * Resolve the barber a request is scoped to.
+ * - No barberId: undefined ("any barber")
+ * - Unknown or inactive barberId: null, so callers can reject the request
+ */
+export async function resolveBarber(barberId?: string | null): Promise<ResolvedBarber | null | undefined> {
+  if (!barberId) return undefined
+  const barber = await prisma.barber.findUnique({ where: { id: barberId } })
+  if (!barber || !barber.isActive) return null
+  return { id: barber.id, name: barber.name, googleCalendarId: barber.googleCalendarId }
+}
+
+// Name used in client-facing copy; legacy rows without a barber fall back to the shop name
+export function barberDisplayName(barber: { name: string } | null | undefined, businessName: string): string {
+  return barber?.name || businessName
+}
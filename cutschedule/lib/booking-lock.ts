@@ -0,0 +1,27 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { normalizePhoneNumber } from '@/lib/utils/validation'
+
+/**
+ * Run fn in a transaction that holds the booking lock for one business day ("yyyy-MM-dd").
+ * Everything that checks a day's openings and then writes an appointment into them goes through
+ * here, so two requests for the same time can't both pass the check. Postgres releases the
+ * advisory lock when the transaction commits or rolls back.
+ *
+ * With phoneNumber, the client's lock is taken as well (always before the day's, so two
+ * callers can't deadlock), so the one-upcoming-appointment check holds across days too.
+ */
+export async function withBookingLock<T>(
+  dateKey: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: { phoneNumber?: string } = {}
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    // $executeRaw because pg_advisory_xact_lock returns void, which $queryRaw can't deserialize
+    if (options.phoneNumber) {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`client:${normalizePhoneNumber(options.phoneNumber)}`}))`
+    }
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`booking:${dateKey}`}))`
+    return fn(tx)
+  }, { maxWait: 10000, timeout: 20000 })
+}
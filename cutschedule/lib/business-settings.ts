@@ -0,0 +1,44 @@
+import { prisma } from '@/lib/db'
+import { DEFAULT_BUSINESS_SETTINGS, type BusinessSettings } from '@/lib/constants'
+
+const SETTINGS_ID = 'default'
+const CACHE_TTL_MS = 60 * 1000
+
+let cached: { settings: BusinessSettings; expiresAt: number } | null = null
+
+/**
+ * The shop's settings, read from the database at most once a minute per server instance.
+ * Saving refreshes the instance that saved straight away; others catch up within the minute.
+ */
+export async function getBusinessSettings(): Promise<BusinessSettings> {
+  if (cached && cached.expiresAt > Date.now()) return cached.settings
+
+  const row = await prisma.businessSettings.findUnique({ where: { id: SETTINGS_ID } })
+  return remember(row ? toBusinessSettings(row) : DEFAULT_BUSINESS_SETTINGS)
+}
+
+export async function updateBusinessSettings(data: BusinessSettings): Promise<BusinessSettings> {
+  const row = await prisma.businessSettings.upsert({
+    where: { id: SETTINGS_ID },
+    create: { id: SETTINGS_ID, ...data },
+    update: data,
+  })
+  return remember(toBusinessSettings(row))
+}
+
+function remember(settings: BusinessSettings): BusinessSettings {
+  cached = { settings, expiresAt: Date.now() + CACHE_TTL_MS }
+  return settings
+}
+
+function toBusinessSettings(row: BusinessSettings): BusinessSettings {
+  return {
+    businessName: row.businessName,
+    address: row.address,
+    phone: row.phone,
+    bookingUrl: row.bookingUrl,
+    appointmentDuration: row.appointmentDuration,
+    slotInterval: row.slotInterval,
+    maxAdvanceDays: row.maxAdvanceDays,
+  }
+}
@@ -2,9 +2,11 @@ import { google, type calendar_v3 } from 'googleapis'
 import type { GaxiosError } from 'gaxios'
 import { formatInTimeZone } from 'date-fns-tz'
 import { prisma } from '@/lib/db'
+import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
 
-function getCalendarId(): string {
-  return process.env.GOOGLE_CALENDAR_ID || 'primary'
+// A barber's own calendar takes precedence over the shop-wide one
+function getCalendarId(override?: string | null): string {
+  return override || process.env.GOOGLE_CALENDAR_ID || 'primary'
 }
 
 // Initialize Google Calendar API with OAuth2 client
@@ -244,17 +246,20 @@ export type AppointmentForCalendar = {
   startTime: Date
   endTime: Date
   timeZone?: string
+  serviceName?: string
+  calendarId?: string | null
 }
 
 function buildHaircutEvent(appointment: AppointmentForCalendar): CalendarEvent {
   const clientName = (appointment.clientName || '').trim() || 'Client'
-  const tz = appointment.timeZone || process.env.DEFAULT_TIMEZONE || 'America/New_York'
+  const serviceName = appointment.serviceName || 'Haircut'
+  const tz = appointment.timeZone || BUSINESS_TIME_ZONE
   // Build RFC3339 strings in the target timezone with offset
   const startLocal = formatInTimeZone(appointment.startTime, tz, "yyyy-MM-dd'T'HH:mm:ssXXX")
   const endLocal = formatInTimeZone(appointment.endTime, tz, "yyyy-MM-dd'T'HH:mm:ssXXX")
   return {
-    summary: `Haircut - ${clientName}`,
-    description: `Haircut appointment for ${clientName}\nPhone: ${appointment.phoneNumber}\nAppointment ID: ${appointment.id}`,
+    summary: `${serviceName} - ${clientName}`,
+    description: `${serviceName} appointment for ${clientName}\nPhone: ${appointment.phoneNumber}\nAppointment ID: ${appointment.id}`,
     start: {
       dateTime: startLocal,
       timeZone: tz,
@@ -278,8 +283,9 @@ export async function createCalendarEvent(
     const result = await withEnvTokenRetry(async (cal?: calendar_v3.Calendar) => {
       const calendar = cal ?? await getCalendarClientWithFallback(userEmail)
       const event = buildHaircutEvent(appointment)
-      console.log('[Calendar] Creating event on', getCalendarId(), '→', { summary: event.summary, start: event.start, end: event.end })
-      const response = await calendar.events.insert({ calendarId: getCalendarId(), requestBody: event })
+      const calendarId = getCalendarId(appointment.calendarId)
+      console.log('[Calendar] Creating event on', calendarId, '→', { summary: event.summary, start: event.start, end: event.end })
+      const response = await calendar.events.insert({ calendarId, requestBody: event })
       console.log('[Calendar] Created event id:', response.data.id)
       return { success: true as const, eventId: response.data.id! }
     }, 'creating event')
@@ -305,8 +311,9 @@ export async function updateCalendarEvent(
     const result = await withEnvTokenRetry(async (cal?: calendar_v3.Calendar) => {
       const calendar = cal ?? await getCalendarClientWithFallback(userEmail)
       const event = buildHaircutEvent(appointment)
-      console.log('[Calendar] Updating event on', getCalendarId(), 'id:', eventId, '→', { summary: event.summary, start: event.start, end: event.end })
-      await calendar.events.update({ calendarId: getCalendarId(), eventId, requestBody: event })
+      const calendarId = getCalendarId(appointment.calendarId)
+      console.log('[Calendar] Updating event on', calendarId, 'id:', eventId, '→', { summary: event.summary, start: event.start, end: event.end })
+      await calendar.events.update({ calendarId, eventId, requestBody: event })
       console.log('[Calendar] Updated event id:', eventId)
       return { success: true as const }
     }, 'updating event')
@@ -325,13 +332,15 @@ export async function updateCalendarEvent(
 
 export async function deleteCalendarEvent(
   eventId: string,
-  userEmail?: string
+  userEmail?: string,
+  calendarIdOverride?: string | null
 ): Promise<{ success: boolean; error?: string }> {
+  const calendarId = getCalendarId(calendarIdOverride)
   const tryDelete = async (email?: string) => {
     await withEnvTokenRetry(async (cal?: calendar_v3.Calendar) => {
       const calendar = cal ?? await getCalendarClientWithFallback(email)
-      console.log('[Calendar] Deleting event on', getCalendarId(), 'with email', email)
-      await calendar.events.delete({ calendarId: getCalendarId(), eventId })
+      console.log('[Calendar] Deleting event on', calendarId, 'with email', email)
+      await calendar.events.delete({ calendarId, eventId })
       return true as const
     }, 'deleting event')
   }
@@ -0,0 +1,90 @@
+import { subDays } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { APP_CONFIG, APPOINTMENT_STATUS } from '@/lib/constants'
+import { normalizePhoneNumber } from '@/lib/utils/validation'
+import { getBusinessSettings } from '@/lib/business-settings'
+
+/**
+ * Find or create the client a booking belongs to, keyed by normalized phone number.
+ * The latest name wins; earlier spellings stay in nameHistory.
+ */
+export async function upsertClient(phoneNumber: string, name: string) {
+  const normalizedPhone = normalizePhoneNumber(phoneNumber)
+  const client = await prisma.client.upsert({
+    where: { phoneNumber: normalizedPhone },
+    create: { phoneNumber: normalizedPhone, name, nameHistory: [name] },
+    update: { name },
+  })
+
+  if (client.nameHistory.includes(name)) return client
+  return prisma.client.update({
+    where: { id: client.id },
+    data: { nameHistory: { push: name } },
+  })
+}
+
+/**
+ * Recompute visit count, last visit, no-shows and late cancellations from the clients' appointments.
+ * Call after appointments change status; counting from scratch keeps retries harmless.
+ */
+export async function refreshClientStats(clientIds: (string | null | undefined)[]) {
+  const ids = Array.from(new Set(clientIds.filter((id): id is string => !!id)))
+  if (ids.length === 0) return
+
+  const [groups, lateCancellations] = await Promise.all([
+    prisma.appointment.groupBy({
+      by: ['clientId', 'status'],
+      where: { clientId: { in: ids }, status: { in: [APPOINTMENT_STATUS.COMPLETED, APPOINTMENT_STATUS.NO_SHOW] } },
+      _count: { _all: true },
+      _max: { startTime: true },
+    }),
+    prisma.appointment.groupBy({
+      by: ['clientId'],
+      where: { clientId: { in: ids }, lateCancellation: true },
+      _count: { _all: true },
+    }),
+  ])
+
+  for (const id of ids) {
+    const completed = groups.find(group => group.clientId === id && group.status === APPOINTMENT_STATUS.COMPLETED)
+    const noShows = groups.find(group => group.clientId === id && group.status === APPOINTMENT_STATUS.NO_SHOW)
+    const late = lateCancellations.find(group => group.clientId === id)
+    await prisma.client.update({
+      where: { id },
+      data: {
+        visitCount: completed?._count._all ?? 0,
+        lastVisitAt: completed?._max.startTime ?? null,
+        noShowCount: noShows?._count._all ?? 0,
+        lateCancelCount: late?._count._all ?? 0,
+      },
+    })
+  }
+}
+
+export type NoShowPolicyCheck =
+  | { allowed: true }
+  | { allowed: false; noShows: number; error: string }
+
+/**
+ * Clients with NO_SHOW_LIMIT or more no-shows or late cancellations in the last NO_SHOW_WINDOW_DAYS
+ * have to call the shop to book. Counted by phone number so appointments not yet linked to a client count too.
+ */
+export async function checkNoShowPolicy(phoneNumber: string): Promise<NoShowPolicyCheck> {
+  if (APP_CONFIG.NO_SHOW_LIMIT <= 0) return { allowed: true }
+
+  const noShows = await prisma.appointment.count({
+    where: {
+      phoneNumber: normalizePhoneNumber(phoneNumber),
+      OR: [{ status: APPOINTMENT_STATUS.NO_SHOW }, { lateCancellation: true }],
+      startTime: { gte: subDays(new Date(), APP_CONFIG.NO_SHOW_WINDOW_DAYS) },
+    },
+  })
+
+  if (noShows < APP_CONFIG.NO_SHOW_LIMIT) return { allowed: true }
+
+  return {
+    allowed: false,
+    noShows,
+    error: `Online booking is unavailable after missed or late-cancelled appointments. Please call us at ${(await getBusinessSettings()).phone} to book.`,
+  }
+}
@@ -1,18 +1,76 @@
 export const APP_CONFIG = {
-  APPOINTMENT_DURATION: 44, // minutes
+  APPOINTMENT_DURATION: 44, // minutes; default for BusinessSettings
   BUFFER_TIME: 0, // minutes between appointments (no enforced gap)
-  SLOT_INTERVAL: 15, // minute intervals for time slots
-  MAX_ADVANCE_BOOKING_DAYS: parseInt(process.env.MAX_ADVANCE_DAYS || '25'),
+  SLOT_INTERVAL: 15, // minute intervals for time slots; default for BusinessSettings
+  MAX_ADVANCE_BOOKING_DAYS: parseInt(process.env.MAX_ADVANCE_DAYS || '25'), // default for BusinessSettings
+  SLOT_GENERATION_WEEKS: parseInt(process.env.SLOT_GENERATION_WEEKS || '4'), // weeks of available slots kept filled from working hours
+  WAITLIST_HOLD_MINUTES: 30, // minutes an opening is held for each waitlisted client
+  WAITLIST_MAX_DATES: 7, // preferred dates per waitlist request
+  NO_SHOW_LIMIT: parseInt(process.env.NO_SHOW_LIMIT || '2'), // recent no-shows before online booking is refused (0 = off)
+  NO_SHOW_WINDOW_DAYS: parseInt(process.env.NO_SHOW_WINDOW_DAYS || '90'), // how far back no-shows count
+  CALENDAR_FEED_PAST_DAYS: 30, // how far back the barber's calendar feed lists appointments
+  DEPOSIT_PERCENT: parseInt(process.env.DEPOSIT_PERCENT || '0'), // share of the service price paid online when booking (0 = off, 100 = prepay)
+  DEPOSIT_REFUND_CUTOFF_HOURS: parseInt(process.env.DEPOSIT_REFUND_CUTOFF_HOURS || '24'), // later client cancellations forfeit the deposit
+  CHANGE_CUTOFF_HOURS: parseInt(process.env.CHANGE_CUTOFF_HOURS || '12'), // clients must call to cancel or reschedule inside this window (0 = off)
+  GROUP_BOOKING_MAX_PEOPLE: 4, // people one contact can book back-to-back in a single booking
+  FEW_SLOTS_LEFT: 3, // open times on a day at or below which the booking calendar shows "few left"
+  NEXT_AVAILABLE_SUGGESTIONS: 5, // open times shown in the "Soonest available" panel
+  NEXT_AVAILABLE_MAX: 20, // most open times one /api/availability/next request returns
+  SLOT_HOLD_MINUTES: 5, // minutes a picked time is held while the client enters their details
+  PAYMENT_HOLD_MINUTES: 30, // minutes a slot is held while the client pays (Stripe checkouts are kept open at least 31)
+  // Shop details used until BusinessSettings is saved; read them through lib/business-settings
   BARBER_NAME: process.env.NEXT_PUBLIC_BARBER_NAME || 'CutSchedule Barbershop',
   BARBER_ADDRESS: process.env.NEXT_PUBLIC_BARBER_ADDRESS || '111 Gainsbourough Street',
   BARBER_PHONE: process.env.NEXT_PUBLIC_BARBER_PHONE || '(650) 305-1697',
   BOOKING_URL: process.env.BOOKING_URL || 'http://localhost:3001',
 } as const
 
+// Shop details and booking rules, edited from /admin/settings (lib/business-settings)
+export interface BusinessSettings {
+  businessName: string
+  address: string
+  phone: string
+  bookingUrl: string
+  appointmentDuration: number
+  slotInterval: number
+  maxAdvanceDays: number
+}
+
+// Used until the settings are first saved, so existing env configuration keeps working
+export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
+  businessName: APP_CONFIG.BARBER_NAME,
+  address: APP_CONFIG.BARBER_ADDRESS,
+  phone: APP_CONFIG.BARBER_PHONE,
+  bookingUrl: APP_CONFIG.BOOKING_URL.replace(/\/+$/, ''),
+  appointmentDuration: APP_CONFIG.APPOINTMENT_DURATION,
+  slotInterval: APP_CONFIG.SLOT_INTERVAL,
+  maxAdvanceDays: APP_CONFIG.MAX_ADVANCE_BOOKING_DAYS,
+}
+
+// Seeded service catalog. Durations and buffers are in minutes, prices in cents.
+export const DEFAULT_SERVICES = [
+  { slug: 'haircut', name: 'Haircut', durationMinutes: 44, priceCents: 3500, bufferMinutes: 0, sortOrder: 0 },
+  { slug: 'beard-trim', name: 'Beard Trim', durationMinutes: 20, priceCents: 1500, bufferMinutes: 0, sortOrder: 1 },
+  { slug: 'cut-and-beard', name: 'Haircut + Beard', durationMinutes: 60, priceCents: 4500, bufferMinutes: 0, sortOrder: 2 },
+  { slug: 'kids-cut', name: 'Kids Cut', durationMinutes: 30, priceCents: 2500, bufferMinutes: 0, sortOrder: 3 },
+] as const
+
+// Service used when a booking does not specify one (legacy links, older clients)
+export const DEFAULT_SERVICE_SLUG = 'haircut'
+
 export const APPOINTMENT_STATUS = {
+  PENDING_PAYMENT: 'pending_payment',
   CONFIRMED: 'confirmed',
   CANCELLED: 'cancelled',
   COMPLETED: 'completed',
+  NO_SHOW: 'no_show',
+} as const
+
+// Admin roles, most to least privileged
+export const ADMIN_ROLES = {
+  ADMIN: 'admin',
+  STAFF: 'staff',
+  VIEWER: 'viewer',
 } as const
 
 export const SMS_MESSAGE_TYPES = {
@@ -61,5 +119,6 @@ export const SMS_TEMPLATES = {
 } as const
 
 export type AppointmentStatus = typeof APPOINTMENT_STATUS[keyof typeof APPOINTMENT_STATUS]
+export type AdminRole = typeof ADMIN_ROLES[keyof typeof ADMIN_ROLES]
 export type SMSMessageType = typeof SMS_MESSAGE_TYPES[keyof typeof SMS_MESSAGE_TYPES]
 export type DayOfWeek = typeof DAYS_OF_WEEK[number]
@@ -0,0 +1,176 @@
+import { APPOINTMENT_STATUS, type BusinessSettings } from '@/lib/constants'
+
+/**
+ * iCalendar (RFC 5545) files for appointments: a single-event download for the client and
+ * the barber's subscription feed. Times are written in UTC, so calendar apps show them in
+ * each reader's own zone without needing a VTIMEZONE.
+ */
+
+export interface IcsEvent {
+  uid: string
+  sequence: number // Higher sequence replaces an earlier copy of the same uid
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  status: 'CONFIRMED' | 'CANCELLED'
+  alarmMinutesBefore?: number[]
+}
+
+export type IcsAppointment = {
+  id: string
+  clientName: string
+  phoneNumber: string
+  startTime: Date
+  endTime: Date
+  status: string
+  calendarSequence: number
+  service?: { name: string } | null
+  barber?: { name: string } | null
+}
+
+// Matches the SMS reminders: the day before and an hour before
+const CLIENT_ALARM_MINUTES = [24 * 60, 60]
+
+export function buildCalendar(name: string, events: IcsEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CutSchedule//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hint for subscribed calendars to check for changes hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ]
+
+  const stamp = formatUtc(new Date())
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `STATUS:${event.status}`,
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+
+    // A cancelled event shouldn't keep reminding anyone
+    if (event.status === 'CONFIRMED') {
+      for (const minutes of event.alarmMinutesBefore ?? []) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(event.summary)}`,
+          `TRIGGER:-PT${minutes}M`,
+          'END:VALARM',
+        )
+      }
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// The client's copy of their own appointment, with reminders
+export function clientAppointmentEvent(appointment: IcsAppointment, settings: BusinessSettings, manageUrl?: string): IcsEvent {
+  const serviceName = appointment.service?.name ?? 'Haircut'
+  return {
+    ...appointmentEventBase(appointment, settings),
+    summary: `${serviceName} at ${settings.businessName}`,
+    description: [
+      appointment.barber ? `${serviceName} with ${appointment.barber.name}` : serviceName,
+      `Questions? Call ${settings.phone}`,
+      manageUrl ? `Reschedule or cancel: ${manageUrl}` : undefined,
+    ].filter(Boolean).join('\n'),
+    url: manageUrl,
+    alarmMinutesBefore: CLIENT_ALARM_MINUTES,
+  }
+}
+
+// The barber's view in the subscription feed: who is coming and how to reach them
+export function barberAppointmentEvent(appointment: IcsAppointment, settings: BusinessSettings): IcsEvent {
+  const serviceName = appointment.service?.name ?? 'Haircut'
+  return {
+    ...appointmentEventBase(appointment, settings),
+    summary: `${serviceName} - ${appointment.clientName}`,
+    description: [
+      `${serviceName} appointment for ${appointment.clientName}`,
+      `Phone: ${appointment.phoneNumber}`,
+      appointment.barber ? `Barber: ${appointment.barber.name}` : undefined,
+      `Appointment ID: ${appointment.id}`,
+    ].filter(Boolean).join('\n'),
+  }
+}
+
+// Appointments that didn't go ahead; completed ones stay confirmed as a record of the visit
+const CANCELLED_STATUSES: string[] = [APPOINTMENT_STATUS.CANCELLED, APPOINTMENT_STATUS.NO_SHOW]
+
+// The STATUS an appointment is published with. A change here needs calendarSequence bumped too,
+// or calendar apps keep the copy they already have.
+export function icsStatus(appointmentStatus: string): IcsEvent['status'] {
+  return CANCELLED_STATUSES.includes(appointmentStatus) ? 'CANCELLED' : 'CONFIRMED'
+}
+
+// The client's download and the feed share a uid, so both copies update the same event
+function appointmentEventBase(appointment: IcsAppointment, settings: BusinessSettings) {
+  return {
+    uid: `${appointment.id}@${uidDomain(settings.bookingUrl)}`,
+    sequence: appointment.calendarSequence,
+    start: appointment.startTime,
+    end: appointment.endTime,
+    location: settings.address,
+    status: icsStatus(appointment.status),
+  }
+}
+
+function uidDomain(bookingUrl: string): string {
+  try {
+    return new URL(bookingUrl).host || 'cutschedule'
+  } catch {
+    return 'cutschedule'
+  }
+}
+
+// 20261019T143000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    const limit = parts.length === 0 ? 75 : 74
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
@@ -0,0 +1,102 @@
+import { createHmac, randomInt, timingSafeEqual } from 'crypto'
+
+// Links stay valid until a day after the appointment ends
+const MANAGE_LINK_GRACE_MS = 24 * 60 * 60 * 1000
+
+function getSecret(): string {
+  const secret = process.env.MANAGE_LINK_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('Manage links are not configured. Set MANAGE_LINK_SECRET (or NEXTAUTH_SECRET).')
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Issue a manage-appointment token: "<appointmentId>.<expiresAtSeconds>.<signature>".
+ * The token only grants access to the appointment it was issued for.
+ */
+export function createManageToken(appointment: { id: string; endTime: Date }): string {
+  const expiresAt = Math.floor((appointment.endTime.getTime() + MANAGE_LINK_GRACE_MS) / 1000)
+  const payload = `${appointment.id}.${expiresAt}`
+  return `${payload}.${sign(payload)}`
+}
+
+export function verifyManageToken(token: string | null | undefined, appointmentId: string): boolean {
+  return verifyToken(token, appointmentId, '')
+}
+
+// The appointment named by ?excludeAppointmentId=, when ?token= is its manage token: a client
+// rescheduling sees their own current time as free
+export function excludedAppointmentId(searchParams: URLSearchParams): string | undefined {
+  const appointmentId = searchParams.get('excludeAppointmentId')
+  return appointmentId && verifyManageToken(searchParams.get('token'), appointmentId) ? appointmentId : undefined
+}
+
+// Waitlist offer links use the same format, signed under their own prefix so the two can't be swapped
+export function createWaitlistOfferToken(offer: { id: string; expiresAt: Date }): string {
+  const expiresAt = Math.floor(offer.expiresAt.getTime() / 1000)
+  const payload = `${offer.id}.${expiresAt}`
+  return `${payload}.${sign(`offer.${payload}`)}`
+}
+
+export function verifyWaitlistOfferToken(token: string | null | undefined, offerId: string): boolean {
+  return verifyToken(token, offerId, 'offer.')
+}
+
+/**
+ * Calendar feed links: "<barberId or all>.<signature>". They don't expire, since calendar apps
+ * keep polling the same URL; set CALENDAR_FEED_SECRET and change it to revoke every feed link.
+ */
+export function createCalendarFeedToken(barberId: string | null): string {
+  const scope = barberId ?? 'all'
+  return `${scope}.${signFeed(scope)}`
+}
+
+// The barber the feed is for (null: every barber), or undefined when the token is invalid
+export function verifyCalendarFeedToken(token: string | null | undefined): string | null | undefined {
+  if (!token) return undefined
+  const parts = token.split('.')
+  if (parts.length !== 2) return undefined
+
+  const [scope, signature] = parts
+  const expected = Buffer.from(signFeed(scope))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined
+  return scope === 'all' ? null : scope
+}
+
+function signFeed(scope: string): string {
+  const secret = process.env.CALENDAR_FEED_SECRET
+  return secret
+    ? createHmac('sha256', secret).update(`feed.${scope}`).digest('base64url')
+    : sign(`feed.${scope}`)
+}
+
+function verifyToken(token: string | null | undefined, expectedId: string, prefix: string): boolean {
+  if (!token) return false
+  const parts = token.split('.')
+  if (parts.length !== 3) return false
+
+  const [id, expiresAtStr, signature] = parts
+  if (id !== expectedId) return false
+
+  const expiresAt = Number(expiresAtStr)
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) return false
+
+  const expected = Buffer.from(sign(`${prefix}${id}.${expiresAtStr}`))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function generateLookupCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, '0')
+}
+
+// Bound to the phone number so a code can't be replayed against another number
+export function hashLookupCode(phoneNumber: string, code: string): string {
+  return sign(`lookup.${phoneNumber}.${code}`)
+}
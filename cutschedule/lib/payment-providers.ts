@@ -0,0 +1,172 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export interface CheckoutRequest {
+  paymentId: string
+  amountCents: number
+  description: string
+  successUrl: string
+  cancelUrl: string
+  expiresAt: Date
+}
+
+export interface CheckoutSession {
+  providerRef: string
+  checkoutUrl: string
+}
+
+// What a webhook told us about a checkout: paid, or it can no longer be paid
+export type PaymentEvent = { type: 'succeeded' | 'failed'; providerRef: string }
+
+export interface PaymentProvider {
+  name: string
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>
+  refund(providerRef: string, amountCents: number): Promise<void>
+  // Throws when the request was not signed by the provider; null for events we ignore
+  parseWebhook(rawBody: string, headers: Headers): PaymentEvent | null
+}
+
+const STRIPE_API = 'https://api.stripe.com/v1'
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300
+// Stripe refuses checkouts that expire sooner than 30 minutes after they are created
+const STRIPE_MIN_CHECKOUT_SECONDS = 31 * 60
+
+// Stripe Checkout over the REST API, so no SDK is needed for the three calls we make
+const stripeProvider: PaymentProvider = {
+  name: 'stripe',
+
+  async createCheckout(request) {
+    // The hold was set before the booking was saved, so it can fall just short of Stripe's minimum
+    const expiresAt = Math.max(
+      Math.floor(request.expiresAt.getTime() / 1000),
+      Math.ceil(Date.now() / 1000) + STRIPE_MIN_CHECKOUT_SECONDS
+    )
+    const session = await stripeRequest('POST', '/checkout/sessions', {
+      mode: 'payment',
+      client_reference_id: request.paymentId,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': 'usd',
+      'line_items[0][price_data][unit_amount]': String(request.amountCents),
+      'line_items[0][price_data][product_data][name]': request.description,
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      expires_at: String(expiresAt),
+    })
+    return { providerRef: session.id, checkoutUrl: session.url }
+  },
+
+  async refund(providerRef, amountCents) {
+    const session = await stripeRequest('GET', `/checkout/sessions/${providerRef}`)
+    if (!session.payment_intent) {
+      throw new Error(`Checkout session ${providerRef} has no payment to refund`)
+    }
+    await stripeRequest('POST', '/refunds', {
+      payment_intent: session.payment_intent,
+      amount: String(amountCents),
+    })
+  },
+
+  parseWebhook(rawBody, headers) {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET
+    if (!secret) throw new Error('STRIPE_WEBHOOK_SECRET is not configured')
+
+    const parts = Object.fromEntries(
+      (headers.get('stripe-signature') || '').split(',').map(part => part.split('=') as [string, string])
+    )
+    const timestamp = Number(parts.t)
+    if (!parts.v1 || !timestamp || Math.abs(Date.now() / 1000 - timestamp) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error('Invalid Stripe signature')
+    }
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+    if (!safeEqual(parts.v1, expected)) throw new Error('Invalid Stripe signature')
+
+    const event = JSON.parse(rawBody)
+    const session = event.data?.object
+    if (!session?.id) return null
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+        return session.payment_status === 'paid' ? { type: 'succeeded', providerRef: session.id } : null
+      case 'checkout.session.expired':
+      case 'checkout.session.async_payment_failed':
+        return { type: 'failed', providerRef: session.id }
+      default:
+        return null
+    }
+  },
+}
+
+/**
+ * Local stand-in for development and tests. Checkout is a page in this app that posts
+ * the outcome straight to the webhook, so nothing leaves the machine.
+ */
+const fakeProvider: PaymentProvider = {
+  name: 'fake',
+
+  async createCheckout(request) {
+    const providerRef = `fake_${request.paymentId}`
+    const params = new URLSearchParams({
+      ref: providerRef,
+      amount: String(request.amountCents),
+      success: request.successUrl,
+      cancel: request.cancelUrl,
+    })
+    return { providerRef, checkoutUrl: `/book/fake-checkout?${params.toString()}` }
+  },
+
+  async refund(providerRef, amountCents) {
+    console.log(`[Fake payments] Refunded ${amountCents} cents for ${providerRef}`)
+  },
+
+  parseWebhook(rawBody) {
+    const event = JSON.parse(rawBody)
+    if ((event.type !== 'succeeded' && event.type !== 'failed') || typeof event.providerRef !== 'string') {
+      return null
+    }
+    return { type: event.type, providerRef: event.providerRef }
+  },
+}
+
+/**
+ * The provider named by PAYMENT_PROVIDER (or a past payment's provider), or null when online
+ * payments are off. The fake provider accepts unsigned webhooks, so it is refused in production.
+ */
+export function getPaymentProvider(name = process.env.PAYMENT_PROVIDER): PaymentProvider | null {
+  switch (name) {
+    case 'stripe':
+      return stripeProvider
+    case 'fake':
+      if (process.env.NODE_ENV === 'production') {
+        console.error('[Payments] The fake payment provider cannot be used in production')
+        return null
+      }
+      return fakeProvider
+    default:
+      return null
+  }
+}
+
+async function stripeRequest(method: 'GET' | 'POST', path: string, body?: Record<string, string>) {
+  const secretKey = process.env.STRIPE_SECRET_KEY
+  if (!secretKey) throw new Error('STRIPE_SECRET_KEY is not configured')
+
+  const response = await fetch(`${STRIPE_API}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      ...(body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+    },
+    body: body ? new URLSearchParams(body).toString() : undefined,
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(`Stripe ${method} ${path} failed: ${data.error?.message || response.status}`)
+  }
+  return data
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a)
+  const bBuf = Buffer.from(b)
+  return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf)
+}
@@ -0,0 +1,210 @@
+import { addMinutes, differenceInMinutes } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { APP_CONFIG, APPOINTMENT_STATUS } from '@/lib/constants'
+import { getPaymentProvider } from '@/lib/payment-providers'
+import { offerOpenings } from '@/lib/waitlist'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { verifyManageToken } from '@/lib/manage-token'
+
+export type DepositOutcome = 'refunded' | 'forfeited'
+
+// Cookie holding the manage token of the browser's unpaid booking, so only that browser can give it up early
+export const DEPOSIT_HOLD_COOKIE = 'deposit_hold'
+
+// Amount due online for a service, or 0 when deposits are off or the service has no price
+export function depositCentsFor(priceCents: number | null): number {
+  if (!priceCents || !getPaymentProvider()) return 0
+  const percent = Math.min(Math.max(APP_CONFIG.DEPOSIT_PERCENT, 0), 100)
+  return Math.round((priceCents * percent) / 100)
+}
+
+// When a slot held for payment from now is released
+export function paymentHoldExpiry(): Date {
+  return addMinutes(new Date(), APP_CONFIG.PAYMENT_HOLD_MINUTES)
+}
+
+/**
+ * Open a checkout for a pending_payment appointment that expires together with its slot hold.
+ * Returns the URL to send the client to. Throws if the provider refuses; callers release the hold.
+ */
+export async function startDepositCheckout(
+  appointment: { id: string; paymentExpiresAt: Date | null },
+  serviceName: string,
+  amountCents: number,
+  manageToken: string
+): Promise<string> {
+  const provider = getPaymentProvider()
+  if (!provider) throw new Error('Online payments are not configured')
+
+  const expiresAt = appointment.paymentExpiresAt ?? paymentHoldExpiry()
+  const payment = await prisma.payment.create({
+    data: { appointmentId: appointment.id, provider: provider.name, amountCents },
+  })
+
+  const settings = await getBusinessSettings()
+  const session = await provider.createCheckout({
+    paymentId: payment.id,
+    amountCents,
+    description: `${settings.businessName} - ${serviceName} deposit`,
+    successUrl: `${settings.bookingUrl}/book/confirmation?token=${encodeURIComponent(manageToken)}`,
+    cancelUrl: `${settings.bookingUrl}/book`,
+    expiresAt,
+  })
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: { providerRef: session.providerRef },
+  })
+
+  return session.checkoutUrl
+}
+
+/**
+ * The provider says the client paid. Confirms the held appointment, or refunds straight away
+ * when the hold already lapsed and the slot was given up. Safe to call for repeated webhooks.
+ */
+export async function recordPaymentSucceeded(
+  providerRef: string
+): Promise<{ outcome: 'confirmed' | 'refunded' | 'ignored'; appointmentId?: string }> {
+  const payment = await prisma.payment.findUnique({ where: { providerRef } })
+  if (!payment) return { outcome: 'ignored' }
+
+  // Only the first delivery moves the payment on; an expired hold can still be paid for
+  const claimed = await prisma.payment.updateMany({
+    where: { id: payment.id, status: { in: ['pending', 'expired', 'failed'] } },
+    data: { status: 'paid', paidAt: new Date() },
+  })
+  if (claimed.count === 0) return { outcome: 'ignored', appointmentId: payment.appointmentId }
+
+  const confirmed = await prisma.appointment.updateMany({
+    where: { ...(await groupScope(payment.appointmentId)), status: APPOINTMENT_STATUS.PENDING_PAYMENT },
+    data: { status: APPOINTMENT_STATUS.CONFIRMED, paymentExpiresAt: null },
+  })
+  if (confirmed.count > 0) return { outcome: 'confirmed', appointmentId: payment.appointmentId }
+
+  const refunded = await refundPayment(payment)
+  return { outcome: refunded ? 'refunded' : 'ignored', appointmentId: payment.appointmentId }
+}
+
+// The checkout expired or the payment failed: give the slot back right away
+export async function recordPaymentFailed(providerRef: string): Promise<void> {
+  const payment = await prisma.payment.findUnique({ where: { providerRef } })
+  if (!payment) return
+
+  await prisma.payment.updateMany({
+    where: { id: payment.id, status: 'pending' },
+    data: { status: 'failed' },
+  })
+  await releaseUnpaidHolds({ appointmentId: payment.appointmentId })
+}
+
+// A client coming back from an abandoned checkout: release the hold named in their deposit cookie
+export async function releaseOwnUnpaidHold(manageToken: string | undefined): Promise<number> {
+  const appointmentId = manageToken?.split('.')[0]
+  if (!appointmentId || !verifyManageToken(manageToken, appointmentId)) return 0
+  return releaseUnpaidHolds({ appointmentId })
+}
+
+/**
+ * Cancel pending_payment appointments whose hold has lapsed (or, with an appointmentId, that
+ * hold regardless of expiry, including the rest of a group booking) and offer the freed
+ * times to the waitlist. Returns how many.
+ */
+export async function releaseUnpaidHolds(
+  filter: { appointmentId?: string } = {}
+): Promise<number> {
+  const holds = await prisma.appointment.findMany({
+    where: {
+      status: APPOINTMENT_STATUS.PENDING_PAYMENT,
+      ...(filter.appointmentId ? await groupScope(filter.appointmentId) : { paymentExpiresAt: { lte: new Date() } }),
+    },
+    select: { id: true, date: true },
+  })
+  if (holds.length === 0) return 0
+
+  const ids = holds.map(hold => hold.id)
+  const result = await prisma.appointment.updateMany({
+    where: { id: { in: ids }, status: APPOINTMENT_STATUS.PENDING_PAYMENT },
+    data: { status: APPOINTMENT_STATUS.CANCELLED, paymentExpiresAt: null },
+  })
+  await prisma.payment.updateMany({
+    where: { appointmentId: { in: ids }, status: 'pending' },
+    data: { status: 'expired' },
+  })
+
+  const dates = new Map(holds.map(hold => [hold.date.getTime(), hold.date]))
+  for (const date of dates.values()) {
+    try {
+      await offerOpenings(date)
+    } catch (error) {
+      console.error('Error offering released payment hold to the waitlist:', error)
+    }
+  }
+
+  return result.count
+}
+
+/**
+ * Apply the deposit rules to a cancelled appointment: the shop cancelling, or the client
+ * cancelling at least DEPOSIT_REFUND_CUTOFF_HOURS ahead, refunds; later client cancellations forfeit.
+ */
+export async function settleDeposit(
+  appointment: { id: string; startTime: Date },
+  options: { byShop: boolean }
+): Promise<DepositOutcome | null> {
+  const payments = await prisma.payment.findMany({
+    where: { appointmentId: appointment.id, status: 'paid' },
+  })
+  if (payments.length === 0) return null
+
+  const minutesBeforeStart = differenceInMinutes(appointment.startTime, new Date())
+  const refundable = options.byShop || minutesBeforeStart >= APP_CONFIG.DEPOSIT_REFUND_CUTOFF_HOURS * 60
+
+  if (!refundable) {
+    await prisma.payment.updateMany({
+      where: { id: { in: payments.map(payment => payment.id) }, status: 'paid' },
+      data: { status: 'forfeited' },
+    })
+    return 'forfeited'
+  }
+
+  let allRefunded = true
+  for (const payment of payments) {
+    allRefunded = (await refundPayment(payment)) && allRefunded
+  }
+  return allRefunded ? 'refunded' : null
+}
+
+// A group booking is paid for with one deposit on its first appointment and held as one
+async function groupScope(appointmentId: string): Promise<{ id: string } | { groupId: string }> {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: { groupId: true },
+  })
+  return appointment?.groupId ? { groupId: appointment.groupId } : { id: appointmentId }
+}
+
+// Refund through the provider; a failure leaves the payment marked paid for staff to handle
+async function refundPayment(payment: {
+  id: string
+  provider: string
+  providerRef: string | null
+  amountCents: number
+}): Promise<boolean> {
+  const provider = getPaymentProvider(payment.provider)
+  if (!provider || !payment.providerRef) {
+    console.error(`[Payments] Cannot refund payment ${payment.id}: no provider or reference`)
+    return false
+  }
+
+  try {
+    await provider.refund(payment.providerRef, payment.amountCents)
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: 'refunded', refundedAt: new Date() },
+    })
+    return true
+  } catch (error) {
+    console.error(`[Payments] Refund failed for payment ${payment.id}:`, error)
+    return false
+  }
+}
@@ -0,0 +1,40 @@
+import { subHours, subMinutes } from 'date-fns'
+import type { NextRequest } from 'next/server'
+import { prisma } from '@/lib/db'
+
+// Attempts are only counted over short windows, so a day of history is plenty
+const ATTEMPT_RETENTION_HOURS = 24
+
+// The caller's address as reported by the hosting proxy
+export function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwarded || request.headers.get('x-real-ip') || 'unknown'
+}
+
+/**
+ * Record an attempt against each key, unless one of them already had its limit of attempts in
+ * the last windowMinutes. Returns false when the request should be refused.
+ */
+export async function takeRateLimit(
+  limits: Array<{ key: string; limit: number }>,
+  windowMinutes: number
+): Promise<boolean> {
+  const since = subMinutes(new Date(), windowMinutes)
+  for (const { key, limit } of limits) {
+    const recent = await prisma.rateLimitAttempt.count({
+      where: { key, createdAt: { gte: since } },
+    })
+    if (recent >= limit) return false
+  }
+
+  await prisma.rateLimitAttempt.createMany({ data: limits.map(({ key }) => ({ key })) })
+  return true
+}
+
+// Returns how many old attempts were removed
+export async function deleteOldRateLimitAttempts(): Promise<number> {
+  const result = await prisma.rateLimitAttempt.deleteMany({
+    where: { createdAt: { lt: subHours(new Date(), ATTEMPT_RETENTION_HOURS) } },
+  })
+  return result.count
+}
@@ -0,0 +1,225 @@
+import { addDays, addMinutes, addWeeks, format, parseISO } from 'date-fns'
+import { toZonedTime, formatInTimeZone } from 'date-fns-tz'
+import { prisma } from '@/lib/db'
+import { APPOINTMENT_STATUS } from '@/lib/constants'
+import { loadBarberDays, pickBarberDay } from '@/lib/availability'
+import { withBookingLock } from '@/lib/booking-lock'
+import { resolveService } from '@/lib/services'
+import { upsertClient } from '@/lib/clients'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { announceNewAppointment, cancelAppointment } from '@/lib/appointments'
+import { combineDateTime, parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+
+// Why an occurrence could not be booked: no hours that day, the time is outside them, or it is taken
+export type SeriesConflict = {
+  date: string
+  time: string
+  reason: 'closed' | 'outside_window' | 'conflict' | 'service_unavailable'
+}
+
+export type SeriesBookingResult = { booked: number; conflicts: SeriesConflict[] }
+
+type SeriesRule = {
+  startDate: Date
+  intervalWeeks: number
+  untilDate: Date | null
+  occurrenceCount: number | null
+}
+
+// Business-day keys ("yyyy-MM-dd") of a series' occurrences, first one included, up to lastKey
+export function occurrenceDateKeys(series: SeriesRule, lastKey: string): string[] {
+  const startKey = businessDateKey(series.startDate)
+  const untilKey = series.untilDate ? businessDateKey(series.untilDate) : null
+  const keys: string[] = []
+
+  for (let index = 0; !series.occurrenceCount || index < series.occurrenceCount; index++) {
+    // Stepping calendar days rather than instants keeps the weekday across DST changes
+    const key = format(addWeeks(parseISO(startKey), index * series.intervalWeeks), 'yyyy-MM-dd')
+    if (key > lastKey || (untilKey && key > untilKey)) break
+    keys.push(key)
+  }
+
+  return keys
+}
+
+/**
+ * Turn a confirmed appointment into the first occurrence of a series and book the following
+ * occurrences that fall inside the booking window. Later ones are booked by the daily cron.
+ */
+export async function createSeriesFromAppointment(
+  appointment: {
+    id: string
+    clientName: string
+    phoneNumber: string
+    date: Date
+    startTime: Date
+    serviceId: string | null
+    barberId: string | null
+  },
+  rule: { intervalWeeks: number; untilDate?: string; occurrenceCount?: number }
+) {
+  const series = await prisma.recurringSeries.create({
+    data: {
+      clientName: appointment.clientName,
+      phoneNumber: appointment.phoneNumber,
+      serviceId: appointment.serviceId,
+      barberId: appointment.barberId,
+      time: formatInTimeZone(appointment.startTime, BUSINESS_TIME_ZONE, 'HH:mm'),
+      startDate: appointment.date,
+      intervalWeeks: rule.intervalWeeks,
+      untilDate: rule.untilDate ? parseDateInLocalTimezone(rule.untilDate) : null,
+      occurrenceCount: rule.occurrenceCount ?? null,
+      bookedThrough: appointment.date,
+    },
+  })
+  await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: { seriesId: series.id },
+  })
+
+  const result = await bookSeriesOccurrences(series.id)
+  return { series, ...result }
+}
+
+/**
+ * Book the series' occurrences between bookedThrough and the end of the booking window.
+ * An occurrence that can't fit is reported and not retried, so staff can place it by hand.
+ * Occurrences are confirmed without a text; the usual reminders still go out.
+ */
+export async function bookSeriesOccurrences(seriesId: string): Promise<SeriesBookingResult> {
+  const series = await prisma.recurringSeries.findUnique({ where: { id: seriesId } })
+  if (!series || series.status !== 'active') return { booked: 0, conflicts: [] }
+
+  const todayZoned = toZonedTime(new Date(), BUSINESS_TIME_ZONE)
+  const todayKey = format(todayZoned, 'yyyy-MM-dd')
+  const { maxAdvanceDays } = await getBusinessSettings()
+  const horizonKey = format(addDays(todayZoned, maxAdvanceDays), 'yyyy-MM-dd')
+  const bookedThroughKey = series.bookedThrough ? businessDateKey(series.bookedThrough) : ''
+
+  const dueKeys = occurrenceDateKeys(series, horizonKey)
+    .filter(key => key > bookedThroughKey && key >= todayKey)
+
+  const conflicts: SeriesConflict[] = []
+  let booked = 0
+
+  if (dueKeys.length > 0) {
+    const service = await resolveService(series.serviceId)
+    const client = service ? await upsertClient(series.phoneNumber, series.clientName) : null
+
+    for (const dateKey of dueKeys) {
+      if (!service || !client) {
+        conflicts.push({ date: dateKey, time: series.time, reason: 'service_unavailable' })
+        continue
+      }
+
+      const date = parseDateInLocalTimezone(dateKey)
+      const startTime = combineDateTime(dateKey, series.time)
+      const endTime = addMinutes(startTime, service.durationMinutes)
+
+      const booking = await withBookingLock(dateKey, async (tx) => {
+        const days = await loadBarberDays(date, { barberId: series.barberId, db: tx })
+        if (days.length === 0) return { error: 'closed' as const }
+        const pick = pickBarberDay(days, series.time, startTime, endTime, service.bufferMinutes)
+        if ('error' in pick) return { error: pick.error }
+
+        const appointment = await tx.appointment.create({
+          data: {
+            clientName: series.clientName,
+            phoneNumber: series.phoneNumber,
+            date,
+            startTime,
+            endTime,
+            status: APPOINTMENT_STATUS.CONFIRMED,
+            serviceId: service.id,
+            barberId: pick.day.barberId,
+            clientId: client.id,
+            seriesId: series.id,
+          },
+          include: { barber: { select: { name: true, googleCalendarId: true } } },
+        })
+        return { appointment }
+      })
+      if (booking.error) {
+        conflicts.push({ date: dateKey, time: series.time, reason: booking.error })
+        continue
+      }
+
+      const { appointment } = booking
+      await announceNewAppointment(appointment, service.name, appointment.barber?.googleCalendarId, {
+        notifyClient: false,
+      })
+      booked++
+    }
+
+    await prisma.recurringSeries.update({
+      where: { id: series.id },
+      data: { bookedThrough: parseDateInLocalTimezone(dueKeys[dueKeys.length - 1]) },
+    })
+  }
+
+  // A series with an end date or count is done once its last occurrence has been handled
+  if (series.untilDate || series.occurrenceCount) {
+    const allKeys = occurrenceDateKeys(series, '9999-12-31')
+    const lastHandledKey = dueKeys[dueKeys.length - 1] ?? bookedThroughKey
+    if (allKeys.length === 0 || allKeys[allKeys.length - 1] <= lastHandledKey) {
+      await prisma.recurringSeries.update({
+        where: { id: series.id },
+        data: { status: 'ended', endedAt: new Date() },
+      })
+    }
+  }
+
+  return { booked, conflicts }
+}
+
+// Daily: book occurrences of every active series that have come inside the booking window
+export async function extendRecurringSeries(): Promise<SeriesBookingResult> {
+  const active = await prisma.recurringSeries.findMany({
+    where: { status: 'active' },
+    select: { id: true },
+  })
+
+  const total: SeriesBookingResult = { booked: 0, conflicts: [] }
+  for (const series of active) {
+    const result = await bookSeriesOccurrences(series.id)
+    total.booked += result.booked
+    total.conflicts.push(...result.conflicts)
+    for (const conflict of result.conflicts) {
+      console.warn(`[Recurring] Series ${series.id} could not book ${conflict.date} ${conflict.time}: ${conflict.reason}`)
+    }
+  }
+  return total
+}
+
+/**
+ * Stop a series after the given occurrence: no more bookings, and the booked occurrences after
+ * it are cancelled without a text each. byShop follows cancelAppointment.
+ * Returns how many occurrences were cancelled.
+ */
+export async function endSeries(
+  seriesId: string,
+  after: { startTime: Date },
+  options: { byShop: boolean }
+): Promise<number> {
+  await prisma.recurringSeries.update({
+    where: { id: seriesId },
+    data: { status: 'ended', endedAt: new Date() },
+  })
+
+  const later = await prisma.appointment.findMany({
+    where: {
+      seriesId,
+      startTime: { gt: after.startTime },
+      status: { in: [APPOINTMENT_STATUS.CONFIRMED, APPOINTMENT_STATUS.PENDING_PAYMENT] },
+    },
+    select: { id: true },
+  })
+
+  let cancelled = 0
+  for (const appointment of later) {
+    const result = await cancelAppointment(appointment.id, { byShop: options.byShop, notifyClient: false })
+    if (result?.cancelled) cancelled++
+  }
+  return cancelled
+}
@@ -0,0 +1,86 @@
+import { prisma } from '@/lib/db'
+import { APP_CONFIG, DEFAULT_SERVICE_SLUG } from '@/lib/constants'
+import { getBusinessSettings } from '@/lib/business-settings'
+
+export interface ResolvedService {
+  id: string | null
+  name: string
+  durationMinutes: number
+  bufferMinutes: number
+  priceCents: number | null
+}
+
+// Fallback used when the catalog has not been seeded yet
+const LEGACY_SERVICE: ResolvedService = {
+  id: null,
+  name: 'Haircut',
+  durationMinutes: APP_CONFIG.APPOINTMENT_DURATION,
+  bufferMinutes: APP_CONFIG.BUFFER_TIME,
+  priceCents: null,
+}
+
+export async function getActiveServices() {
+  return prisma.service.findMany({
+    where: { isActive: true },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  })
+}
+
+/**
+ * Resolve the service a booking is for.
+ * - No serviceId: the default service (or legacy constants if the catalog is empty)
+ * - Unknown or inactive serviceId: null, so callers can reject the request
+ */
+export async function resolveService(serviceId?: string | null): Promise<ResolvedService | null> {
+  if (serviceId) {
+    const service = await prisma.service.findUnique({ where: { id: serviceId } })
+    if (!service || !service.isActive) return null
+    return toResolvedService(service)
+  }
+
+  const fallback = await prisma.service.findUnique({ where: { slug: DEFAULT_SERVICE_SLUG } })
+  if (fallback) return toResolvedService(fallback)
+  return { ...LEGACY_SERVICE, durationMinutes: (await getBusinessSettings()).appointmentDuration }
+}
+
+// Resolve the service of an existing appointment, keeping its booked length when it has none
+export function serviceForAppointment(appointment: {
+  startTime: Date
+  endTime: Date
+  service?: { id: string; name: string; durationMinutes: number; bufferMinutes: number; priceCents: number } | null
+}): ResolvedService {
+  if (appointment.service) return toResolvedService(appointment.service)
+  const bookedMinutes = Math.round((appointment.endTime.getTime() - appointment.startTime.getTime()) / 60000)
+  return { ...LEGACY_SERVICE, durationMinutes: bookedMinutes > 0 ? bookedMinutes : LEGACY_SERVICE.durationMinutes }
+}
+
+// Minutes an existing appointment keeps blocked after its end time
+export function bufferAfter(appointment: { service?: { bufferMinutes: number } | null }): number {
+  return appointment.service?.bufferMinutes ?? APP_CONFIG.BUFFER_TIME
+}
+
+// Shortest bookable duration, used to skip windows nothing can fit into
+export async function getShortestServiceDuration(): Promise<number> {
+  const shortest = await prisma.service.findFirst({
+    where: { isActive: true },
+    orderBy: { durationMinutes: 'asc' },
+    select: { durationMinutes: true },
+  })
+  return shortest?.durationMinutes ?? (await getBusinessSettings()).appointmentDuration
+}
+
+function toResolvedService(service: {
+  id: string
+  name: string
+  durationMinutes: number
+  bufferMinutes: number
+  priceCents: number
+}): ResolvedService {
+  return {
+    id: service.id,
+    name: service.name,
+    durationMinutes: service.durationMinutes,
+    bufferMinutes: service.bufferMinutes,
+    priceCents: service.priceCents,
+  }
+}
@@ -0,0 +1,106 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
+import { prisma } from '@/lib/db'
+import { APP_CONFIG } from '@/lib/constants'
+import { getShortestServiceDuration } from '@/lib/services'
+import { offerOpenings } from '@/lib/waitlist'
+import { parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { subtractWindows, type TimeRange } from '@/lib/availability-engine'
+import { windowCanHold } from '@/lib/availability'
+
+type WorkingHoursRow = { dayOfWeek: number; startTime: string; endTime: string; isActive: boolean }
+type WorkingBreakRow = { dayOfWeek: number; startTime: string; endTime: string }
+
+// The windows a weekday's shifts open, with the day's breaks cut out
+export function windowsForWeekday(
+  hours: WorkingHoursRow[],
+  breaks: WorkingBreakRow[],
+  dayOfWeek: number
+): TimeRange[] {
+  const shifts = hours
+    .filter(row => row.isActive && row.dayOfWeek === dayOfWeek)
+    .map(row => ({ startTime: row.startTime, endTime: row.endTime }))
+  return subtractWindows(shifts, breaks.filter(row => row.dayOfWeek === dayOfWeek))
+}
+
+/**
+ * Turn working hours into available slots for the barbers that opted in, up to
+ * SLOT_GENERATION_WEEKS ahead. Each day is filled once: days past slotsGeneratedThrough
+ * that already have slots (added by hand) are skipped, and days filled earlier are never
+ * touched again, so edits made on the Available Slots page stay. Time off is applied when
+ * slots are read, so it isn't cut out here. Returns how many slots were created.
+ */
+export async function generateSlotsFromWorkingHours(options: { barberId?: string } = {}): Promise<number> {
+  const barbers = await prisma.barber.findMany({
+    where: {
+      isActive: true,
+      generateSlots: true,
+      ...(options.barberId ? { id: options.barberId } : {}),
+    },
+    include: { workingHours: true, workingBreaks: true },
+  })
+
+  const todayZoned = toZonedTime(new Date(), BUSINESS_TIME_ZONE)
+  const todayKey = format(todayZoned, 'yyyy-MM-dd')
+  const lastKey = format(addDays(todayZoned, APP_CONFIG.SLOT_GENERATION_WEEKS * 7 - 1), 'yyyy-MM-dd')
+  // Windows no service fits into could never be booked, so they are not created
+  const minDuration = await getShortestServiceDuration()
+  const { slotInterval } = await getBusinessSettings()
+
+  let created = 0
+  const newDates = new Map<string, Date>()
+
+  for (const barber of barbers) {
+    // Nothing to fill from until the barber's hours are set up
+    if (!barber.workingHours.some(row => row.isActive)) continue
+
+    const generatedThroughKey = barber.slotsGeneratedThrough ? businessDateKey(barber.slotsGeneratedThrough) : ''
+    const firstKey = generatedThroughKey >= todayKey ? nextDateKey(generatedThroughKey) : todayKey
+    if (firstKey > lastKey) continue
+
+    const existing = await prisma.availableSlot.findMany({
+      where: {
+        barberId: barber.id,
+        date: { gte: parseDateInLocalTimezone(firstKey), lte: parseDateInLocalTimezone(lastKey) },
+      },
+      select: { date: true },
+    })
+    const daysWithSlots = new Set(existing.map(slot => businessDateKey(slot.date)))
+
+    const toCreate: { barberId: string; date: Date; startTime: string; endTime: string }[] = []
+    for (let key = firstKey; key <= lastKey; key = nextDateKey(key)) {
+      if (daysWithSlots.has(key)) continue
+      for (const window of windowsForWeekday(barber.workingHours, barber.workingBreaks, parseISO(key).getDay())) {
+        if (!windowCanHold(key, window, minDuration, slotInterval)) continue
+        toCreate.push({ barberId: barber.id, date: parseDateInLocalTimezone(key), ...window })
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.availableSlot.createMany({ data: toCreate }),
+      prisma.barber.update({
+        where: { id: barber.id },
+        data: { slotsGeneratedThrough: parseDateInLocalTimezone(lastKey) },
+      }),
+    ])
+    created += toCreate.length
+    for (const slot of toCreate) newDates.set(businessDateKey(slot.date), slot.date)
+  }
+
+  // New hours may be what someone on the waitlist is waiting for
+  for (const date of newDates.values()) {
+    try {
+      await offerOpenings(date)
+    } catch (error) {
+      console.error('Error offering generated slots to the waitlist:', error)
+    }
+  }
+
+  return created
+}
+
+function nextDateKey(key: string): string {
+  return format(addDays(parseISO(key), 1), 'yyyy-MM-dd')
+}
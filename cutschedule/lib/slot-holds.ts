@@ -0,0 +1,82 @@
+import { addMinutes } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { APP_CONFIG } from '@/lib/constants'
+import { loadBarberDays, pickBarberDay } from '@/lib/availability'
+import { withBookingLock } from '@/lib/booking-lock'
+import { parseDateInLocalTimezone } from '@/lib/utils/dates'
+
+// Session cookie naming the browser's hold; it lasts until the browser is closed
+export const SLOT_HOLD_COOKIE = 'slot_hold_session'
+
+/**
+ * Hold a time for a browser session, replacing any time the session held before.
+ * The session's own hold doesn't block it, so picking the same time again just extends it.
+ * barberId follows loadBarberDays: undefined holds the time with the first barber who has it free.
+ */
+export async function placeSlotHold(
+  sessionId: string,
+  slot: {
+    date: string
+    time: string
+    startTime: Date
+    endTime: Date
+    barberId?: string | null
+    bufferMinutes: number
+  },
+  ipAddress?: string
+) {
+  return withBookingLock(slot.date, async (tx) => {
+    const days = await loadBarberDays(parseDateInLocalTimezone(slot.date), {
+      barberId: slot.barberId,
+      excludeHoldSessionId: sessionId,
+      db: tx,
+    })
+    if (days.length === 0) return { error: 'closed' as const }
+    const pick = pickBarberDay(days, slot.time, slot.startTime, slot.endTime, slot.bufferMinutes)
+    if ('error' in pick) return { error: pick.error }
+
+    const data = {
+      barberId: pick.day.barberId,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      expiresAt: addMinutes(new Date(), APP_CONFIG.SLOT_HOLD_MINUTES),
+      ipAddress,
+    }
+    const hold = await tx.slotHold.upsert({
+      where: { sessionId },
+      create: { sessionId, ...data },
+      update: data,
+    })
+    return { hold }
+  })
+}
+
+// The session's hold, if it hasn't expired
+export async function findSlotHold(sessionId: string) {
+  return prisma.slotHold.findFirst({
+    where: { sessionId, expiresAt: { gt: new Date() } },
+  })
+}
+
+// Unexpired holds placed from an address by sessions other than this one
+export async function countActiveSlotHolds(ipAddress: string, exceptSessionId?: string): Promise<number> {
+  return prisma.slotHold.count({
+    where: {
+      ipAddress,
+      expiresAt: { gt: new Date() },
+      ...(exceptSessionId ? { sessionId: { not: exceptSessionId } } : {}),
+    },
+  })
+}
+
+export async function releaseSlotHold(sessionId: string): Promise<void> {
+  await prisma.slotHold.deleteMany({ where: { sessionId } })
+}
+
+// Expired holds no longer block anything; this just clears out the rows. Returns how many were removed.
+export async function deleteExpiredSlotHolds(): Promise<number> {
+  const result = await prisma.slotHold.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  })
+  return result.count
+}
@@ -0,0 +1,51 @@
+import { prisma } from '@/lib/db'
+
+// Promotional messages that must not go to numbers that replied STOP.
+// Transactional messages (confirmations, reminders, codes) are still sent.
+export const MARKETING_MESSAGE_TYPES = [
+  'reschedule_2weeks',
+  'reschedule_3weeks',
+  'availability_alert',
+] as const
+
+export function isMarketingMessage(messageType: string): boolean {
+  return (MARKETING_MESSAGE_TYPES as readonly string[]).includes(messageType)
+}
+
+// Phone numbers are compared in E.164 (+1XXXXXXXXXX), the format Twilio and the booking form use
+export async function isOptedOut(phoneNumber: string): Promise<boolean> {
+  const consent = await prisma.smsConsent.findUnique({
+    where: { phoneNumber },
+    select: { optedOut: true },
+  })
+  return consent?.optedOut ?? false
+}
+
+export async function getOptedOutNumbers(phoneNumbers?: string[]): Promise<Set<string>> {
+  const consents = await prisma.smsConsent.findMany({
+    where: {
+      optedOut: true,
+      ...(phoneNumbers ? { phoneNumber: { in: phoneNumbers } } : {}),
+    },
+    select: { phoneNumber: true },
+  })
+  return new Set(consents.map((consent) => consent.phoneNumber))
+}
+
+export async function recordOptOut(phoneNumber: string) {
+  const now = new Date()
+  return prisma.smsConsent.upsert({
+    where: { phoneNumber },
+    update: { optedOut: true, optedOutAt: now },
+    create: { phoneNumber, optedOut: true, optedOutAt: now },
+  })
+}
+
+export async function recordOptIn(phoneNumber: string) {
+  const now = new Date()
+  return prisma.smsConsent.upsert({
+    where: { phoneNumber },
+    update: { optedOut: false, optedInAt: now },
+    create: { phoneNumber, optedOut: false, optedInAt: now },
+  })
+}
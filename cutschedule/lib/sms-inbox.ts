@@ -0,0 +1,140 @@
+import { prisma } from '@/lib/db'
+
+// How far back the inbox list looks when building thread previews
+const INBOX_SCAN_LIMIT = 500
+const THREAD_MESSAGE_LIMIT = 200
+
+export interface ThreadMessage {
+  id: string
+  direction: 'inbound' | 'outbound'
+  body: string | null
+  at: Date
+  // Outbound: SMSLog message type; inbound: how the webhook classified it
+  type: string
+  status?: string
+}
+
+export interface ConversationSummary {
+  phoneNumber: string
+  clientName: string | null
+  lastMessage: ThreadMessage
+  lastInboundAt: Date | null
+}
+
+/**
+ * One entry per phone number that has texted us or been texted, newest activity first.
+ * Merges outbound SMSLog rows with inbound webhook messages.
+ */
+export async function listConversations(limit: number): Promise<ConversationSummary[]> {
+  const [outbound, inbound] = await Promise.all([
+    prisma.sMSLog.findMany({ orderBy: { sentAt: 'desc' }, take: INBOX_SCAN_LIMIT }),
+    prisma.incomingSMS.findMany({ orderBy: { receivedAt: 'desc' }, take: INBOX_SCAN_LIMIT }),
+  ])
+
+  const threads = new Map<string, { lastMessage: ThreadMessage; lastInboundAt: Date | null }>()
+
+  for (const log of outbound) {
+    const message = fromSMSLog(log)
+    const thread = threads.get(log.phoneNumber)
+    if (!thread) {
+      threads.set(log.phoneNumber, { lastMessage: message, lastInboundAt: null })
+    } else if (message.at > thread.lastMessage.at) {
+      thread.lastMessage = message
+    }
+  }
+
+  for (const sms of inbound) {
+    const message = fromIncomingSMS(sms)
+    const thread = threads.get(sms.phoneNumber)
+    if (!thread) {
+      threads.set(sms.phoneNumber, { lastMessage: message, lastInboundAt: message.at })
+      continue
+    }
+    if (message.at > thread.lastMessage.at) thread.lastMessage = message
+    if (!thread.lastInboundAt || message.at > thread.lastInboundAt) thread.lastInboundAt = message.at
+  }
+
+  const summaries = Array.from(threads.entries())
+    .map(([phoneNumber, thread]) => ({ phoneNumber, ...thread }))
+    .sort((a, b) => b.lastMessage.at.getTime() - a.lastMessage.at.getTime())
+    .slice(0, limit)
+
+  const names = await latestClientNames(summaries.map((summary) => summary.phoneNumber))
+  return summaries.map((summary) => ({
+    ...summary,
+    clientName: names.get(summary.phoneNumber) ?? null,
+  }))
+}
+
+// Full thread for one number, oldest first, with the client's recent appointments
+export async function getConversation(phoneNumber: string) {
+  const [outbound, inbound, appointments] = await Promise.all([
+    prisma.sMSLog.findMany({
+      where: { phoneNumber },
+      orderBy: { sentAt: 'desc' },
+      take: THREAD_MESSAGE_LIMIT,
+    }),
+    prisma.incomingSMS.findMany({
+      where: { phoneNumber },
+      orderBy: { receivedAt: 'desc' },
+      take: THREAD_MESSAGE_LIMIT,
+    }),
+    prisma.appointment.findMany({
+      where: { phoneNumber },
+      include: {
+        service: { select: { id: true, name: true } },
+        barber: { select: { id: true, name: true } },
+      },
+      orderBy: { startTime: 'desc' },
+      take: 10,
+    }),
+  ])
+
+  const messages = [...outbound.map(fromSMSLog), ...inbound.map(fromIncomingSMS)]
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .slice(-THREAD_MESSAGE_LIMIT)
+
+  return {
+    phoneNumber,
+    clientName: appointments[0]?.clientName ?? null,
+    messages,
+    appointments,
+  }
+}
+
+function fromSMSLog(log: {
+  id: string
+  body: string | null
+  sentAt: Date
+  messageType: string
+  status: string
+}): ThreadMessage {
+  return {
+    id: log.id,
+    direction: 'outbound',
+    body: log.body,
+    at: log.sentAt,
+    type: log.messageType,
+    status: log.status,
+  }
+}
+
+function fromIncomingSMS(sms: { id: string; message: string; receivedAt: Date; type: string }): ThreadMessage {
+  return {
+    id: sms.id,
+    direction: 'inbound',
+    body: sms.message,
+    at: sms.receivedAt,
+    type: sms.type,
+  }
+}
+
+async function latestClientNames(phoneNumbers: string[]): Promise<Map<string, string>> {
+  const appointments = await prisma.appointment.findMany({
+    where: { phoneNumber: { in: phoneNumbers } },
+    select: { phoneNumber: true, clientName: true },
+    orderBy: { startTime: 'desc' },
+    distinct: ['phoneNumber'],
+  })
+  return new Map(appointments.map((appointment) => [appointment.phoneNumber, appointment.clientName]))
+}
@@ -1,4 +1,9 @@
 import { prisma } from '@/lib/db'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { createManageToken } from '@/lib/manage-token'
+import { isMarketingMessage, isOptedOut } from '@/lib/sms-consent'
+import { APP_CONFIG } from '@/lib/constants'
+import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
 
 const twilio = require('twilio')
 const client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN)
@@ -33,28 +38,46 @@ export function formatPhoneNumber(phoneNumber: string): string {
 
 export interface SMSTemplate {
   confirmation: string
+  group_confirmation: string
   reminder_1day: string
   reminder_1hour: string
   reschedule_2weeks: string
   reschedule_3weeks: string
   cancellation: string
   availability_alert: string
+  verification_code: string
+  manual_reply: string
+  auto_reply: string
+  waitlist_offer: string
 }
 
 const SMS_TEMPLATES: SMSTemplate = {
-  confirmation: `Hi {clientName}! Your haircut appointment with Neil is confirmed for {date} at {time}. Located at 111 Gainsborough Street. To reschedule: https://cut-schedule-ck4d12342.vercel.app/manage-appointment/reschedule?id={appointmentId} Reply STOP to opt out.`,
+  confirmation: `Hi {clientName}! Your haircut appointment with {barberName} is confirmed for {date} at {time}. Located at {address}. To reschedule or cancel: {bookingUrl}/manage-appointment?token={manageToken} Reply STOP to opt out.`,
 
-  reminder_1day: `Hi {clientName}! Reminder: You have a haircut appointment tomorrow ({date}) at {time} with Neil at 111 Gainsborough Street. See you soon!`,
+  // One text for everyone in a group booking; {people} lists each name with their time
+  group_confirmation: `Hi {clientName}! Your group booking with {barberName} is confirmed for {date}: {people}. Located at {address}. To reschedule or cancel: {bookingUrl}/manage-appointment?token={manageToken} Reply STOP to opt out.`,
 
-  reminder_1hour: `Hi {clientName}! Your haircut appointment with Neil starts in 1 hour at {time}. We're located at 111 Gainsborough Street. See you soon!`,
+  reminder_1day: `Hi {clientName}! Reminder: You have a haircut appointment tomorrow ({date}) at {time} with {barberName} at {address}. Reply C to confirm, CANCEL to cancel or RESCHEDULE for other times.`,
 
-  reschedule_2weeks: `Hi {clientName}! It's been 2 weeks since your last haircut with Neil. Ready for another appointment? Book online at https://cut-schedule-ck4d12342.vercel.app or reply to this message.`,
+  reminder_1hour: `Hi {clientName}! Your haircut appointment with {barberName} starts in 1 hour at {time}. We're located at {address}. See you soon!`,
 
-  reschedule_3weeks: `Hi {clientName}! Ready for your next haircut? Book your appointment with Neil at https://cut-schedule-ck4d12342.vercel.app. We're here when you're ready!`,
+  reschedule_2weeks: `Hi {clientName}! It's been 2 weeks since your last haircut with {barberName}. Ready for another appointment? Book online at {bookingUrl} or reply to this message.`,
 
-  cancellation: `Hi {clientName}! Your haircut appointment for {date} at {time} has been cancelled. Book a new appointment anytime at https://cut-schedule-ck4d12342.vercel.app`,
+  reschedule_3weeks: `Hi {clientName}! Ready for your next haircut? Book your appointment with {barberName} at {bookingUrl}. We're here when you're ready!`,
 
-  availability_alert: `Neil has opened available slots, book now! https://cut-schedule-ck4d12342.vercel.app Reply STOP to opt out.`
+  cancellation: `Hi {clientName}! Your haircut appointment for {date} at {time} has been cancelled. Book a new appointment anytime at {bookingUrl}`,
+
+  availability_alert: `{barberName} has opened available slots, book now! {bookingUrl} Reply STOP to opt out.`,
+
+  verification_code: `Your appointment lookup code is {code}. It expires in 10 minutes. If you didn't request it, ignore this message.`,
+
+  // Free-form text typed by staff in the SMS inbox
+  manual_reply: `{message}`,
+
+  // Webhook replies sent back as TwiML; only used for logging
+  auto_reply: `{message}`,
+
+  waitlist_offer: `Hi {clientName}! A spot opened up on {date} at {time} with {barberName}. We're holding it for you for ${APP_CONFIG.WAITLIST_HOLD_MINUTES} minutes - book it here: {bookingUrl}/waitlist/offer?token={offerToken}`
 }
 
 export interface SMSData {
@@ -62,13 +85,22 @@ export interface SMSData {
   date: string
   time: string
   appointmentId?: string
+  barberName?: string // Falls back to the business name
+  manageToken?: string
+  code?: string
+  message?: string
+  offerToken?: string
+  people?: string
 }
 
 export async function sendSMS(
   phoneNumber: string,
   messageType: keyof SMSTemplate,
   data?: SMSData
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
+): Promise<{ success: boolean; messageId?: string; error?: string; suppressed?: boolean }> {
+  // Kept outside the try so failed sends still record what was attempted
+  let loggedMessage: string | undefined
+
   try {
     // Format phone number to ensure consistency
     const formattedPhone = formatPhoneNumber(phoneNumber)
@@ -95,6 +127,25 @@ export async function sendSMS(
       }
     }
 
+    // Respect STOP replies for promotional messages
+    if (isMarketingMessage(messageType) && await isOptedOut(formattedPhone)) {
+      console.log(`Suppressed ${messageType} SMS to ${formattedPhone}: recipient opted out`)
+      await logSMS(
+        data?.appointmentId || 'manual',
+        phoneNumber,
+        messageType,
+        'suppressed'
+      )
+      return {
+        success: false,
+        suppressed: true,
+        error: 'Recipient has opted out of marketing messages'
+      }
+    }
+
+    // Shop details come from the business settings rather than the templates
+    const settings = await getBusinessSettings()
+
     // Get template and replace placeholders (only if data provided)
     let message = SMS_TEMPLATES[messageType]
     if (data) {
@@ -102,9 +153,20 @@ export async function sendSMS(
       message = message.replace('{date}', data.date)
       message = message.replace('{time}', data.time)
       message = message.replace('{appointmentId}', data.appointmentId || '')
+      message = message.replace('{manageToken}', data.manageToken || '')
+      message = message.replace('{code}', data.code || '')
+      message = message.replace('{offerToken}', data.offerToken || '')
+      message = message.replace('{people}', data.people || '')
+      // Free-form text may contain "$" sequences that replace() would otherwise interpret
+      message = message.replace('{message}', () => data.message || '')
     }
+    message = message.replace('{barberName}', data?.barberName || settings.businessName)
+    message = message.replace('{address}', settings.address)
+    message = message.replace('{bookingUrl}', settings.bookingUrl)
 
-    console.log(`Sending ${messageType} SMS to ${formattedPhone} (original: ${phoneNumber}):`, message)
+    // Never write one-time codes to the logs
+    loggedMessage = messageType === 'verification_code' ? '[redacted]' : message
+    console.log(`Sending ${messageType} SMS to ${formattedPhone} (original: ${phoneNumber}):`, loggedMessage)
 
     // Send SMS via Twilio
     const twilioMessage = await client.messages.create({
@@ -121,7 +183,8 @@ export async function sendSMS(
       phoneNumber,
       messageType,
       'sent',
-      twilioMessage.sid
+      twilioMessage.sid,
+      loggedMessage
     )
 
     return {
@@ -137,7 +200,9 @@ export async function sendSMS(
       data?.appointmentId || 'manual',
       phoneNumber,
       messageType,
-      'failed'
+      'failed',
+      undefined,
+      loggedMessage
     )
 
     return {
@@ -151,8 +216,9 @@ export async function logSMS(
   appointmentId: string,
   phoneNumber: string,
   messageType: keyof SMSTemplate,
-  status: 'sent' | 'failed',
-  twilioSid?: string
+  status: 'sent' | 'failed' | 'suppressed',
+  twilioSid?: string,
+  body?: string
 ) {
   try {
     await prisma.sMSLog.create({
@@ -162,6 +228,7 @@ export async function logSMS(
         messageType,
         status,
         twilioSid: twilioSid || null,
+        body: body ?? null,
       },
     })
     console.log(`SMS log created: ${messageType} to ${phoneNumber} - ${status}`)
@@ -170,8 +237,6 @@ export async function logSMS(
   }
 }
 
-const BUSINESS_TZ = 'America/New_York'
-
 export async function sendConfirmationSMS(
   appointment: {
     id: string
@@ -179,6 +244,8 @@ export async function sendConfirmationSMS(
     phoneNumber: string
     date: Date
     startTime: Date
+    endTime: Date
+    barber?: { name: string } | null
   }
 ) {
   const formattedDate = appointment.startTime.toLocaleDateString('en-US', {
@@ -186,14 +253,14 @@ export async function sendConfirmationSMS(
     year: 'numeric',
     month: 'long',
     day: 'numeric',
-    timeZone: BUSINESS_TZ,
+    timeZone: BUSINESS_TIME_ZONE,
   })
 
   const formattedTime = appointment.startTime.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
-    timeZone: BUSINESS_TZ,
+    timeZone: BUSINESS_TIME_ZONE,
   })
 
   return await sendSMS(
@@ -204,6 +271,52 @@ export async function sendConfirmationSMS(
       date: formattedDate,
       time: formattedTime,
       appointmentId: appointment.id,
+      barberName: appointment.barber?.name,
+      manageToken: createManageToken(appointment),
+    }
+  )
+}
+
+// Confirm a whole group booking in one text to the contact, linking to the first appointment
+export async function sendGroupConfirmationSMS(
+  appointments: {
+    id: string
+    clientName: string
+    phoneNumber: string
+    startTime: Date
+    endTime: Date
+    barber?: { name: string } | null
+  }[]
+) {
+  const [contact] = appointments
+  const formattedDate = contact.startTime.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: BUSINESS_TIME_ZONE,
+  })
+
+  const people = appointments
+    .map(appointment => `${appointment.clientName} at ${appointment.startTime.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: BUSINESS_TIME_ZONE,
+    })}`)
+    .join(', ')
+
+  return await sendSMS(
+    contact.phoneNumber,
+    'group_confirmation',
+    {
+      clientName: contact.clientName,
+      date: formattedDate,
+      time: '',
+      appointmentId: contact.id,
+      barberName: contact.barber?.name,
+      manageToken: createManageToken(contact),
+      people,
     }
   )
 }
@@ -215,6 +328,7 @@ export async function sendReminderSMS(
     phoneNumber: string
     date: Date
     startTime: Date
+    barber?: { name: string } | null
   },
   reminderType: 'reminder_1day' | 'reminder_1hour'
 ) {
@@ -223,14 +337,14 @@ export async function sendReminderSMS(
     year: 'numeric',
     month: 'long',
     day: 'numeric',
-    timeZone: BUSINESS_TZ,
+    timeZone: BUSINESS_TIME_ZONE,
   })
 
   const formattedTime = appointment.startTime.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
-    timeZone: BUSINESS_TZ,
+    timeZone: BUSINESS_TIME_ZONE,
   })
 
   return await sendSMS(
@@ -241,6 +355,7 @@ export async function sendReminderSMS(
       date: formattedDate,
       time: formattedTime,
       appointmentId: appointment.id,
+      barberName: appointment.barber?.name,
     }
   )
 }
@@ -252,6 +367,7 @@ export async function sendCancellationSMS(
     phoneNumber: string
     date: Date
     startTime: Date
+    barber?: { name: string } | null
   }
 ) {
   const formattedDate = appointment.startTime.toLocaleDateString('en-US', {
@@ -259,14 +375,14 @@ export async function sendCancellationSMS(
     year: 'numeric',
     month: 'long',
     day: 'numeric',
-    timeZone: BUSINESS_TZ,
+    timeZone: BUSINESS_TIME_ZONE,
   })
 
   const formattedTime = appointment.startTime.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
-    timeZone: BUSINESS_TZ,
+    timeZone: BUSINESS_TIME_ZONE,
   })
 
   return await sendSMS(
@@ -277,6 +393,7 @@ export async function sendCancellationSMS(
       date: formattedDate,
       time: formattedTime,
       appointmentId: appointment.id,
+      barberName: appointment.barber?.name,
     }
   )
 }
@@ -284,7 +401,7 @@ export async function sendCancellationSMS(
 export async function sendAvailabilityAlertSMS(
   phoneNumber: string,
   dryRun: boolean = false
-): Promise<{ success: boolean; messageId?: string; error?: string; dryRun?: boolean }> {
+): Promise<{ success: boolean; messageId?: string; error?: string; suppressed?: boolean; dryRun?: boolean }> {
   if (dryRun) {
     const formattedPhone = formatPhoneNumber(phoneNumber)
     console.log(`[DRY RUN] Would send availability_alert to ${formattedPhone}`)
@@ -294,3 +411,14 @@ export async function sendAvailabilityAlertSMS(
   // Delegate to sendSMS - no data needed for availability_alert template
   return await sendSMS(phoneNumber, 'availability_alert')
 }
+
+// One-time code for looking up an appointment by phone number
+export async function sendVerificationCodeSMS(phoneNumber: string, code: string) {
+  return await sendSMS(phoneNumber, 'verification_code', {
+    clientName: '',
+    date: '',
+    time: '',
+    appointmentId: 'verification',
+    code,
+  })
+}
@@ -0,0 +1,101 @@
+import { Prisma } from '@prisma/client'
+import { formatInTimeZone } from 'date-fns-tz'
+import { prisma } from '@/lib/db'
+import { APPOINTMENT_STATUS } from '@/lib/constants'
+import { BUSINESS_TIME_ZONE, businessDateKey } from '@/lib/utils/timezone'
+import { subtractWindows, type TimeRange } from '@/lib/availability-engine'
+
+export type TimeOffPeriod = {
+  barberId: string | null
+  startDate: Date
+  endDate: Date
+  startTime: string | null
+  endTime: string | null
+  recurring: boolean
+}
+
+/**
+ * Time off that can touch [from, to): one-off periods overlapping the range plus every
+ * recurring holiday, whose yearly dates are matched by timeOffOn. to undefined means open-ended.
+ */
+export async function loadTimeOff(
+  from: Date,
+  to?: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<TimeOffPeriod[]> {
+  return db.timeOff.findMany({
+    where: {
+      OR: [
+        { recurring: true },
+        { endDate: { gte: from }, ...(to ? { startDate: { lt: to } } : {}) },
+      ],
+    },
+    select: { barberId: true, startDate: true, endDate: true, startTime: true, endTime: true, recurring: true },
+  })
+}
+
+// Whether the period covers the business day dateKey ("yyyy-MM-dd")
+export function timeOffAppliesOn(period: TimeOffPeriod, dateKey: string): boolean {
+  const startKey = businessDateKey(period.startDate)
+  const endKey = businessDateKey(period.endDate)
+  if (!period.recurring) return startKey <= dateKey && dateKey <= endKey
+  if (dateKey < startKey) return false
+
+  // Holidays repeat on the same month and day; a period can wrap past New Year
+  const day = dateKey.slice(5)
+  const startDay = startKey.slice(5)
+  const endDay = endKey.slice(5)
+  return startDay <= endDay
+    ? startDay <= day && day <= endDay
+    : day >= startDay || day <= endDay
+}
+
+// The periods that close some or all of dateKey for a barber: their own time off plus the shop's
+export function timeOffOn(periods: TimeOffPeriod[], dateKey: string, barberId: string | null): TimeOffPeriod[] {
+  return periods.filter(period =>
+    (period.barberId === null || period.barberId === barberId) && timeOffAppliesOn(period, dateKey)
+  )
+}
+
+// What is left of the day's windows once the day's time off is cut out
+export function subtractTimeOff(windows: TimeRange[], periods: TimeOffPeriod[]): TimeRange[] {
+  if (periods.some(period => !period.startTime || !period.endTime)) return []
+  return subtractWindows(windows, periods.map(period => ({ startTime: period.startTime!, endTime: period.endTime! })))
+}
+
+// Whether an appointment falls inside the period, even partly
+export function overlapsTimeOff(period: TimeOffPeriod, startTime: Date, endTime: Date): boolean {
+  if (!timeOffAppliesOn(period, businessDateKey(startTime))) return false
+  if (!period.startTime || !period.endTime) return true
+
+  const start = formatInTimeZone(startTime, BUSINESS_TIME_ZONE, 'HH:mm')
+  const end = formatInTimeZone(endTime, BUSINESS_TIME_ZONE, 'HH:mm')
+  return start < period.endTime && end > period.startTime
+}
+
+/**
+ * Upcoming appointments that fall inside a period of time off. Booking around time off is
+ * prevented, but appointments made before it was added are left for staff to move or cancel.
+ */
+export async function findTimeOffConflicts(period: TimeOffPeriod) {
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      startTime: { gte: new Date() },
+      status: { in: [APPOINTMENT_STATUS.CONFIRMED, APPOINTMENT_STATUS.PENDING_PAYMENT] },
+      ...(period.barberId ? { barberId: period.barberId } : {}),
+      // One-off periods only need their own days; holidays can fall on any upcoming date
+      ...(period.recurring ? {} : { date: { gte: period.startDate, lte: period.endDate } }),
+    },
+    select: {
+      id: true,
+      clientName: true,
+      phoneNumber: true,
+      startTime: true,
+      endTime: true,
+      barber: { select: { name: true } },
+    },
+    orderBy: { startTime: 'asc' },
+  })
+
+  return appointments.filter(appointment => overlapsTimeOff(period, appointment.startTime, appointment.endTime))
+}
@@ -3,4 +3,14 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+// Format a price stored in cents as US dollars, dropping ".00" for whole amounts
+export function formatPrice(cents: number): string {
+  const dollars = cents / 100
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: cents % 100 === 0 ? 0 : 2,
+  }).format(dollars)
+}
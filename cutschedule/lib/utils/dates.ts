@@ -1,8 +1,6 @@
 import { format, addMinutes, addDays, addWeeks, subWeeks, startOfDay, endOfDay, isAfter, isBefore, parseISO } from 'date-fns'
 import { toZonedTime, fromZonedTime } from 'date-fns-tz'
-
-// Business timezone - all appointments are in EST/EDT
-export const BUSINESS_TZ = 'America/New_York'
+import { BUSINESS_TIME_ZONE } from '@/lib/utils/timezone'
 
 export function formatDate(date: Date): string {
   return format(date, 'yyyy-MM-dd')
@@ -16,6 +14,11 @@ export function formatDateTime(date: Date): string {
   return format(date, 'yyyy-MM-dd HH:mm:ss')
 }
 
+// Length of a booked appointment in minutes (works with Date objects or ISO strings from the API)
+export function getDurationMinutes(startTime: Date | string, endTime: Date | string): number {
+  return Math.round((new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000)
+}
+
 export function parseTime(timeString: string): Date {
   const [hours, minutes] = timeString.split(':').map(Number)
   const date = new Date()
@@ -24,95 +27,42 @@ export function parseTime(timeString: string): Date {
 }
 
 export function parseDateInLocalTimezone(dateString: string): Date {
-  // Parse the date string as YYYY-MM-DD at midnight in EST timezone
+  // Parse the date string as YYYY-MM-DD at midnight in the business timezone
   // This ensures consistent behavior regardless of server timezone
 
   // Create ISO string at midnight
   const isoString = `${dateString}T00:00:00.000`
 
-  // Interpret as EST and convert to UTC for storage
-  return fromZonedTime(isoString, BUSINESS_TZ)
+  // Interpret in the business timezone and convert to UTC for storage
+  return fromZonedTime(isoString, BUSINESS_TIME_ZONE)
 }
 
 export function combineDateTime(dateString: string, timeString: string): Date {
-  // Parse date (YYYY-MM-DD) and time (HH:mm) as EST timezone
-  // Example: "2025-10-17" + "18:15" = Oct 17, 2025 6:15 PM EST
+  // Parse date (YYYY-MM-DD) and time (HH:mm) in the business timezone
+  // Example: "2025-10-17" + "18:15" = Oct 17, 2025 6:15 PM shop time
 
   // Create ISO string: "2025-10-17T18:15:00.000"
   const isoString = `${dateString}T${timeString}:00.000`
 
-  // Interpret this datetime as being in EST, convert to UTC for database storage
-  // This ensures user's "6:15 PM" means "6:15 PM EST" regardless of server timezone
-  return fromZonedTime(isoString, BUSINESS_TZ)
+  // Interpret this datetime in the business timezone, convert to UTC for database storage
+  // This ensures user's "6:15 PM" means 6:15 PM shop time regardless of server timezone
+  return fromZonedTime(isoString, BUSINESS_TIME_ZONE)
 }
 
-// Returns [inclusiveStart, exclusiveEnd) Date instants for the business day containing `date` in BUSINESS_TZ
+// Returns [inclusiveStart, exclusiveEnd) Date instants for the business day containing `date` in BUSINESS_TIME_ZONE
 export function getBusinessDayRange(date: Date): { start: Date; endExclusive: Date } {
   // Convert the provided date to the business timezone to get the correct calendar day
-  const zoned = toZonedTime(date, BUSINESS_TZ)
+  const zoned = toZonedTime(date, BUSINESS_TIME_ZONE)
   const dayKey = format(zoned, 'yyyy-MM-dd')
-  const start = fromZonedTime(`${dayKey}T00:00:00.000`, BUSINESS_TZ)
+  const start = fromZonedTime(`${dayKey}T00:00:00.000`, BUSINESS_TIME_ZONE)
 
   // Compute next calendar day key in the business timezone and convert to UTC instant
   const nextZoned = addDays(zoned, 1)
   const nextKey = format(nextZoned, 'yyyy-MM-dd')
-  const endExclusive = fromZonedTime(`${nextKey}T00:00:00.000`, BUSINESS_TZ)
+  const endExclusive = fromZonedTime(`${nextKey}T00:00:00.000`, BUSINESS_TIME_ZONE)
   return { start, endExclusive }
 }
 
-export function getAvailableTimeSlots(
-  date: Date,
-  workingHours: { startTime: string; endTime: string },
-  existingAppointments: Array<{ startTime: Date; endTime: Date }>,
-  appointmentDuration: number = 44,
-  bufferTime: number = 30
-): string[] {
-  const slots: string[] = []
-  const startTime = parseTime(workingHours.startTime)
-  const endTime = parseTime(workingHours.endTime)
-
-  // Generate 15-minute intervals
-  for (let time = startTime; time < endTime; time = addMinutes(time, 15)) {
-    const slotEnd = addMinutes(time, appointmentDuration)
-
-    // Check if slot + buffer time are free
-    const isAvailable = !existingAppointments.some(apt => {
-      const aptStart = apt.startTime
-      const aptEnd = addMinutes(apt.endTime, bufferTime)
-
-      return (
-        (time >= aptStart && time < aptEnd) ||
-        (slotEnd > aptStart && slotEnd <= aptEnd) ||
-        (time < aptStart && slotEnd > aptEnd)
-      )
-    })
-
-    if (isAvailable && slotEnd <= endTime) {
-      slots.push(formatTime(time))
-    }
-  }
-
-  return slots
-}
-
-export function isTimeSlotAvailable(
-  startTime: Date,
-  endTime: Date,
-  existingAppointments: Array<{ startTime: Date; endTime: Date }>,
-  bufferTime: number = 30
-): boolean {
-  return !existingAppointments.some(apt => {
-    const aptStart = apt.startTime
-    const aptEnd = addMinutes(apt.endTime, bufferTime)
-
-    return (
-      (startTime >= aptStart && startTime < aptEnd) ||
-      (endTime > aptStart && endTime <= aptEnd) ||
-      (startTime < aptStart && endTime > aptEnd)
-    )
-  })
-}
-
 export function getNextAvailableDate(
   workingHours: Array<{ dayOfWeek: number; isActive: boolean }>,
   maxDays: number = 30
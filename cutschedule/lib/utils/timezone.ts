@@ -1,10 +1,12 @@
-export const BUSINESS_TIME_ZONE = 'America/New_York'
+// The shop's IANA time zone. Every business date and time (slots, day boundaries, texts, cron)
+// is in this zone; NEXT_PUBLIC_ so the booking pages get the same value at build time.
+export const BUSINESS_TIME_ZONE = process.env.NEXT_PUBLIC_BUSINESS_TIME_ZONE || 'America/New_York'
 
 function toDate(input: string | Date): Date {
   return input instanceof Date ? input : new Date(input)
 }
 
-export function formatETDateShort(input: string | Date): string {
+export function formatBusinessDateShort(input: string | Date): string {
   const d = toDate(input)
   return new Intl.DateTimeFormat('en-US', {
     timeZone: BUSINESS_TIME_ZONE,
@@ -14,7 +16,7 @@ export function formatETDateShort(input: string | Date): string {
   }).format(d)
 }
 
-export function formatETDateLong(input: string | Date): string {
+export function formatBusinessDateLong(input: string | Date): string {
   const d = toDate(input)
   return new Intl.DateTimeFormat('en-US', {
     timeZone: BUSINESS_TIME_ZONE,
@@ -24,7 +26,7 @@ export function formatETDateLong(input: string | Date): string {
   }).format(d)
 }
 
-export function formatETTime(input: string | Date): string {
+export function formatBusinessTime(input: string | Date): string {
   const d = toDate(input)
   return new Intl.DateTimeFormat('en-US', {
     timeZone: BUSINESS_TIME_ZONE,
@@ -34,7 +36,7 @@ export function formatETTime(input: string | Date): string {
   }).format(d)
 }
 
-export function formatETDateTimeShort(input: string | Date): string {
+export function formatBusinessDateTimeShort(input: string | Date): string {
   const d = toDate(input)
   return new Intl.DateTimeFormat('en-US', {
     timeZone: BUSINESS_TIME_ZONE,
@@ -47,7 +49,7 @@ export function formatETDateTimeShort(input: string | Date): string {
   }).format(d)
 }
 
-export function etDateKey(input: string | Date): string {
+export function businessDateKey(input: string | Date): string {
   const d = toDate(input)
   const parts = new Intl.DateTimeFormat('en-US', {
     timeZone: BUSINESS_TIME_ZONE,
@@ -61,14 +63,14 @@ export function etDateKey(input: string | Date): string {
   return `${y}-${m}-${day}`
 }
 
-export function isETToday(input: string | Date): boolean {
-  const nowKey = etDateKey(new Date())
-  const dateKey = etDateKey(input)
+export function isBusinessToday(input: string | Date): boolean {
+  const nowKey = businessDateKey(new Date())
+  const dateKey = businessDateKey(input)
   return dateKey === nowKey
 }
 
-export function isETTomorrow(input: string | Date): boolean {
-  // Derive "tomorrow" by getting the ET date parts for today and incrementing one day
+export function isBusinessTomorrow(input: string | Date): boolean {
+  // Derive "tomorrow" by getting the business date parts for today and incrementing one day
   const parts = new Intl.DateTimeFormat('en-US', {
     timeZone: BUSINESS_TIME_ZONE,
     year: 'numeric',
@@ -78,15 +80,15 @@ export function isETTomorrow(input: string | Date): boolean {
   const y = Number(parts.find(p => p.type === 'year')?.value || '0')
   const m = Number(parts.find(p => p.type === 'month')?.value || '1')
   const d = Number(parts.find(p => p.type === 'day')?.value || '1')
-  // Create a date using the ET calendar day, then add 1 day
+  // Create a date using the business calendar day, then add 1 day
   const tomorrowLocal = new Date(y, m - 1, d + 1)
-  const tomorrowKey = etDateKey(tomorrowLocal)
-  return etDateKey(input) === tomorrowKey
+  const tomorrowKey = businessDateKey(tomorrowLocal)
+  return businessDateKey(input) === tomorrowKey
 }
 
-export function etDaysFromToday(input: string | Date): number {
-  const key = etDateKey(input)
-  const today = etDateKey(new Date())
+export function businessDaysFromToday(input: string | Date): number {
+  const key = businessDateKey(input)
+  const today = businessDateKey(new Date())
   const [y1, m1, d1] = today.split('-').map(Number)
   const [y2, m2, d2] = key.split('-').map(Number)
   const base = new Date(y1, m1 - 1, d1)
@@ -94,3 +96,43 @@ export function etDaysFromToday(input: string | Date): number {
   const diffMs = target.getTime() - base.getTime()
   return Math.round(diffMs / (1000 * 60 * 60 * 24))
 }
+
+// The browser's own time zone; undefined on the server, where there is no client to ask
+export function clientTimeZone(): string | undefined {
+  if (typeof window === 'undefined') return undefined
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone
+  } catch {
+    return undefined
+  }
+}
+
+// Short name of the shop's zone at that moment, e.g. "EDT"
+export function businessTimeZoneName(input: string | Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone: BUSINESS_TIME_ZONE, timeZoneName: 'short' })
+    .formatToParts(toDate(input))
+    .find(p => p.type === 'timeZoneName')?.value ?? BUSINESS_TIME_ZONE
+}
+
+/**
+ * The time in the client's own zone, e.g. "3:00 PM PDT" ("Sat, 1:00 AM GMT+1" when it falls on
+ * another day there), or null when the client's clock reads the same as the shop's.
+ */
+export function formatClientTime(input: string | Date): string | null {
+  const timeZone = clientTimeZone()
+  if (!timeZone) return null
+
+  const d = toDate(input)
+  const clock = (zone: string) => new Intl.DateTimeFormat('en-US', { timeZone: zone, dateStyle: 'short', timeStyle: 'short' }).format(d)
+  if (clock(timeZone) === clock(BUSINESS_TIME_ZONE)) return null
+
+  const sameDay = new Intl.DateTimeFormat('en-CA', { timeZone, dateStyle: 'short' }).format(d) === businessDateKey(d)
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    ...(sameDay ? {} : { weekday: 'short' }),
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZoneName: 'short',
+  }).format(d)
+}
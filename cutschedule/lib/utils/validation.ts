@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { ADMIN_ROLES, APP_CONFIG } from '@/lib/constants'
 
 // Phone number validation (US format)
 const phoneRegex = /^\+?1?[-.\s]?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})$/
@@ -31,8 +32,43 @@ export const appointmentBookingSchema = z.object({
   time: z
     .string()
     .regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+  serviceId: z.string().min(1).optional(),
+  barberId: z.string().min(1).optional(),
+  // Group booking: the other people booked back-to-back after the contact, same service and barber
+  guestNames: z
+    .array(
+      z
+        .string()
+        .min(2, 'Name must be at least 2 characters')
+        .max(50, 'Name must be less than 50 characters')
+        .regex(/^[a-zA-Z\s]+$/, 'Name can only contain letters and spaces')
+    )
+    .max(APP_CONFIG.GROUP_BOOKING_MAX_PEOPLE - 1, `A group booking is for at most ${APP_CONFIG.GROUP_BOOKING_MAX_PEOPLE} people`)
+    .optional(),
 })
 
+export const waitlistJoinSchema = z.object({
+  clientName: appointmentBookingSchema.shape.clientName,
+  phoneNumber: phoneNumberSchema,
+  dates: z
+    .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'))
+    .min(1, 'Pick at least one date')
+    .max(APP_CONFIG.WAITLIST_MAX_DATES, `Pick at most ${APP_CONFIG.WAITLIST_MAX_DATES} dates`),
+  earliestTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format')
+    .optional(),
+  latestTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format')
+    .optional(),
+  serviceId: z.string().min(1).optional(),
+  barberId: z.string().min(1).optional(),
+}).refine(
+  (data) => !data.earliestTime || !data.latestTime || data.earliestTime <= data.latestTime,
+  { message: 'Earliest time must be before latest time', path: ['latestTime'] }
+)
+
 export const appointmentUpdateSchema = z.object({
   date: z
     .string()
@@ -43,28 +79,186 @@ export const appointmentUpdateSchema = z.object({
     .regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format')
     .optional(),
   status: z
-    .enum(['confirmed', 'cancelled', 'completed'])
+    .enum(['confirmed', 'cancelled', 'completed', 'no_show'])
     .optional(),
 })
 
-export const workingHoursSchema = z.object({
-  dayOfWeek: z
-    .number()
-    .min(0, 'Day of week must be between 0-6')
-    .max(6, 'Day of week must be between 0-6'),
+// Repeat an appointment every intervalWeeks weeks, until a date, for a number of visits, or until ended
+export const recurringSeriesSchema = z.object({
+  intervalWeeks: z.number().int().min(1).max(12),
+  untilDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+  occurrenceCount: z.number().int().min(2).max(52).optional(),
+})
+
+// Full days off, or only startTime-endTime of each day; recurring periods repeat every year
+export const timeOffSchema = z.object({
+  barberId: z.string().min(1).nullable().optional(),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+  startTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, 'Start time must be in HH:MM format')
+    .optional(),
+  endTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, 'End time must be in HH:MM format')
+    .optional(),
+  recurring: z.boolean().default(false),
+  reason: z.string().trim().max(100, 'Reason must be less than 100 characters').optional(),
+}).refine(
+  (data) => !data.endDate || data.endDate >= data.startDate,
+  { message: 'End date must not be before start date', path: ['endDate'] }
+).refine(
+  (data) => !data.startTime === !data.endTime,
+  { message: 'Give both a start and end time, or neither for full days', path: ['endTime'] }
+).refine(
+  (data) => !data.startTime || !data.endTime || data.startTime < data.endTime,
+  { message: 'End time must be after start time', path: ['endTime'] }
+)
+
+const workingTimeRange = {
   startTime: z
     .string()
     .regex(/^\d{2}:\d{2}$/, 'Start time must be in HH:MM format'),
   endTime: z
     .string()
     .regex(/^\d{2}:\d{2}$/, 'End time must be in HH:MM format'),
+}
+
+const endsAfterStart = (range: { startTime: string; endTime: string }) => range.startTime < range.endTime
+
+// One weekday: its shifts (several for a split shift) and the named breaks cut out of them
+export const workingDaySchema = z.object({
+  dayOfWeek: z
+    .number()
+    .min(0, 'Day of week must be between 0-6')
+    .max(6, 'Day of week must be between 0-6'),
   isActive: z.boolean().default(true),
+  intervals: z
+    .array(z.object(workingTimeRange).refine(endsAfterStart, { message: 'End time must be after start time', path: ['endTime'] }))
+    .min(1, 'Add at least one shift'),
+  breaks: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, 'Give the break a name').max(40, 'Name must be less than 40 characters'),
+        ...workingTimeRange,
+      }).refine(endsAfterStart, { message: 'End time must be after start time', path: ['endTime'] })
+    )
+    .default([]),
+}).refine(
+  (day) => [...day.intervals]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .every((interval, index, sorted) => index === 0 || sorted[index - 1].endTime <= interval.startTime),
+  { message: 'Shifts must not overlap', path: ['intervals'] }
+)
+
+export const workingHoursSchema = z.object({
+  barberId: z.string().min(1).nullable().optional(),
+  days: z
+    .array(workingDaySchema)
+    .max(7)
+    .refine((days) => new Set(days.map((day) => day.dayOfWeek)).size === days.length, 'Each day can only appear once'),
+})
+
+const barberFields = {
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(50, 'Name must be less than 50 characters'),
+  phoneNumber: phoneNumberSchema.nullable().optional(),
+  email: z.string().email('Please enter a valid email address').nullable().optional(),
+  googleCalendarId: z.string().trim().min(1).nullable().optional(),
+}
+
+export const barberSchema = z.object({
+  ...barberFields,
+  isActive: z.boolean().default(true),
+  sortOrder: z.number().int().min(0).default(0),
+  generateSlots: z.boolean().default(false),
+})
+
+// Updates only touch the fields that were sent
+export const barberUpdateSchema = z.object({
+  ...barberFields,
+  name: barberFields.name.optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+  generateSlots: z.boolean().optional(),
+})
+
+// Saved as a whole from the Business card on /admin/settings
+export const businessSettingsSchema = z.object({
+  businessName: z.string().trim().min(2, 'Business name must be at least 2 characters').max(100),
+  address: z.string().trim().min(5, 'Please enter the shop address').max(200),
+  // Kept as typed so clients see the number the way the shop writes it
+  phone: z.string().trim().regex(phoneRegex, 'Please enter a valid phone number'),
+  bookingUrl: z
+    .string()
+    .trim()
+    .url('Please enter the full booking site address, e.g. https://example.com')
+    .refine((url) => /^https?:\/\//.test(url), 'Booking URL must start with http:// or https://')
+    .transform((url) => url.replace(/\/+$/, '')),
+  appointmentDuration: z.number().int().min(5, 'Appointments must be at least 5 minutes').max(480),
+  slotInterval: z
+    .number()
+    .int()
+    .min(5, 'Slot interval must be at least 5 minutes')
+    .max(120)
+    .refine((minutes) => 60 % minutes === 0 || minutes % 60 === 0, 'Slot interval must divide evenly into an hour'),
+  maxAdvanceDays: z.number().int().min(1, 'Clients must be able to book at least 1 day ahead').max(365),
 })
 
 export const availabilityQuerySchema = z.object({
   date: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  serviceId: z.string().min(1).optional(),
+  barberId: z.string().min(1).optional(),
+  // Group bookings need room for everyone back-to-back
+  people: z.coerce.number().int().min(1).max(APP_CONFIG.GROUP_BOOKING_MAX_PEOPLE).optional(),
+})
+
+// Open-time summary for every day of a month, for the booking calendar
+export const availabilityRangeQuerySchema = availabilityQuerySchema.omit({ date: true }).extend({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format'),
+})
+
+// Soonest open times from now, for quick booking
+export const nextAvailabilityQuerySchema = availabilityQuerySchema.omit({ date: true }).extend({
+  limit: z.coerce.number().int().min(1).max(APP_CONFIG.NEXT_AVAILABLE_MAX).optional(),
+  // Days of the week to include (0 = Sunday)
+  weekdays: z.array(z.coerce.number().int().min(0).max(6)).min(1).optional(),
+  earliestTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format')
+    .optional(),
+  latestTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format')
+    .optional(),
+}).refine(
+  (data) => !data.earliestTime || !data.latestTime || data.earliestTime <= data.latestTime,
+  { message: 'Earliest time must be before latest time', path: ['latestTime'] }
+)
+
+// Hold a picked time while the client fills in their details
+export const slotHoldSchema = z.object({
+  date: appointmentBookingSchema.shape.date,
+  time: appointmentBookingSchema.shape.time,
+  serviceId: z.string().min(1).optional(),
+  barberId: z.string().min(1).optional(),
+  people: z.number().int().min(1).max(APP_CONFIG.GROUP_BOOKING_MAX_PEOPLE).optional(),
 })
 
 export const smsMessageSchema = z.object({
@@ -82,6 +276,47 @@ export const smsMessageSchema = z.object({
   ]),
 })
 
+export const appointmentLookupSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+})
+
+export const lookupCodeSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  code: z
+    .string()
+    .regex(/^\d{6}$/, 'Code must be 6 digits'),
+})
+
+export const allowedEmailSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Please enter a valid email address'),
+  role: z.enum([ADMIN_ROLES.ADMIN, ADMIN_ROLES.STAFF, ADMIN_ROLES.VIEWER]),
+})
+
+export const smsReplySchema = z.object({
+  message: z
+    .string()
+    .trim()
+    .min(1, 'Message cannot be empty')
+    .max(640, 'Message must be less than 640 characters'),
+})
+
+export const clientUpdateSchema = z.object({
+  notes: z
+    .string()
+    .trim()
+    .max(2000, 'Notes must be less than 2000 characters')
+    .nullable()
+    .optional(),
+  tags: z
+    .array(z.string().trim().min(1).max(30, 'Tags must be less than 30 characters'))
+    .max(20, 'At most 20 tags')
+    .optional(),
+})
+
 export const adminLoginSchema = z.object({
   email: z
     .string()
@@ -90,10 +325,18 @@ export const adminLoginSchema = z.object({
 
 // Types derived from schemas
 export type AppointmentBookingData = z.infer<typeof appointmentBookingSchema>
+export type WaitlistJoinData = z.infer<typeof waitlistJoinSchema>
 export type AppointmentUpdateData = z.infer<typeof appointmentUpdateSchema>
 export type WorkingHoursData = z.infer<typeof workingHoursSchema>
+export type BarberData = z.infer<typeof barberSchema>
+export type BusinessSettingsData = z.infer<typeof businessSettingsSchema>
 export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>
+export type AvailabilityRangeQuery = z.infer<typeof availabilityRangeQuerySchema>
+export type NextAvailabilityQuery = z.infer<typeof nextAvailabilityQuerySchema>
 export type SMSMessageData = z.infer<typeof smsMessageSchema>
+export type AllowedEmailData = z.infer<typeof allowedEmailSchema>
+export type SMSReplyData = z.infer<typeof smsReplySchema>
+export type ClientUpdateData = z.infer<typeof clientUpdateSchema>
 export type AdminLoginData = z.infer<typeof adminLoginSchema>
 
 // Validation functions
@@ -0,0 +1,166 @@
+import { addMinutes, format } from 'date-fns'
+import { toZonedTime } from 'date-fns-tz'
+import { prisma } from '@/lib/db'
+import { APP_CONFIG } from '@/lib/constants'
+import { generateSlotsForDays, loadBarberDays } from '@/lib/availability'
+import { withBookingLock } from '@/lib/booking-lock'
+import { resolveService } from '@/lib/services'
+import { createWaitlistOfferToken } from '@/lib/manage-token'
+import { sendSMS } from '@/lib/sms'
+import { getBusinessSettings } from '@/lib/business-settings'
+import { combineDateTime, getBusinessDayRange, parseDateInLocalTimezone } from '@/lib/utils/dates'
+import { BUSINESS_TIME_ZONE, businessDateKey, formatBusinessDateLong, formatBusinessTime } from '@/lib/utils/timezone'
+
+type Opening = { barberId: string | null; startTime: Date }
+
+/**
+ * Text the day's open times to waitlisted clients, oldest entry first.
+ * Each client holds at most one offer at a time, and a time they passed on
+ * (declined or let expire) is not offered to them again, so it moves down the list.
+ * Returns how many offers were sent.
+ */
+export async function offerOpenings(date: Date): Promise<number> {
+  const { start: dayStart, endExclusive: dayEnd } = getBusinessDayRange(date)
+  const dateKey = businessDateKey(dayStart)
+  if (dateKey < format(toZonedTime(new Date(), BUSINESS_TIME_ZONE), 'yyyy-MM-dd')) return 0
+
+  const { slotInterval } = await getBusinessSettings()
+
+  // Offers hold times like bookings do, so they are picked under the same lock; texts go out after
+  const offers = await withBookingLock(dateKey, async (tx) => {
+    const entries = await tx.waitlistEntry.findMany({
+      where: {
+        date: { gte: dayStart, lt: dayEnd },
+        status: 'waiting',
+      },
+      include: {
+        offers: { select: { barberId: true, startTime: true, status: true, expiresAt: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const created = []
+    for (const entry of entries) {
+      const now = new Date()
+      if (entry.offers.some(offer => offer.status === 'pending' && offer.expiresAt > now)) continue
+
+      const service = await resolveService(entry.serviceId)
+      if (!service) continue
+
+      // Reloaded for every entry so the offers made earlier in this loop are held
+      const days = await loadBarberDays(dayStart, { barberId: entry.barberId ?? undefined, db: tx })
+
+      let opening: Opening | null = null
+      for (const day of days) {
+        const slots = generateSlotsForDays([day], dayStart, service.durationMinutes, service.bufferMinutes, slotInterval)
+        for (const slot of slots) {
+          if (entry.earliestTime && slot < entry.earliestTime) continue
+          if (entry.latestTime && slot > entry.latestTime) continue
+
+          const startTime = combineDateTime(dateKey, slot)
+          const passedOn = entry.offers.some(offer =>
+            offer.barberId === day.barberId && offer.startTime.getTime() === startTime.getTime()
+          )
+          if (passedOn) continue
+
+          // Earliest time wins; barbers are in display order, so ties go to the first one
+          if (!opening || startTime < opening.startTime) {
+            opening = { barberId: day.barberId, startTime }
+          }
+          break
+        }
+      }
+      if (!opening) continue
+
+      // Never hold a time past its own start
+      const holdUntil = addMinutes(now, APP_CONFIG.WAITLIST_HOLD_MINUTES)
+      const offer = await tx.waitlistOffer.create({
+        data: {
+          entryId: entry.id,
+          barberId: opening.barberId,
+          startTime: opening.startTime,
+          endTime: addMinutes(opening.startTime, service.durationMinutes),
+          expiresAt: holdUntil < opening.startTime ? holdUntil : opening.startTime,
+        },
+        include: { barber: { select: { name: true } } },
+      })
+      created.push({ offer, entry })
+    }
+    return created
+  })
+
+  let sent = 0
+  for (const { offer, entry } of offers) {
+    const smsResult = await sendSMS(entry.phoneNumber, 'waitlist_offer', {
+      clientName: entry.clientName,
+      date: formatBusinessDateLong(offer.startTime),
+      time: formatBusinessTime(offer.startTime),
+      appointmentId: 'waitlist',
+      barberName: offer.barber?.name,
+      offerToken: createWaitlistOfferToken(offer),
+    })
+
+    if (!smsResult.success) {
+      // The client never heard about it, so don't keep the time held for them
+      console.error(`Failed to send waitlist offer ${offer.id}:`, smsResult.error)
+      await prisma.waitlistOffer.update({
+        where: { id: offer.id },
+        data: { status: 'expired' },
+      })
+      continue
+    }
+
+    sent++
+  }
+
+  return sent
+}
+
+/**
+ * Release holds that ran out and offer those times to the next clients in line.
+ * Returns how many offers expired.
+ */
+export async function expireWaitlistOffers(): Promise<number> {
+  const stale = await prisma.waitlistOffer.findMany({
+    where: { status: 'pending', expiresAt: { lte: new Date() } },
+    select: { id: true, startTime: true },
+  })
+  if (stale.length === 0) return 0
+
+  await prisma.waitlistOffer.updateMany({
+    where: { id: { in: stale.map(offer => offer.id) }, status: 'pending' },
+    data: { status: 'expired' },
+  })
+
+  const dateKeys = new Set(stale.map(offer => businessDateKey(offer.startTime)))
+  for (const dateKey of dateKeys) {
+    await offerOpenings(parseDateInLocalTimezone(dateKey))
+  }
+
+  return stale.length
+}
+
+// Client turned the offer down: release the hold right away instead of waiting it out
+export async function declineWaitlistOffer(offerId: string): Promise<boolean> {
+  const offer = await prisma.waitlistOffer.findUnique({ where: { id: offerId } })
+  if (!offer) return false
+
+  const result = await prisma.waitlistOffer.updateMany({
+    where: { id: offerId, status: 'pending' },
+    data: { status: 'declined' },
+  })
+  if (result.count > 0) {
+    await offerOpenings(offer.startTime)
+  }
+  return result.count > 0
+}
+
+// Entries for days that have passed can never be offered anything
+export async function expirePastWaitlistEntries(): Promise<number> {
+  const todayKey = format(toZonedTime(new Date(), BUSINESS_TIME_ZONE), 'yyyy-MM-dd')
+  const result = await prisma.waitlistEntry.updateMany({
+    where: { status: 'waiting', date: { lt: parseDateInLocalTimezone(todayKey) } },
+    data: { status: 'expired' },
+  })
+  return result.count
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client'
+import { DEFAULT_SERVICES } from '../lib/constants'
 
 const prisma = new PrismaClient()
 
@@ -8,6 +9,15 @@ async function main() {
   // Note: Access control is managed by Google OAuth allowed test users
   // No admin table or admin user seeding needed
 
+  // Create the first barber; working hours, slots and appointments all belong to a barber
+  let barber = await prisma.barber.findFirst({ orderBy: { sortOrder: 'asc' } })
+  if (!barber) {
+    barber = await prisma.barber.create({
+      data: { name: process.env.SEED_BARBER_NAME || 'Neil', sortOrder: 0 },
+    })
+  }
+  console.log(`✅ Barber: ${barber.name}`)
+
   // Create default working hours
   const defaultWorkingHours = [
     { dayOfWeek: 0, startTime: '10:00', endTime: '16:00', isActive: false }, // Sunday - Closed
@@ -19,20 +29,32 @@ async function main() {
     { dayOfWeek: 6, startTime: '09:00', endTime: '17:00', isActive: true },  // Saturday
   ]
 
+  // A day can have several shifts, so hours already set up (possibly split) are left alone
+  const existingDays = new Set(
+    (await prisma.workingHours.findMany({ where: { barberId: barber.id }, select: { dayOfWeek: true } }))
+      .map((row) => row.dayOfWeek)
+  )
+
   for (const hours of defaultWorkingHours) {
-    const workingHour = await prisma.workingHours.upsert({
-      where: {
-        dayOfWeek: hours.dayOfWeek,
-      },
-      update: hours,
-      create: hours,
-    })
+    if (!existingDays.has(hours.dayOfWeek)) {
+      await prisma.workingHours.create({ data: { ...hours, barberId: barber.id } })
+    }
 
     const dayName = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][hours.dayOfWeek]
     const status = hours.isActive ? `${hours.startTime} - ${hours.endTime}` : 'Closed'
     console.log(`✅ ${dayName}: ${status}`)
   }
 
+  // Create the service catalog (existing prices/durations edited in the DB are left alone)
+  for (const service of DEFAULT_SERVICES) {
+    await prisma.service.upsert({
+      where: { slug: service.slug },
+      update: {},
+      create: { ...service },
+    })
+    console.log(`✅ Service: ${service.name} (${service.durationMinutes} min)`)
+  }
+
   console.log('🎉 Database seeded successfully!')
 }
 
@@ -0,0 +1,80 @@
+/**
+ * Assign rows created before barbers existed to a barber
+ *
+ * Working hours, available slots and appointments with no barber are moved to the
+ * given barber (or the first barber by sort order). Creates that barber if none exist.
+ *
+ * Usage: npx tsx scripts/assign-default-barber.ts [barberName]
+ */
+
+import { prisma } from '../lib/db'
+
+async function assignDefaultBarber() {
+  console.log('💈 Assigning unowned schedule data to a barber...\n')
+
+  try {
+    const requestedName = process.argv[2]
+
+    let barber = requestedName
+      ? await prisma.barber.findFirst({ where: { name: requestedName } })
+      : await prisma.barber.findFirst({ orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }] })
+
+    if (!barber) {
+      const name = requestedName || process.env.SEED_BARBER_NAME || 'Neil'
+      barber = await prisma.barber.create({
+        data: { name, googleCalendarId: process.env.GOOGLE_CALENDAR_ID || null },
+      })
+      console.log(`✅ Created barber: ${barber.name}`)
+    }
+
+    console.log(`📋 Target barber: ${barber.name} (${barber.id})\n`)
+
+    // Skip legacy working hours and breaks for days the barber already has hours on, so no day gets two schedules
+    const existingDays = await prisma.workingHours.findMany({
+      where: { barberId: barber.id },
+      select: { dayOfWeek: true },
+    })
+    const workingHours = await prisma.workingHours.updateMany({
+      where: {
+        barberId: null,
+        dayOfWeek: { notIn: existingDays.map(d => d.dayOfWeek) },
+      },
+      data: { barberId: barber.id },
+    })
+    const workingBreaks = await prisma.workingBreak.updateMany({
+      where: {
+        barberId: null,
+        dayOfWeek: { notIn: existingDays.map(d => d.dayOfWeek) },
+      },
+      data: { barberId: barber.id },
+    })
+
+    const slots = await prisma.availableSlot.updateMany({
+      where: { barberId: null },
+      data: { barberId: barber.id },
+    })
+
+    const appointments = await prisma.appointment.updateMany({
+      where: { barberId: null },
+      data: { barberId: barber.id },
+    })
+
+    console.log('='.repeat(60))
+    console.log('📊 Backfill Summary:')
+    console.log(`   Working hours: ${workingHours.count}`)
+    console.log(`   Working breaks: ${workingBreaks.count}`)
+    console.log(`   Available slots: ${slots.count}`)
+    console.log(`   Appointments: ${appointments.count}`)
+    console.log('='.repeat(60) + '\n')
+  } catch (error) {
+    console.error('❌ Fatal error during backfill:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+assignDefaultBarber().catch(err => {
+  console.error('❌ Unhandled error:', err)
+  process.exit(1)
+})
@@ -0,0 +1,91 @@
+/**
+ * Backfill client profiles from existing appointments
+ *
+ * Groups appointments by normalized phone number, creates (or updates) a Client for
+ * each number with every name it booked under, links the appointments to it and
+ * recomputes visit and no-show counts. Safe to run more than once.
+ *
+ * Usage: npx tsx scripts/backfill-clients.ts
+ */
+
+import { prisma } from '../lib/db'
+import { refreshClientStats } from '../lib/clients'
+import { normalizePhoneNumber } from '../lib/utils/validation'
+
+const BATCH_SIZE = 100
+
+async function backfillClients() {
+  console.log('👥 Backfilling client profiles from appointments...\n')
+
+  try {
+    // Oldest first so the last name seen is the most recent one
+    const appointments = await prisma.appointment.findMany({
+      where: { phoneNumber: { not: '' } },
+      select: { id: true, phoneNumber: true, clientName: true },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const byPhone = new Map<string, { names: string[]; appointmentIds: string[] }>()
+    for (const appointment of appointments) {
+      const phone = normalizePhoneNumber(appointment.phoneNumber.trim())
+      const group = byPhone.get(phone) ?? { names: [], appointmentIds: [] }
+      const name = appointment.clientName.trim()
+      if (name) {
+        // Keep the order names were first used, but move a repeated name to the end
+        group.names = [...group.names.filter(n => n !== name), name]
+      }
+      group.appointmentIds.push(appointment.id)
+      byPhone.set(phone, group)
+    }
+
+    console.log(`📋 ${appointments.length} appointments from ${byPhone.size} phone numbers\n`)
+
+    const clientIds: string[] = []
+    let created = 0
+
+    for (const [phoneNumber, group] of byPhone) {
+      const latestName = group.names[group.names.length - 1] || 'Unknown'
+      const existing = await prisma.client.findUnique({ where: { phoneNumber } })
+
+      const client = existing
+        ? await prisma.client.update({
+            where: { id: existing.id },
+            data: {
+              name: latestName,
+              nameHistory: [...existing.nameHistory, ...group.names.filter(n => !existing.nameHistory.includes(n))],
+            },
+          })
+        : await prisma.client.create({
+            data: { phoneNumber, name: latestName, nameHistory: group.names },
+          })
+      if (!existing) created++
+
+      await prisma.appointment.updateMany({
+        where: { id: { in: group.appointmentIds } },
+        data: { clientId: client.id },
+      })
+      clientIds.push(client.id)
+    }
+
+    for (let i = 0; i < clientIds.length; i += BATCH_SIZE) {
+      await refreshClientStats(clientIds.slice(i, i + BATCH_SIZE))
+    }
+
+    console.log('='.repeat(60))
+    console.log('📊 Backfill Summary:')
+    console.log(`   Clients created: ${created}`)
+    console.log(`   Clients updated: ${clientIds.length - created}`)
+    console.log(`   Appointments linked: ${appointments.length}`)
+    console.log('='.repeat(60) + '\n')
+  } catch (error) {
+    console.error('❌ Fatal error during backfill:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+backfillClients().catch(err => {
+  console.error('❌ Unhandled error:', err)
+  process.exit(1)
+})
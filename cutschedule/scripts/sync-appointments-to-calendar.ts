@@ -18,20 +18,24 @@ async function syncAppointmentsToCalendar() {
 
   try {
     // Find all confirmed appointments without a Google Calendar event
-    // Align "now" to an ET instant so the future filter is consistent with business TZ
+    // Align "now" to a business-time instant so the future filter is consistent with business TZ
     const now = new Date()
     const nowZoned = toZonedTime(now, BUSINESS_TIME_ZONE)
     const nowKey = format(nowZoned, "yyyy-MM-dd'T'HH:mm:ss.SSS")
-    const nowETInstant = fromZonedTime(nowKey, BUSINESS_TIME_ZONE)
+    const nowBusinessInstant = fromZonedTime(nowKey, BUSINESS_TIME_ZONE)
 
     const appointments = await prisma.appointment.findMany({
       where: {
         googleEventId: null,
         status: 'confirmed',
         startTime: {
-          gte: nowETInstant, // Only sync future appointments (ET-aligned)
+          gte: nowBusinessInstant, // Only sync future appointments (business-time aligned)
         },
       },
+      include: {
+        service: { select: { name: true } },
+        barber: { select: { googleCalendarId: true } },
+      },
       orderBy: {
         startTime: 'asc',
       },
@@ -57,10 +61,14 @@ async function syncAppointmentsToCalendar() {
       console.log(`\n⏳ Syncing appointment ${appointment.id}:`)
       console.log(`   Client: ${appointment.clientName}`)
       console.log(`   Phone: ${appointment.phoneNumber}`)
-      console.log(`   Date: ${appointment.startTime.toLocaleString('en-US', { timeZone: 'America/New_York' })}`)
+      console.log(`   Date: ${appointment.startTime.toLocaleString('en-US', { timeZone: BUSINESS_TIME_ZONE })}`)
 
       try {
-        const result = await createCalendarEvent(appointment, ownerEmail)
+        const result = await createCalendarEvent({
+          ...appointment,
+          serviceName: appointment.service?.name,
+          calendarId: appointment.barber?.googleCalendarId,
+        }, ownerEmail)
 
         if (result.success && result.eventId) {
           // Update appointment with Google Calendar event ID
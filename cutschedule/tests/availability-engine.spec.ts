@@ -0,0 +1,260 @@
+import { test, expect } from '@playwright/test'
+import { fromZonedTime } from 'date-fns-tz'
+import {
+  bookableStarts,
+  checkStart,
+  subtractWindows,
+  type Booking,
+  type DaySchedule,
+} from '../lib/availability-engine'
+
+// Pure unit tests: no server or browser needed
+test.describe('Availability engine', () => {
+  const timeZone = 'America/New_York'
+  const regularDay = '2026-06-15'
+  const springForward = '2026-03-08' // 02:00 EST jumps to 03:00 EDT
+  const fallBack = '2026-11-01' // 02:00 EDT falls back to 01:00 EST
+
+  function day(date: string, windows: [string, string][], options: { bookings?: Booking[]; blocks?: [string, string][] } = {}): DaySchedule {
+    return {
+      date,
+      timeZone,
+      windows: windows.map(([startTime, endTime]) => ({ startTime, endTime })),
+      blocks: options.blocks?.map(([startTime, endTime]) => ({ startTime, endTime })),
+      bookings: options.bookings ?? [],
+    }
+  }
+
+  // A booking given in wall-clock time on a day
+  function booking(date: string, start: string, end: string, bufferMinutes = 0): Booking {
+    return {
+      startTime: fromZonedTime(`${date}T${start}:00.000`, timeZone),
+      endTime: fromZonedTime(`${date}T${end}:00.000`, timeZone),
+      bufferMinutes,
+    }
+  }
+
+  const halfHour = { durationMinutes: 30, bufferMinutes: 0, intervalMinutes: 30 }
+
+  test.describe('bookableStarts', () => {
+    test('steps through a window by the interval', () => {
+      expect(bookableStarts(day(regularDay, [['09:00', '11:00']]), { durationMinutes: 30, bufferMinutes: 0, intervalMinutes: 15 }))
+        .toEqual(['09:00', '09:15', '09:30', '09:45', '10:00', '10:15', '10:30'])
+    })
+
+    test('keeps the whole booking inside the window', () => {
+      expect(bookableStarts(day(regularDay, [['09:00', '10:00']]), { durationMinutes: 44, bufferMinutes: 0, intervalMinutes: 15 }))
+        .toEqual(['09:00', '09:15'])
+    })
+
+    test('returns nothing when the service is longer than the window', () => {
+      expect(bookableStarts(day(regularDay, [['09:00', '09:30']]), { durationMinutes: 45, bufferMinutes: 0, intervalMinutes: 15 }))
+        .toEqual([])
+    })
+
+    test('aligns the grid to the window start, not the clock', () => {
+      expect(bookableStarts(day(regularDay, [['09:10', '10:30']]), { durationMinutes: 20, bufferMinutes: 0, intervalMinutes: 20 }))
+        .toEqual(['09:10', '09:30', '09:50', '10:10'])
+    })
+
+    test('lets the new buffer run past the end of the window', () => {
+      expect(bookableStarts(day(regularDay, [['09:00', '10:00']]), { durationMinutes: 30, bufferMinutes: 15, intervalMinutes: 30 }))
+        .toEqual(['09:00', '09:30'])
+    })
+
+    test('allows bookings back-to-back with an existing one', () => {
+      const schedule = day(regularDay, [['09:00', '11:00']], { bookings: [booking(regularDay, '10:00', '10:30')] })
+      expect(bookableStarts(schedule, halfHour)).toEqual(['09:00', '09:30', '10:30'])
+    })
+
+    test('keeps the new booking\'s buffer clear of the next booking', () => {
+      const schedule = day(regularDay, [['09:00', '11:00']], { bookings: [booking(regularDay, '10:00', '10:30')] })
+      expect(bookableStarts(schedule, { durationMinutes: 30, bufferMinutes: 15, intervalMinutes: 15 }))
+        .toEqual(['09:00', '09:15', '10:30'])
+    })
+
+    test('blocks the buffer after an existing booking', () => {
+      const schedule = day(regularDay, [['09:00', '11:30']], { bookings: [booking(regularDay, '10:00', '10:30', 15)] })
+      expect(bookableStarts(schedule, { durationMinutes: 30, bufferMinutes: 0, intervalMinutes: 15 }))
+        .toEqual(['09:00', '09:15', '09:30', '10:45', '11:00'])
+    })
+
+    test('ignores bookings at the same wall-clock time on another day', () => {
+      const schedule = day(regularDay, [['09:00', '10:00']], { bookings: [booking('2026-06-16', '09:00', '10:00')] })
+      expect(bookableStarts(schedule, halfHour)).toEqual(['09:00', '09:30'])
+    })
+
+    test('cuts blocks such as breaks out of the windows', () => {
+      const schedule = day(regularDay, [['11:00', '14:00']], { blocks: [['12:00', '13:00']] })
+      expect(bookableStarts(schedule, { durationMinutes: 30, bufferMinutes: 0, intervalMinutes: 15 }))
+        .toEqual(['11:00', '11:15', '11:30', '13:00', '13:15', '13:30'])
+    })
+
+    test('returns nothing when blocks cover the whole window', () => {
+      const schedule = day(regularDay, [['09:00', '17:00']], { blocks: [['00:00', '24:00']] })
+      expect(bookableStarts(schedule, halfHour)).toEqual([])
+    })
+
+    test('offers each start once across overlapping windows', () => {
+      const schedule = day(regularDay, [['09:00', '10:30'], ['10:00', '11:00']])
+      expect(bookableStarts(schedule, halfHour)).toEqual(['09:00', '09:30', '10:00', '10:30'])
+    })
+
+    test('needs the booking to fit inside a single window', () => {
+      const schedule = day(regularDay, [['09:00', '10:00'], ['10:00', '11:00']])
+      expect(bookableStarts(schedule, { durationMinutes: 45, bufferMinutes: 0, intervalMinutes: 15 }))
+        .toEqual(['09:00', '09:15', '10:00', '10:15'])
+    })
+
+    test('covers split shifts', () => {
+      const schedule = day(regularDay, [['09:00', '10:00'], ['17:00', '18:00']])
+      expect(bookableStarts(schedule, halfHour)).toEqual(['09:00', '09:30', '17:00', '17:30'])
+    })
+
+    test('returns sorted starts when windows are out of order', () => {
+      const schedule = day(regularDay, [['17:00', '18:00'], ['09:00', '10:00']])
+      expect(bookableStarts(schedule, halfHour)).toEqual(['09:00', '09:30', '17:00', '17:30'])
+    })
+
+    test('leaves out starts before notBefore', () => {
+      const notBefore = fromZonedTime(`${regularDay}T09:40:00.000`, timeZone)
+      expect(bookableStarts(day(regularDay, [['09:00', '11:00']]), { ...halfHour, notBefore }))
+        .toEqual(['10:00', '10:30'])
+    })
+
+    test('keeps a start exactly at notBefore', () => {
+      const notBefore = fromZonedTime(`${regularDay}T10:00:00.000`, timeZone)
+      expect(bookableStarts(day(regularDay, [['09:00', '11:00']]), { ...halfHour, notBefore }))
+        .toEqual(['10:00', '10:30'])
+    })
+
+    test('supports windows that end at midnight', () => {
+      expect(bookableStarts(day(regularDay, [['22:00', '24:00']]), { durationMinutes: 60, bufferMinutes: 0, intervalMinutes: 60 }))
+        .toEqual(['22:00', '23:00'])
+    })
+
+    test('returns nothing without windows', () => {
+      expect(bookableStarts(day(regularDay, []), halfHour)).toEqual([])
+    })
+
+    test('rejects a non-positive interval', () => {
+      expect(() => bookableStarts(day(regularDay, [['09:00', '10:00']]), { ...halfHour, intervalMinutes: 0 })).toThrow()
+    })
+  })
+
+  test.describe('checkStart', () => {
+    const schedule = day(regularDay, [['09:00', '12:00']], { bookings: [booking(regularDay, '10:00', '10:30', 10)] })
+    const request = { durationMinutes: 30, bufferMinutes: 0 }
+
+    test('accepts a free time inside a window', () => {
+      expect(checkStart(schedule, request, '09:00')).toBe('ok')
+    })
+
+    test('accepts times off the interval grid', () => {
+      expect(checkStart(schedule, request, '09:07')).toBe('ok')
+    })
+
+    test('reports times outside every window', () => {
+      expect(checkStart(schedule, request, '08:30')).toBe('outside_window')
+      expect(checkStart(schedule, request, '11:45')).toBe('outside_window')
+    })
+
+    test('reports overlaps with a booking and its buffer', () => {
+      expect(checkStart(schedule, request, '09:45')).toBe('conflict')
+      expect(checkStart(schedule, request, '10:35')).toBe('conflict')
+      expect(checkStart(schedule, request, '10:40')).toBe('ok')
+    })
+
+    test('reports the window before a conflict', () => {
+      const full = day(regularDay, [['09:00', '10:00']], { bookings: [booking(regularDay, '09:00', '10:00')] })
+      expect(checkStart(full, { durationMinutes: 90, bufferMinutes: 0 }, '09:00')).toBe('outside_window')
+    })
+
+    test('treats blocked time as outside the windows', () => {
+      const withBreak = day(regularDay, [['09:00', '17:00']], { blocks: [['12:00', '13:00']] })
+      expect(checkStart(withBreak, request, '11:45')).toBe('outside_window')
+      expect(checkStart(withBreak, request, '13:00')).toBe('ok')
+    })
+  })
+
+  test.describe('DST transition days', () => {
+    test('matches a regular day when the change is outside the window', () => {
+      const regular = bookableStarts(day(regularDay, [['09:00', '17:00']]), halfHour)
+      expect(bookableStarts(day(springForward, [['09:00', '17:00']]), halfHour)).toEqual(regular)
+      expect(bookableStarts(day(fallBack, [['09:00', '17:00']]), halfHour)).toEqual(regular)
+    })
+
+    test('never offers times the clock skips on the spring-forward day', () => {
+      expect(bookableStarts(day(springForward, [['00:00', '05:00']]), halfHour))
+        .toEqual(['00:00', '00:30', '01:00', '01:30', '03:00', '03:30', '04:00', '04:30'])
+    })
+
+    test('measures bookings across the jump in real minutes', () => {
+      // 00:00 to 03:00 is only two hours long on the spring-forward day
+      expect(bookableStarts(day(springForward, [['00:00', '03:00']]), { durationMinutes: 60, bufferMinutes: 0, intervalMinutes: 60 }))
+        .toEqual(['00:00', '01:00'])
+      expect(checkStart(day(springForward, [['00:00', '04:00']]), { durationMinutes: 120, bufferMinutes: 0 }, '01:30')).toBe('outside_window')
+      expect(checkStart(day(regularDay, [['00:00', '04:00']]), { durationMinutes: 120, bufferMinutes: 0 }, '01:30')).toBe('ok')
+    })
+
+    test('rejects a skipped time when checking a single start', () => {
+      expect(checkStart(day(springForward, [['00:00', '05:00']]), { durationMinutes: 30, bufferMinutes: 0 }, '02:30')).toBe('outside_window')
+    })
+
+    test('opens a window that starts inside the skipped hour when the clock jumps', () => {
+      expect(bookableStarts(day(springForward, [['02:30', '04:00']]), halfHour)).toEqual(['03:00', '03:30'])
+    })
+
+    test('offers each wall-clock time once on the fall-back day', () => {
+      expect(bookableStarts(day(fallBack, [['00:00', '04:00']]), { durationMinutes: 60, bufferMinutes: 0, intervalMinutes: 60 }))
+        .toEqual(['00:00', '01:00', '02:00', '03:00'])
+    })
+
+    test('fits longer bookings into the extra hour of the fall-back day', () => {
+      expect(checkStart(day(fallBack, [['00:00', '02:00']]), { durationMinutes: 120, bufferMinutes: 0 }, '00:30')).toBe('ok')
+      expect(checkStart(day(regularDay, [['00:00', '02:00']]), { durationMinutes: 120, bufferMinutes: 0 }, '00:30')).toBe('outside_window')
+    })
+
+    test('reads a repeated time as its first occurrence', () => {
+      const firstOneThirty = fromZonedTime(`${fallBack}T01:30:00.000`, timeZone)
+      expect(firstOneThirty.toISOString()).toBe('2026-11-01T05:30:00.000Z')
+
+      // A booking during the second 01:15 (EST) overlaps the end of a 60-minute booking at the first 01:30 (EDT)
+      const secondOneFifteen = { startTime: new Date('2026-11-01T06:15:00.000Z'), endTime: new Date('2026-11-01T06:45:00.000Z'), bufferMinutes: 0 }
+      const schedule = day(fallBack, [['00:00', '04:00']], { bookings: [secondOneFifteen] })
+      expect(checkStart(schedule, { durationMinutes: 60, bufferMinutes: 0 }, '01:30')).toBe('conflict')
+      expect(checkStart(schedule, { durationMinutes: 30, bufferMinutes: 0 }, '01:30')).toBe('ok')
+    })
+
+    test('follows the time zone it is given', () => {
+      // London springs forward from 01:00 to 02:00
+      const london = { ...day('2026-03-29', [['00:00', '03:00']]), timeZone: 'Europe/London' }
+      expect(bookableStarts(london, halfHour)).toEqual(['00:00', '00:30', '02:00', '02:30'])
+    })
+  })
+
+  test.describe('subtractWindows', () => {
+    const windows = [{ startTime: '09:00', endTime: '17:00' }]
+
+    test('splits a window around a cut in its middle', () => {
+      expect(subtractWindows(windows, [{ startTime: '12:00', endTime: '13:00' }])).toEqual([
+        { startTime: '09:00', endTime: '12:00' },
+        { startTime: '13:00', endTime: '17:00' },
+      ])
+    })
+
+    test('trims cuts that overlap an edge', () => {
+      expect(subtractWindows(windows, [{ startTime: '08:00', endTime: '10:00' }, { startTime: '16:00', endTime: '18:00' }]))
+        .toEqual([{ startTime: '10:00', endTime: '16:00' }])
+    })
+
+    test('removes windows a cut covers', () => {
+      expect(subtractWindows(windows, [{ startTime: '00:00', endTime: '24:00' }])).toEqual([])
+    })
+
+    test('leaves windows alone when cuts only touch them', () => {
+      expect(subtractWindows(windows, [{ startTime: '17:00', endTime: '18:00' }, { startTime: '08:00', endTime: '09:00' }]))
+        .toEqual(windows)
+    })
+  })
+})
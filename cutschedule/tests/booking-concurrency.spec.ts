@@ -0,0 +1,95 @@
+import { test, expect, APIRequestContext } from '@playwright/test'
+import { addDays, format } from 'date-fns'
+
+test.describe('Booking concurrency', () => {
+  const baseUrl = process.env.TEST_BASE_URL || 'http://localhost:3000'
+  const parallelRequests = 5
+
+  // First open slot with one barber, a few days out so the test booking can still be cancelled online
+  async function findOpenSlot(request: APIRequestContext, firstOffset = 2) {
+    const barbersResponse = await request.get(`${baseUrl}/api/barbers`)
+    const barbers: { id: string }[] = await barbersResponse.json()
+    if (barbers.length === 0) return null
+
+    for (let offset = firstOffset; offset < 14; offset++) {
+      const date = format(addDays(new Date(), offset), 'yyyy-MM-dd')
+      const response = await request.get(`${baseUrl}/api/availability?date=${date}&barberId=${barbers[0].id}`)
+      const data = await response.json()
+      if (data.available && data.slots.length > 0) {
+        return { date, time: data.slots[0] as string, barberId: barbers[0].id, offset }
+      }
+    }
+    return null
+  }
+
+  test('should book a slot only once when requests arrive together', async ({ request }) => {
+    const slot = await findOpenSlot(request)
+    test.skip(!slot, 'No open slots in the next two weeks')
+
+    const responses = await Promise.all(
+      Array.from({ length: parallelRequests }, (_, index) =>
+        request.post(`${baseUrl}/api/appointments`, {
+          data: {
+            clientName: 'Concurrency Test',
+            phoneNumber: `555010000${index}`,
+            date: slot!.date,
+            time: slot!.time,
+            barberId: slot!.barberId,
+          },
+        })
+      )
+    )
+
+    const booked = responses.filter(response => response.status() === 201)
+    const rejected = responses.filter(response => response.status() === 400)
+
+    try {
+      expect(booked).toHaveLength(1)
+      expect(rejected).toHaveLength(parallelRequests - 1)
+      for (const response of rejected) {
+        const data = await response.json()
+        expect(data.error).toBe('Selected time slot is no longer available')
+      }
+    } finally {
+      // Cancel whatever was booked so the slot is free for the next run
+      for (const response of booked) {
+        const appointment = await response.json()
+        await request.delete(`${baseUrl}/api/appointments/${appointment.id}?token=${appointment.manageToken}`)
+      }
+    }
+  })
+
+  test('should book one upcoming appointment per phone number across days', async ({ request }) => {
+    const first = await findOpenSlot(request)
+    const second = first ? await findOpenSlot(request, first.offset + 1) : null
+    test.skip(!first || !second, 'No open slots on two days in the next two weeks')
+
+    // Different days take different day locks, so only the client's lock keeps this to one booking
+    const responses = await Promise.all([first!, second!].map(slot =>
+      request.post(`${baseUrl}/api/appointments`, {
+        data: {
+          clientName: 'Concurrency Test',
+          phoneNumber: '5550100009',
+          date: slot.date,
+          time: slot.time,
+          barberId: slot.barberId,
+        },
+      })
+    ))
+
+    const booked = responses.filter(response => response.status() === 201)
+    const rejected = responses.filter(response => response.status() === 400)
+
+    try {
+      expect(booked).toHaveLength(1)
+      expect(rejected).toHaveLength(1)
+      const data = await rejected[0].json()
+      expect(data.error).toBe('You already have an upcoming appointment')
+    } finally {
+      for (const response of booked) {
+        const appointment = await response.json()
+        await request.delete(`${baseUrl}/api/appointments/${appointment.id}?token=${appointment.manageToken}`)
+      }
+    }
+  })
+})
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test'
+import { buildCalendar, barberAppointmentEvent, icsStatus, type IcsAppointment } from '../lib/ics'
+import { DEFAULT_BUSINESS_SETTINGS } from '../lib/constants'
+
+// Pure unit tests: no server or browser needed
+test.describe('iCalendar files', () => {
+  const appointment: IcsAppointment = {
+    id: 'apt1',
+    clientName: 'Sam Client',
+    phoneNumber: '+15550100000',
+    startTime: new Date('2026-06-15T14:00:00Z'),
+    endTime: new Date('2026-06-15T14:30:00Z'),
+    status: 'confirmed',
+    calendarSequence: 0,
+  }
+
+  function calendarFor(status: string, calendarSequence: number) {
+    const event = barberAppointmentEvent({ ...appointment, status, calendarSequence }, DEFAULT_BUSINESS_SETTINGS)
+    return buildCalendar('Test', [event])
+  }
+
+  test.describe('icsStatus', () => {
+    test('publishes confirmed and completed appointments as confirmed', () => {
+      expect(icsStatus('confirmed')).toBe('CONFIRMED')
+      expect(icsStatus('completed')).toBe('CONFIRMED')
+    })
+
+    test('publishes cancelled and no-show appointments as cancelled', () => {
+      expect(icsStatus('cancelled')).toBe('CANCELLED')
+      expect(icsStatus('no_show')).toBe('CANCELLED')
+    })
+  })
+
+  test.describe('buildCalendar', () => {
+    test('writes the status and sequence of each event', () => {
+      const calendar = calendarFor('confirmed', 0)
+      expect(calendar).toContain('STATUS:CONFIRMED\r\n')
+      expect(calendar).toContain('SEQUENCE:0\r\n')
+    })
+
+    test('publishes a no-show as a cancelled update of the same event', () => {
+      const before = calendarFor('confirmed', 0)
+      const after = calendarFor('no_show', 1)
+      const uid = (calendar: string) => calendar.match(/UID:(.*)\r\n/)?.[1]
+
+      expect(uid(after)).toBe(uid(before))
+      expect(after).toContain('STATUS:CANCELLED\r\n')
+      expect(after).toContain('SEQUENCE:1\r\n')
+    })
+
+    test('drops reminders from cancelled events', () => {
+      expect(calendarFor('no_show', 1)).not.toContain('BEGIN:VALARM')
+    })
+  })
+})
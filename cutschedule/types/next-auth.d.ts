@@ -7,6 +7,7 @@ declare module 'next-auth' {
       name?: string | null
       email?: string | null
       image?: string | null
+      role: string | null
     }
   }
 
@@ -17,6 +18,7 @@ declare module 'next-auth' {
     email?: string | null
     emailVerified?: Date | null
     image?: string | null
+    role?: string | null
   }
 
   // JWT interface for middleware token type compatibility